@@ -63,19 +63,22 @@ async function createPost({
   publishedAt = new Date().toISOString(),
 }) {
   const postSlug = slug || slugify(title);
-  
+
+  // Convert the HTML into Portable Text, uploading embedded images as assets
+  const { blocks, uploaded, skipped } = await client.importHtml(htmlContent);
+  if (uploaded.length) {
+    console.log(`🖼️  Uploaded ${uploaded.length} image(s)`);
+  }
+  skipped.forEach(({ src, reason }) => {
+    console.warn(`⚠️  Kept image as link (${reason}): ${src}`);
+  });
+
   const document = {
     _type: 'post',
     title,
     slug: { _type: 'slug', current: postSlug },
     excerpt,
-    body: [
-      {
-        _key: randomKey(),
-        _type: 'htmlContent',
-        html: htmlContent,
-      },
-    ],
+    body: blocks,
     author: {
       _type: 'reference',
       _ref: AUTHORS[author] || AUTHORS.gianni,
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for asset payload helpers
+ */
+
+import { mkdirSync, mkdtempSync, realpathSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { assetKindForType, detectContentType, loadAssetSource, parseDataUrl } from '../assets';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('detectContentType', () => {
+  it('should detect formats from their signature', () => {
+    expect(detectContentType(PNG, 'photo.jpg')).toBe('image/png');
+    expect(detectContentType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+    expect(detectContentType(Buffer.from('<?xml version="1.0"?><svg xmlns="x"></svg>'))).toBe('image/svg+xml');
+  });
+
+  it('should fall back to the file extension', () => {
+    expect(detectContentType(Buffer.from('a,b\n1,2'), 'data.CSV')).toBe('text/csv');
+    expect(detectContentType(Buffer.from('??'), 'unknown.xyz')).toBe('application/octet-stream');
+  });
+});
+
+describe('assetKindForType', () => {
+  it('should upload images as image assets and everything else as files', () => {
+    expect(assetKindForType('image/webp')).toBe('image');
+    expect(assetKindForType('application/pdf')).toBe('file');
+  });
+});
+
+describe('parseDataUrl', () => {
+  it('should decode base64 and percent-encoded data URLs', () => {
+    expect(parseDataUrl('data:text/plain;charset=utf-8;base64,aGk=')).toEqual({
+      buffer: Buffer.from('hi'),
+      contentType: 'text/plain',
+    });
+    expect(parseDataUrl('data:,a%20b')).toEqual({ buffer: Buffer.from('a b') });
+    expect(parseDataUrl('aGk=')).toBeUndefined();
+  });
+});
+
+describe('loadAssetSource', () => {
+  it('should read a local file relative to the working directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    writeFileSync(join(dir, 'logo.png'), PNG);
+
+    const payload = await loadAssetSource({ path: 'logo.png' }, dir);
+
+    expect(payload).toEqual({ buffer: PNG, contentType: 'image/png', filename: 'logo.png' });
+  });
+
+  it('should name base64 content after its detected type', async () => {
+    const payload = await loadAssetSource({ base64: PNG.toString('base64') });
+
+    expect(payload.contentType).toBe('image/png');
+    expect(payload.filename).toBe('upload.png');
+  });
+
+  it('should prefer the data URL content type and explicit names', async () => {
+    const payload = await loadAssetSource({
+      base64: 'data:application/pdf;base64,JVBERg==',
+      filename: 'report.pdf',
+    });
+
+    expect(payload).toMatchObject({ contentType: 'application/pdf', filename: 'report.pdf' });
+  });
+
+  it('should require exactly one source', async () => {
+    await expect(loadAssetSource({})).rejects.toThrow('Provide either path or base64');
+    await expect(loadAssetSource({ path: 'a', base64: 'b' })).rejects.toThrow('Provide either path or base64');
+  });
+
+  it('should report unreadable files', async () => {
+    const dir = realpathSync(mkdtempSync(join(tmpdir(), 'sanity-mcp-')));
+
+    await expect(loadAssetSource({ path: 'missing.png' }, dir)).rejects.toThrow(`Cannot read ${join(dir, 'missing.png')}`);
+  });
+
+  it('should only read files inside the upload directory', async () => {
+    const parent = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    const dir = join(parent, 'uploads');
+    mkdirSync(dir);
+    writeFileSync(join(parent, 'sanity-mcp.config.json'), '{"profiles":{}}');
+    symlinkSync(join(parent, 'sanity-mcp.config.json'), join(dir, 'link.json'));
+
+    await expect(loadAssetSource({ path: '../sanity-mcp.config.json' }, dir)).rejects.toThrow('is outside');
+    await expect(loadAssetSource({ path: join(parent, 'sanity-mcp.config.json') }, dir)).rejects.toThrow('is outside');
+    await expect(loadAssetSource({ path: '/etc/passwd' }, dir)).rejects.toThrow('Path "/etc/passwd" is outside');
+    await expect(loadAssetSource({ path: 'link.json' }, dir)).rejects.toThrow('is outside');
+    await expect(loadAssetSource({ path: 'logo.png' })).rejects.toThrow('Uploading from a path is disabled');
+  });
+});
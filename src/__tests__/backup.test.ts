@@ -0,0 +1,202 @@
+/**
+ * Unit tests for NDJSON export and import
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportDataset, importDataset, prepareForImport } from '../backup';
+import { SanityClient } from '../sanity-client';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+function streamResponse(...chunks: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    body: (async function* () {
+      for (const chunk of chunks) yield encoder.encode(chunk);
+    })(),
+  };
+}
+
+function mutations(callIndex: number) {
+  return JSON.parse(mockFetch.mock.calls[callIndex][1].body).mutations;
+}
+
+describe('exportDataset', () => {
+  const client = new SanityClient({ projectId: 'proj', dataset: 'production', token: 'token' });
+
+  beforeEach(() => mockFetch.mockReset());
+
+  it('should stream documents to an NDJSON file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    // A line split across chunks must still parse
+    mockFetch.mockResolvedValueOnce(
+      streamResponse('{"_id":"post-1","_type":"post"}\n{"_id":"drafts.po', 'st-1","_type":"post"}\n{"_id":"a-1","_type":"author"}')
+    );
+
+    const result = await exportDataset(client, { output: join(dir, 'backup.ndjson'), types: ['post', 'author'], drafts: false });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://proj.api.sanity.io/v2024-01-20/data/export/production?types=post%2Cauthor');
+    expect(result).toEqual({ file: join(dir, 'backup.ndjson'), documents: 2, assets: 0 });
+    expect(readFileSync(join(dir, 'backup.ndjson'), 'utf8')).toBe(
+      '{"_id":"post-1","_type":"post"}\n{"_id":"a-1","_type":"author"}\n'
+    );
+  });
+
+  it('should download referenced assets and write a manifest', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    mockFetch
+      .mockResolvedValueOnce(
+        streamResponse('{"_id":"post-1","_type":"post","image":{"asset":{"_ref":"image-abc-1x1-png"}}}\n')
+      )
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          result: [
+            {
+              _id: 'image-abc-1x1-png',
+              _type: 'sanity.imageAsset',
+              url: 'https://cdn.sanity.io/images/proj/production/abc-1x1.png',
+              originalFilename: 'cat.png',
+              mimeType: 'image/png',
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({ ok: true, arrayBuffer: async () => new TextEncoder().encode('png').buffer });
+
+    const result = await exportDataset(client, { output: join(dir, 'export'), types: ['post'], assets: true });
+
+    expect(result).toMatchObject({ documents: 1, assets: 1 });
+    expect(readFileSync(join(dir, 'export', 'images', 'abc-1x1.png'), 'utf8')).toBe('png');
+    expect(JSON.parse(readFileSync(join(dir, 'export', 'assets.json'), 'utf8'))).toEqual({
+      'image-abc-1x1-png': { path: 'images/abc-1x1.png', originalFilename: 'cat.png', mimeType: 'image/png' },
+    });
+  });
+
+  it('should fail on errors reported mid-stream', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    mockFetch.mockResolvedValueOnce(streamResponse('{"error":"Timeout"}\n'));
+
+    await expect(exportDataset(client, { output: join(dir, 'x.ndjson') })).rejects.toThrow(
+      'Sanity export failed: Timeout'
+    );
+  });
+});
+
+describe('importDataset', () => {
+  const client = new SanityClient({ projectId: 'proj', dataset: 'staging', token: 'token' });
+  const ok = { ok: true, json: async () => ({ transactionId: 'tx', results: [] }) };
+
+  beforeEach(() => mockFetch.mockReset());
+
+  it('should write documents in chunks and restore strong references', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    const file = join(dir, 'data.ndjson');
+    writeFileSync(
+      file,
+      [
+        '{"_id":"post-1","_type":"post","author":{"_type":"reference","_ref":"a-1"}}',
+        '{"_id":"image-x","_type":"sanity.imageAsset"}',
+        '{"_id":"a-1","_type":"author"}',
+        '{"_id":"a-2","_type":"author"}',
+      ].join('\n')
+    );
+    mockFetch.mockResolvedValue(ok);
+
+    const result = await importDataset(client, { input: file, mode: 'createIfNotExists', batchSize: 2 });
+
+    expect(result).toEqual({
+      documents: 3,
+      batches: 2,
+      assetsUploaded: 0,
+      assetDocumentsSkipped: 1,
+      referencesRestored: 1,
+    });
+    expect(mutations(0)).toEqual([
+      {
+        createIfNotExists: {
+          _id: 'post-1',
+          _type: 'post',
+          author: { _type: 'reference', _ref: 'a-1', _weak: true },
+        },
+      },
+      { createIfNotExists: { _id: 'a-1', _type: 'author' } },
+    ]);
+    expect(mutations(2)).toEqual([{ patch: { id: 'post-1', unset: ['author._weak'] } }]);
+  });
+
+  it('should re-upload assets and remap references', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    mkdirSync(join(dir, 'files'));
+    writeFileSync(join(dir, 'files', 'abc.pdf'), '%PDF');
+    writeFileSync(
+      join(dir, 'assets.json'),
+      JSON.stringify({ 'file-old-pdf': { path: 'files/abc.pdf', originalFilename: 'r.pdf', mimeType: 'application/pdf' } })
+    );
+    writeFileSync(
+      join(dir, 'data.ndjson'),
+      '{"_id":"doc-1","_type":"doc","file":{"_type":"file","asset":{"_ref":"file-old-pdf"}}}\n'
+    );
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ document: { _id: 'file-new-pdf' } }) })
+      .mockResolvedValueOnce(ok);
+
+    const result = await importDataset(client, { input: dir });
+
+    expect(mockFetch.mock.calls[0][0]).toContain('/assets/files/staging?filename=r.pdf');
+    expect(result.assetsUploaded).toBe(1);
+    expect(mutations(1)).toEqual([
+      { createOrReplace: { _id: 'doc-1', _type: 'doc', file: { _type: 'file', asset: { _ref: 'file-new-pdf' } } } },
+    ]);
+  });
+
+  it('should refuse asset paths outside the export folder', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    writeFileSync(join(dir, 'assets.json'), JSON.stringify({ 'file-x-txt': { path: '../../etc/passwd' } }));
+    writeFileSync(join(dir, 'data.ndjson'), '{"_id":"a","_type":"t"}\n');
+
+    await expect(importDataset(client, { input: dir })).rejects.toThrow(
+      'Asset path "../../etc/passwd" in assets.json is outside the export folder'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should report which batch failed', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    const file = join(dir, 'data.ndjson');
+    writeFileSync(file, '{"_id":"a","_type":"t"}\n{"_id":"b","_type":"t"}\n');
+    mockFetch
+      .mockResolvedValueOnce(ok)
+      .mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'Document already exists' });
+
+    await expect(importDataset(client, { input: file, mode: 'create', batchSize: 1 })).rejects.toThrow(
+      'Import failed in batch 2 (after 1 documents): Sanity mutation failed: 409 - Document already exists'
+    );
+  });
+});
+
+describe('prepareForImport', () => {
+  it('should leave weak references alone and key array paths', () => {
+    const { document, paths } = prepareForImport(
+      {
+        _id: 'p',
+        _type: 'post',
+        tags: [
+          { _key: 'k1', _ref: 't-1' },
+          { _key: 'k2', _ref: 't-2', _weak: true },
+        ],
+      },
+      new Map()
+    );
+
+    expect(paths).toEqual(['tags[_key=="k1"]._weak']);
+    expect(document.tags).toEqual([
+      { _key: 'k1', _ref: 't-1', _weak: true },
+      { _key: 'k2', _ref: 't-2', _weak: true },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the command line interface
+ */
+
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClientPool } from '../config';
+import { isCliCommand, parseArgs, runCli } from '../cli';
+import { ScheduleStore } from '../scheduler';
+
+describe('parseArgs', () => {
+  it('should separate positional arguments and flags', () => {
+    const { positional, flags } = parseArgs(['out', '--types', 'post,author', '--assets', 'extra', '--mode=create']);
+
+    expect(positional).toEqual(['out', 'extra']);
+    expect(Object.fromEntries(flags)).toEqual({ types: 'post,author', assets: true, mode: 'create' });
+  });
+});
+
+describe('isCliCommand', () => {
+  it('should only claim known commands', () => {
+    expect(isCliCommand('export')).toBe(true);
+    expect(isCliCommand('import')).toBe(true);
+    expect(isCliCommand('run-due')).toBe(true);
+    expect(isCliCommand('--http')).toBe(false);
+    expect(isCliCommand(undefined)).toBe(false);
+  });
+});
+
+describe('runCli', () => {
+  const pool = new ClientPool({ defaultProfile: 'a', profiles: { a: { projectId: 'p', dataset: 'd' } } });
+
+  it('should print usage when the path is missing', async () => {
+    const log = jest.fn();
+
+    expect(await runCli(['export'], pool, log)).toBe(1);
+    expect(log.mock.calls[0][0]).toContain('Usage:');
+  });
+
+  it('should reject invalid import modes', async () => {
+    const log = jest.fn();
+
+    expect(await runCli(['import', 'data.ndjson', '--mode', 'upsert'], pool, log)).toBe(1);
+    expect(log).toHaveBeenCalledWith(
+      'Error: Invalid import mode "upsert". Use createOrReplace, createIfNotExists, create'
+    );
+  });
+
+  it('should report due jobs with run-due', async () => {
+    const log = jest.fn();
+    const store = new ScheduleStore(join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'schedule.json'));
+
+    expect(await runCli(['run-due'], pool, log, store, {})).toBe(0);
+    expect(log).toHaveBeenCalledWith('Ran 0 due job(s)');
+  });
+
+  it('should not run due jobs in read-only mode', async () => {
+    const log = jest.fn();
+    const store = new ScheduleStore(join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'schedule.json'));
+
+    expect(await runCli(['run-due'], pool, log, store, { readOnly: true })).toBe(1);
+    expect(log).toHaveBeenCalledWith(
+      'Error: sanity_publish and sanity_unpublish are disabled by the config; no jobs were run'
+    );
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for server configuration and the client pool
+ */
+
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClientPool, loadConfig, parseConfig, redactToken, ServerConfig } from '../config';
+import { SanityClient } from '../sanity-client';
+
+describe('loadConfig', () => {
+  it('should build a default profile from environment variables without a config file', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    const config = loadConfig(
+      { SANITY_PROJECT_ID: 'env-project', SANITY_DATASET: 'staging', SANITY_TOKEN: 'sk-env' },
+      cwd
+    );
+
+    expect(config.defaultProfile).toBe('default');
+    expect(config.profiles.default).toEqual({
+      projectId: 'env-project',
+      dataset: 'staging',
+      apiVersion: '2024-01-20',
+      token: 'sk-env',
+      useCdn: false,
+    });
+  });
+
+  it('should read profiles from sanity-mcp.config.json in the working directory', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    writeFileSync(
+      join(cwd, 'sanity-mcp.config.json'),
+      JSON.stringify({
+        defaultProfile: 'staging',
+        profiles: {
+          production: { projectId: 'abc', dataset: 'production', tokenEnv: 'PROD_TOKEN' },
+          staging: { projectId: 'abc', dataset: 'staging' },
+        },
+      })
+    );
+
+    const config = loadConfig({ PROD_TOKEN: 'sk-prod' }, cwd);
+
+    expect(config.defaultProfile).toBe('staging');
+    expect(config.profiles.production.token).toBe('sk-prod');
+    expect(config.profiles.staging.useCdn).toBe(true);
+  });
+
+  it('should throw when SANITY_MCP_CONFIG points to a missing file', () => {
+    const cwd = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+
+    expect(() => loadConfig({ SANITY_MCP_CONFIG: 'missing.json' }, cwd)).toThrow(
+      'Config file not found'
+    );
+  });
+});
+
+describe('parseConfig', () => {
+  it('should default to the first profile', () => {
+    const config = parseConfig({ profiles: { first: { projectId: 'a' }, second: { projectId: 'b' } } });
+
+    expect(config.defaultProfile).toBe('first');
+    expect(config.profiles.first.dataset).toBe('production');
+  });
+
+  it('should reject profiles without a projectId', () => {
+    expect(() => parseConfig({ profiles: { broken: {} } })).toThrow(
+      'Profile "broken" is missing projectId'
+    );
+  });
+
+  it('should reject an undefined default profile', () => {
+    expect(() =>
+      parseConfig({ defaultProfile: 'nope', profiles: { a: { projectId: 'a' } } })
+    ).toThrow('Default profile "nope" is not defined');
+  });
+
+  it('should read tool access settings from the file', () => {
+    const config = parseConfig(
+      { profiles: { a: { projectId: 'a' } }, readOnly: true, tools: { deny: ['sanity_history'] } },
+      {}
+    );
+
+    expect(config.access).toEqual({ readOnly: true, allow: [], deny: ['sanity_history'] });
+  });
+
+  it('should let environment variables override tool access settings', () => {
+    const config = parseConfig(
+      { profiles: { a: { projectId: 'a' } }, readOnly: true, tools: { allow: ['sanity_query'] } },
+      { SANITY_READ_ONLY: 'false', SANITY_TOOLS_ALLOW: 'sanity_get_*, sanity_search', SANITY_TOOLS_DENY: '' }
+    );
+
+    expect(config.access).toEqual({
+      readOnly: false,
+      allow: ['sanity_get_*', 'sanity_search'],
+      deny: [],
+    });
+  });
+
+  it('should read draft-first mode from the file and let the environment override it', () => {
+    const raw = { profiles: { a: { projectId: 'a' } }, draftFirst: true };
+
+    expect(parseConfig(raw, {}).draftFirst).toBe(true);
+    expect(parseConfig(raw, { SANITY_DRAFT_FIRST: 'no' }).draftFirst).toBe(false);
+    expect(parseConfig({ profiles: { a: { projectId: 'a' } } }, {}).draftFirst).toBe(false);
+  });
+
+  it('should resolve the schedule file and interval', () => {
+    const config = parseConfig(
+      { profiles: { a: { projectId: 'a' } }, schedule: { file: 'jobs.json', interval: 30 } },
+      { SANITY_SCHEDULE_INTERVAL: '60' },
+      '/etc/sanity'
+    );
+
+    expect(config.schedule).toEqual({ file: '/etc/sanity/jobs.json', interval: 60 });
+    expect(() => parseConfig({ profiles: { a: { projectId: 'a' } } }, { SANITY_SCHEDULE_INTERVAL: 'soon' })).toThrow(
+      'Invalid schedule interval "soon"'
+    );
+  });
+
+  it('should resolve the upload directory only when configured', () => {
+    const raw = { profiles: { a: { projectId: 'a' } } };
+
+    expect(parseConfig(raw, {}, '/srv').uploadDir).toBeUndefined();
+    expect(parseConfig({ ...raw, uploadDir: 'uploads' }, {}, '/srv').uploadDir).toBe('/srv/uploads');
+    expect(parseConfig(raw, { SANITY_UPLOAD_DIR: '/data/in' }, '/srv').uploadDir).toBe('/data/in');
+  });
+
+  it('should read the image host allowlist only when configured', () => {
+    const raw = { profiles: { a: { projectId: 'a' } } };
+
+    expect(parseConfig(raw, {}, '/srv').imageHosts).toBeUndefined();
+    expect(parseConfig({ ...raw, imageHosts: ['cdn.example.com'] }, {}, '/srv').imageHosts).toEqual(['cdn.example.com']);
+    expect(parseConfig(raw, { SANITY_IMAGE_HOSTS: 'a.com, *.b.com' }, '/srv').imageHosts).toEqual(['a.com', '*.b.com']);
+  });
+
+  it('should check per-type search fields', () => {
+    const raw = { profiles: { a: { projectId: 'a' } } };
+
+    expect(parseConfig(raw, {}).search).toEqual({ inferFields: true });
+    expect(
+      parseConfig({ ...raw, search: { types: { product: { fields: { name: 3, sku: 2 } } }, inferFields: false } }, {})
+        .search
+    ).toEqual({ types: { product: { fields: { name: 3, sku: 2 } } }, inferFields: false });
+    expect(() => parseConfig({ ...raw, search: { types: { product: { fields: { 'name[0]': 1 } } } } }, {})).toThrow(
+      'Invalid search field "name[0]"'
+    );
+  });
+
+  it('should resolve the semantic index directory and reject unknown embedders', () => {
+    const config = parseConfig({ profiles: { a: { projectId: 'a' } } }, {}, '/etc/sanity');
+
+    expect(config.semanticSearch).toEqual({ directory: '/etc/sanity/.sanity-mcp/index' });
+    expect(() =>
+      parseConfig(
+        { profiles: { a: { projectId: 'a' } }, semanticSearch: { embedder: { provider: 'bert' as 'hashing' } } },
+        {}
+      )
+    ).toThrow('Invalid embedder provider "bert"');
+  });
+
+  it('should default validation to off', () => {
+    const config = parseConfig({ profiles: { a: { projectId: 'a' } } }, {}, '/nonexistent');
+
+    expect(config.validation).toEqual({ mode: 'off' });
+  });
+
+  it('should resolve the schema file relative to the config directory', () => {
+    const config = parseConfig(
+      { profiles: { a: { projectId: 'a' } }, validation: { mode: 'warn', schemaFile: 'studio/schema.json' } },
+      { SANITY_VALIDATION: 'block' },
+      '/etc/sanity-mcp'
+    );
+
+    expect(config.validation).toEqual({ mode: 'block', schemaFile: '/etc/sanity-mcp/studio/schema.json' });
+  });
+
+  it('should pick up schema.json next to the config file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sanity-mcp-'));
+    writeFileSync(join(dir, 'schema.json'), '[]');
+
+    const config = parseConfig({ profiles: { a: { projectId: 'a' } } }, {}, dir);
+
+    expect(config.validation?.schemaFile).toBe(join(dir, 'schema.json'));
+  });
+
+  it('should reject an invalid validation mode', () => {
+    expect(() => parseConfig({ profiles: { a: { projectId: 'a' } } }, { SANITY_VALIDATION: 'strict' })).toThrow(
+      'Invalid validation mode "strict"'
+    );
+  });
+
+  it('should reject an empty profile list', () => {
+    expect(() => parseConfig({ profiles: {} })).toThrow('at least one profile');
+  });
+});
+
+describe('ClientPool', () => {
+  const config: ServerConfig = {
+    defaultProfile: 'production',
+    profiles: {
+      production: {
+        projectId: 'abc',
+        dataset: 'production',
+        token: 'sk-production-token-1234',
+        datasets: ['production', 'archive'],
+      },
+      staging: { projectId: 'def', dataset: 'staging' },
+    },
+  };
+
+  it('should return the default profile client when no target is given', () => {
+    const pool = new ClientPool(config);
+
+    expect(pool.getClient()).toBeInstanceOf(SanityClient);
+    expect(pool.resolveTarget().config.dataset).toBe('production');
+  });
+
+  it('should cache clients per profile and dataset', () => {
+    const pool = new ClientPool(config);
+
+    expect(pool.getClient({ profile: 'staging' })).toBe(pool.getClient({ profile: 'staging' }));
+    expect(pool.getClient({ dataset: 'archive' })).not.toBe(pool.getClient());
+  });
+
+  it('should reject unknown profiles', () => {
+    const pool = new ClientPool(config);
+
+    expect(() => pool.getClient({ profile: 'missing' })).toThrow(
+      'Unknown profile "missing". Available profiles: production, staging'
+    );
+  });
+
+  it('should enforce the dataset allowlist', () => {
+    const pool = new ClientPool(config);
+
+    expect(() => pool.getClient({ dataset: 'secret' })).toThrow(
+      'Dataset "secret" is not allowed for profile "production"'
+    );
+  });
+
+  it('should allow any dataset when no allowlist is configured', () => {
+    const pool = new ClientPool(config);
+
+    expect(pool.resolveTarget({ profile: 'staging', dataset: 'other' }).config.dataset).toBe('other');
+  });
+
+  it('should list profiles with redacted tokens', () => {
+    const pool = new ClientPool(config);
+    const profiles = pool.listProfiles();
+
+    expect(profiles).toHaveLength(2);
+    expect(profiles[0]).toMatchObject({ name: 'production', default: true, token: '****1234' });
+    expect(profiles[1]).toMatchObject({ name: 'staging', default: false, token: null, useCdn: true });
+    expect(JSON.stringify(profiles)).not.toContain('sk-production-token');
+  });
+});
+
+describe('redactToken', () => {
+  it('should fully mask short tokens', () => {
+    expect(redactToken('short')).toBe('****');
+    expect(redactToken(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for path-level document diffing
+ */
+
+import {
+  diffDocuments,
+  diffText,
+  formatUnified,
+  isEqual,
+  selectChanges,
+  toJsonPatch,
+  toSanityPatches,
+} from '../document-diff';
+
+function applyJsonPatch(doc: unknown, patch: ReturnType<typeof toJsonPatch>): unknown {
+  const root: Record<string, unknown> = { doc: JSON.parse(JSON.stringify(doc)) };
+  for (const operation of patch) {
+    const parts = operation.path.split('/').slice(1).map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'));
+    let parent: Record<string, unknown> = root;
+    let key = 'doc';
+    for (const part of parts) {
+      parent = parent[key] as Record<string, unknown>;
+      key = part;
+    }
+    if (Array.isArray(parent)) {
+      const index = Number(key);
+      if (operation.op === 'remove') parent.splice(index, 1);
+      else if (operation.op === 'add') parent.splice(index, 0, operation.value);
+      else parent[index] = operation.value;
+    } else if (operation.op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = operation.value;
+    }
+  }
+  return root.doc;
+}
+
+const block = (key: string, text: string, spanKey = `${key}s`) => ({
+  _type: 'block',
+  _key: key,
+  style: 'normal',
+  markDefs: [],
+  children: [{ _type: 'span', _key: spanKey, text, marks: [] }],
+});
+
+describe('diffDocuments', () => {
+  const published = {
+    _id: 'post-1',
+    _rev: 'r1',
+    _type: 'post',
+    title: 'Hello',
+    tags: ['a', 'b', 'c'],
+    seo: { description: 'Old' },
+    body: [block('b1', 'The quick brown fox'), block('b2', 'Second'), block('b3', 'Third')],
+  };
+  const draft = {
+    _id: 'drafts.post-1',
+    _rev: 'r2',
+    _type: 'post',
+    title: 'Hello',
+    tags: ['a', 'c'],
+    seo: { description: 'Old', keywords: ['x'] },
+    body: [block('b1', 'The quick red fox'), block('b3', 'Third'), block('b4', 'Fourth')],
+  };
+
+  it('reports nested paths and matches array items by _key', () => {
+    const changes = diffDocuments(published, draft);
+    expect(changes.map((change) => [change.op, change.path])).toEqual([
+      ['replace', 'tags[1]'],
+      ['remove', 'tags[2]'],
+      ['add', 'seo.keywords'],
+      ['remove', 'body[_key=="b2"]'],
+      ['add', 'body[_key=="b4"]'],
+      ['replace', 'body[_key=="b1"].children[_key=="b1s"].text'],
+    ]);
+  });
+
+  it('includes a word-level diff for changed span text', () => {
+    const change = diffDocuments(published, draft).find((c) => c.path.endsWith('.text'));
+    expect(change?.text).toEqual([
+      { op: 'equal', text: 'The quick ' },
+      { op: 'delete', text: 'brown' },
+      { op: 'insert', text: 'red' },
+      { op: 'equal', text: ' fox' },
+    ]);
+  });
+
+  it('skips system fields unless asked not to', () => {
+    expect(diffDocuments(published, draft).some((c) => c.path === '_rev')).toBe(false);
+    const paths = diffDocuments(published, draft, { ignoreSystemFields: false }).map((c) => c.path);
+    expect(paths).toEqual(expect.arrayContaining(['_id', '_rev']));
+  });
+
+  it('reports reordered keyed arrays as a single replace', () => {
+    const changes = diffDocuments(
+      { body: [block('b1', 'One'), block('b2', 'Two')] },
+      { body: [block('b2', 'Two'), block('b1', 'One')] }
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ op: 'replace', path: 'body', pointer: '/body' });
+  });
+
+  it('quotes field names that are not identifiers', () => {
+    const changes = diffDocuments({ 'en-US': 'a/b' }, { 'en-US': 'a/c' });
+    expect(changes[0]).toMatchObject({ path: '["en-US"]', pointer: '/en-US' });
+  });
+
+  it('produces a JSON Patch that turns A into B', () => {
+    const patch = toJsonPatch(diffDocuments(published, draft, { ignoreSystemFields: false }));
+    expect(isEqual(applyJsonPatch(published, patch), draft)).toBe(true);
+    expect(patch).toContainEqual({ op: 'remove', path: '/body/1' });
+  });
+});
+
+describe('toSanityPatches', () => {
+  it('sets and unsets in one patch, then inserts new array items in runs', () => {
+    const before = { title: 'A', seo: { description: 'x' }, body: [block('b1', 'One'), block('b2', 'Two')] };
+    const after = {
+      title: 'B',
+      body: [block('b0', 'Zero'), block('b1', 'One'), block('b3', 'Three'), block('b4', 'Four')],
+    };
+
+    const patches = toSanityPatches(diffDocuments(before, after));
+
+    expect(patches).toEqual([
+      { set: { title: 'B' }, unset: ['seo', 'body[_key=="b2"]'] },
+      { insert: { before: 'body[0]', items: [block('b0', 'Zero')] } },
+      { insert: { after: 'body[_key=="b1"]', items: [block('b3', 'Three'), block('b4', 'Four')] } },
+    ]);
+  });
+
+  it('appends to arrays without keys', () => {
+    expect(toSanityPatches(diffDocuments({ tags: ['a'] }, { tags: ['a', 'b', 'c'] }))).toEqual([
+      { insert: { after: 'tags[0]', items: ['b', 'c'] } },
+    ]);
+  });
+});
+
+describe('selectChanges', () => {
+  it('keeps changes at or below the selected paths and reports unmatched ones', () => {
+    const changes = diffDocuments(
+      { title: 'A', titles: 'x', body: [block('b1', 'One')] },
+      { title: 'B', titles: 'y', body: [block('b1', 'Uno')] }
+    );
+    const selected = selectChanges(changes, ['title', 'body[_key=="b1"]', 'slug']);
+    expect(selected.changes.map((change) => change.path)).toEqual([
+      'title',
+      'body[_key=="b1"].children[_key=="b1s"].text',
+    ]);
+    expect(selected.unmatched).toEqual(['slug']);
+  });
+});
+
+describe('diffText', () => {
+  it('returns undefined for very long strings', () => {
+    const long = 'word '.repeat(1000);
+    expect(diffText(long, `${long}!`)).toBeUndefined();
+  });
+});
+
+describe('formatUnified', () => {
+  it('renders strings as text and Portable Text as Markdown', () => {
+    const output = formatUnified(
+      diffDocuments(
+        { title: 'Old', body: [block('b1', 'Kept')] },
+        { title: 'New', body: [block('b1', 'Kept'), block('b2', 'Added paragraph')] }
+      ),
+      { a: 'post-1', b: 'drafts.post-1' }
+    );
+    expect(output).toBe(
+      [
+        '--- post-1',
+        '+++ drafts.post-1',
+        '@@ title @@',
+        '- Old',
+        '+ New',
+        '@@ body[_key=="b2"] @@',
+        '+ Added paragraph',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for text embeddings
+ */
+
+import { createEmbedder, dot, HashingEmbedder, OpenAIEmbedder, stem, tokenize } from '../embeddings';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('tokenize and stem', () => {
+  it('should split words, drop accents and strip inflections', () => {
+    expect(tokenize('Café-Öffnungszeiten, 2024!')).toEqual(['cafe', 'offnungszeiten', '2024']);
+    expect(['publishing', 'published', 'publishes', 'stories'].map(stem)).toEqual([
+      'publish',
+      'publish',
+      'publish',
+      'story',
+    ]);
+  });
+});
+
+describe('HashingEmbedder', () => {
+  it('should place texts with shared vocabulary closer together', async () => {
+    const embedder = new HashingEmbedder();
+    const [query, related, unrelated] = await embedder.embed([
+      'vegan baking recipes',
+      'Our favourite recipe for baked vegan brownies',
+      'Quarterly earnings call for investors',
+    ]);
+
+    expect(query).toHaveLength(512);
+    expect(dot(query, query)).toBeCloseTo(1);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated) + 0.2);
+  });
+
+  it('should be deterministic', async () => {
+    const embedder = new HashingEmbedder(64);
+    const [a] = await embedder.embed(['same text']);
+    const [b] = await new HashingEmbedder(64).embed(['same text']);
+
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(embedder.id).toBe('hashing-v1-64');
+  });
+});
+
+describe('OpenAIEmbedder', () => {
+  beforeEach(() => mockFetch.mockReset());
+
+  it('should request embeddings and keep the input order', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 2] },
+          { index: 0, embedding: [3, 0] },
+        ],
+      }),
+    });
+
+    const vectors = await new OpenAIEmbedder('text-embedding-3-small', 'key').embed(['a', 'b']);
+
+    expect(Array.from(vectors[0])).toEqual([1, 0]);
+    expect(Array.from(vectors[1])).toEqual([0, 1]);
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer key');
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+  });
+});
+
+describe('createEmbedder', () => {
+  it('should default to the hashing embedder and read API keys from the environment', () => {
+    expect(createEmbedder()).toBeInstanceOf(HashingEmbedder);
+    expect(createEmbedder({ provider: 'openai', model: 'm', apiKeyEnv: 'EMBED_KEY' }, { EMBED_KEY: 'k' }).id).toBe(
+      'openai-m'
+    );
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for HTML → Portable Text conversion
+ */
+
+import { decodeEntities, htmlToPortableText, imageToLinkBlock, parseHtml } from '../html-to-portable-text';
+import { PortableTextBlock } from '../portable-text';
+
+function sequentialKeys() {
+  let n = 0;
+  return () => `k${n++}`;
+}
+
+function convert(html: string, options = {}) {
+  return htmlToPortableText(html, { keyGenerator: sequentialKeys(), ...options });
+}
+
+function texts(blocks: unknown[]) {
+  return (blocks as PortableTextBlock[]).map((b) => b.children.map((c) => c.text).join(''));
+}
+
+describe('parseHtml', () => {
+  it('should build an element tree and auto-close paragraphs and list items', () => {
+    const nodes = parseHtml('<p class="a">One<p>Two<ul><li>a<li>b</ul>');
+
+    expect(nodes).toEqual([
+      { tag: 'p', attributes: { class: 'a' }, children: ['One'] },
+      {
+        tag: 'p',
+        attributes: {},
+        children: [
+          'Two',
+          {
+            tag: 'ul',
+            attributes: {},
+            children: [
+              { tag: 'li', attributes: {}, children: ['a'] },
+              { tag: 'li', attributes: {}, children: ['b'] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should skip comments and keep script content raw', () => {
+    const nodes = parseHtml('<!-- note --><script>if (a < b) {}</script>x');
+
+    expect(nodes).toEqual([{ tag: 'script', attributes: {}, children: ['if (a < b) {}'] }, 'x']);
+  });
+
+  it('should decode entities', () => {
+    expect(decodeEntities('a &amp; b &lt;3 &#8212; &#x2019; &bogus;')).toBe('a & b <3 — ’ &bogus;');
+  });
+});
+
+describe('htmlToPortableText', () => {
+  it('should convert block styles and collapse whitespace', () => {
+    const { blocks } = convert(`
+      <h1>Title</h1>
+      <p>
+        Some   text
+        here
+      </p>
+      <blockquote><p>Quoted</p></blockquote>
+    `);
+
+    expect((blocks as PortableTextBlock[]).map((b) => b.style)).toEqual(['h1', 'normal', 'blockquote']);
+    expect(texts(blocks)).toEqual(['Title', 'Some text here', 'Quoted']);
+  });
+
+  it('should convert decorators and links', () => {
+    const { blocks } = convert('<p>A <b>bold <i>and em</i></b> <a href="/x">link</a>.</p>', {
+      baseUrl: 'https://example.com/posts/1',
+    });
+    const [block] = blocks as PortableTextBlock[];
+
+    expect(block.markDefs).toEqual([{ _type: 'link', _key: expect.any(String), href: 'https://example.com/x' }]);
+    expect(block.children.map((c) => [c.text, c.marks])).toEqual([
+      ['A ', []],
+      ['bold ', ['strong']],
+      ['and em', ['strong', 'em']],
+      [' ', []],
+      ['link', [block.markDefs[0]._key]],
+      ['.', []],
+    ]);
+  });
+
+  it('should keep only http(s), mailto, tel and relative links', () => {
+    const { blocks } = convert(
+      '<p><a href="javascript:alert(1)">a</a> <a href=" java\tscript:x">b</a> <a href="data:text/html,x">c</a> ' +
+        '<a href="mailto:a@example.com">d</a> <a href="tel:+123">e</a> <a href="HTTPS://example.com">f</a> ' +
+        '<a href="x/y:z">g</a></p>'
+    );
+    const [block] = blocks as PortableTextBlock[];
+
+    expect(block.markDefs.map((m) => m.href)).toEqual([
+      'mailto:a@example.com',
+      'tel:+123',
+      'HTTPS://example.com',
+      'x/y:z',
+    ]);
+    expect(texts(blocks)).toEqual(['a b c d e f g']);
+  });
+
+  it('should apply custom style and decorator mappings', () => {
+    const { blocks } = convert('<h1>Title</h1><aside>Note <mark>this</mark></aside>', {
+      styles: { h1: 'h2', aside: 'blockquote' },
+      decorators: { mark: 'highlight' },
+    });
+    const [heading, aside] = blocks as PortableTextBlock[];
+
+    expect(heading.style).toBe('h2');
+    expect(aside.style).toBe('blockquote');
+    expect(aside.children[1].marks).toEqual(['highlight']);
+  });
+
+  it('should convert nested lists', () => {
+    const { blocks } = convert('<ul><li>One<ol><li>Nested</li></ol></li><li><p>Two</p></li></ul>');
+
+    expect((blocks as PortableTextBlock[]).map((b) => [texts([b])[0], b.listItem, b.level])).toEqual([
+      ['One', 'bullet', 1],
+      ['Nested', 'number', 2],
+      ['Two', 'bullet', 1],
+    ]);
+  });
+
+  it('should convert pre blocks to code blocks', () => {
+    const { blocks } = convert('<pre><code class="language-js">const a = 1;\n  a &lt; 2;\n</code></pre>');
+
+    expect(blocks).toEqual([{ _type: 'code', _key: 'k0', code: 'const a = 1;\n  a < 2;', language: 'js' }]);
+  });
+
+  it('should keep line breaks and drop ignored elements', () => {
+    const { blocks } = convert('<p>Line one<br>Line two</p><script>alert(1)</script><style>p{}</style>', {
+      ignore: ['nav'],
+    });
+
+    expect(texts(blocks)).toEqual(['Line one\nLine two']);
+  });
+
+  it('should extract images and split the surrounding paragraph', () => {
+    const { blocks, images } = convert(
+      '<p>Before <img src="/a.png" alt="A"> after</p>' +
+        '<figure><img src="https://cdn.sanity.io/images/p/d/abc-10x10.png"><figcaption>Cap</figcaption></figure>',
+      { baseUrl: 'https://example.com' }
+    );
+
+    expect(blocks.map((b) => b._type)).toEqual(['block', 'image', 'block', 'image']);
+    expect(texts([blocks[0], blocks[2]])).toEqual(['Before', 'after']);
+    expect(blocks[1]).toEqual({ _type: 'image', _key: blocks[1]._key, alt: 'A' });
+    expect(blocks[3]).toMatchObject({
+      asset: { _type: 'reference', _ref: 'image-abc-10x10-png' },
+      caption: 'Cap',
+    });
+    expect(images).toEqual([{ key: blocks[1]._key, src: 'https://example.com/a.png', alt: 'A' }]);
+  });
+});
+
+describe('imageToLinkBlock', () => {
+  it('should turn a pending image into a link', () => {
+    const block = imageToLinkBlock({ key: 'img', src: 'https://example.com/a.png', alt: 'A' }, sequentialKeys());
+
+    expect(block).toEqual({
+      _type: 'block',
+      _key: 'img',
+      style: 'normal',
+      markDefs: [{ _type: 'link', _key: 'k0', href: 'https://example.com/a.png' }],
+      children: [{ _type: 'span', _key: 'k1', text: 'A', marks: ['k0'] }],
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the HTTP transport
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { resolveTransportConfig, startHttpServer, HttpServerHandle } from '../http-server';
+
+describe('resolveTransportConfig', () => {
+  it('should default to stdio', () => {
+    const config = resolveTransportConfig([], {});
+
+    expect(config.mode).toBe('stdio');
+    expect(config.http).toEqual({ host: '127.0.0.1', port: 3000, authToken: undefined });
+  });
+
+  it('should read HTTP settings from environment variables', () => {
+    const config = resolveTransportConfig([], {
+      MCP_TRANSPORT: 'http',
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '8080',
+      MCP_AUTH_TOKEN: 'secret',
+    });
+
+    expect(config.mode).toBe('http');
+    expect(config.http).toEqual({ host: '0.0.0.0', port: 8080, authToken: 'secret' });
+  });
+
+  it('should let CLI flags override environment variables', () => {
+    const config = resolveTransportConfig(['--http', '--port', '9000', '--host=localhost'], {
+      MCP_HTTP_PORT: '8080',
+    });
+
+    expect(config.mode).toBe('http');
+    expect(config.http.port).toBe(9000);
+    expect(config.http.host).toBe('localhost');
+  });
+
+  it('should accept an explicit --transport flag', () => {
+    const config = resolveTransportConfig(['--transport=stdio'], { MCP_TRANSPORT: 'http' });
+
+    expect(config.mode).toBe('stdio');
+  });
+
+  it('should reject an invalid port', () => {
+    expect(() => resolveTransportConfig(['--port', 'abc'], {})).toThrow('Invalid HTTP port: abc');
+  });
+
+  it('should read session limits from environment variables', () => {
+    const config = resolveTransportConfig([], { MCP_SESSION_TIMEOUT: '60', MCP_MAX_SESSIONS: '5' });
+
+    expect(config.http.sessionTimeoutMs).toBe(60_000);
+    expect(config.http.maxSessions).toBe(5);
+    expect(() => resolveTransportConfig([], { MCP_MAX_SESSIONS: '0' })).toThrow('Invalid MCP_MAX_SESSIONS: 0');
+  });
+});
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+  let servers: Server[];
+
+  const createMcpServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    servers.push(server);
+    return server;
+  };
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  const initialize = () =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer secret-token',
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+  beforeEach(async () => {
+    servers = [];
+    handle = await startHttpServer(createMcpServer, {
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'secret-token',
+      sessionTimeoutMs: 200,
+      maxSessions: 2,
+    });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should answer health checks without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret-token' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown session IDs', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer secret-token',
+        'mcp-session-id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should create a session on initialize', async () => {
+    const response = await initialize();
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it('should close the server when initialization fails', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret-token' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+
+    expect(response.status).toBe(406);
+    expect(handle.sessionCount()).toBe(0);
+    expect(servers[0].transport).toBeUndefined();
+  });
+
+  it('should refuse new sessions at the session limit', async () => {
+    await (await initialize()).text();
+    await (await initialize()).text();
+    const response = await initialize();
+
+    expect(response.status).toBe(503);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await (await initialize()).text();
+    expect(handle.sessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    expect(handle.sessionCount()).toBe(0);
+    expect(servers[0].transport).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for cursor pagination
+ */
+
+import {
+  decodeCursor,
+  encodeCursor,
+  fitToBudget,
+  keysetFilter,
+  orderClause,
+  parseOrder,
+  queryFingerprint,
+} from '../pagination';
+
+describe('parseOrder', () => {
+  it('should split sort keys and end with _id', () => {
+    const keys = parseOrder('_createdAt desc, coalesce(title, name) ASC');
+
+    expect(keys).toEqual([
+      { expression: '_createdAt', direction: 'desc' },
+      { expression: 'coalesce(title, name)', direction: 'asc' },
+      { expression: '_id', direction: 'asc' },
+    ]);
+    expect(orderClause(parseOrder('_id desc'))).toBe('_id desc');
+    expect(() => parseOrder('title asc,, _id')).toThrow('Invalid order "title asc,, _id"');
+  });
+});
+
+describe('keysetFilter', () => {
+  it('should continue after the last sort key values', () => {
+    const { filter, params } = keysetFilter(parseOrder('_createdAt desc'), ['2024-05-01T00:00:00Z', 'post-9']);
+
+    expect(filter).toBe('(_createdAt < $cursor0 || (_createdAt == $cursor0 && (_id > $cursor1)))');
+    expect(params).toEqual({ cursor0: '2024-05-01T00:00:00Z', cursor1: 'post-9' });
+  });
+
+  it('should place missing values last in ascending and first in descending order', () => {
+    expect(keysetFilter(parseOrder('title asc'), [null, 'post-9']).filter).toBe(
+      '((title == null && (_id > $cursor1)))'
+    );
+    expect(keysetFilter(parseOrder('title desc'), [null, 'post-9']).filter).toBe(
+      '(title != null || (title == null && (_id > $cursor1)))'
+    );
+  });
+});
+
+describe('cursors', () => {
+  it('should round-trip and reject anything else', () => {
+    const cursor = { kind: 'offset' as const, query: queryFingerprint('*', { a: 1 }), offset: 100 };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+    expect(queryFingerprint('*', { a: 1 })).not.toBe(queryFingerprint('*', { a: 2 }));
+  });
+});
+
+describe('fitToBudget', () => {
+  it('should keep the items that fit', () => {
+    const items = Array.from({ length: 10 }, (_, i) => ({ _id: `doc-${i}`, text: 'x'.repeat(100) }));
+
+    expect(fitToBudget(items)).toBe(10);
+    expect(fitToBudget(items, 500)).toBe(3);
+    expect(() => fitToBudget(items, 50)).toThrow('A single result is over 50 characters');
+  });
+});
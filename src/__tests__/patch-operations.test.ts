@@ -0,0 +1,75 @@
+/**
+ * Unit tests for patch operation checks
+ */
+
+import { insertArrayPath, isValidPath, patchProblems, pickPatchOperations } from '../patch-operations';
+
+describe('isValidPath', () => {
+  it('should accept JSONMatch paths', () => {
+    for (const path of ['title', 'seo.description', 'items[_key=="x"].title', 'tags[-1]', 'tags[2:4]', '["en-US"]']) {
+      expect(isValidPath(path)).toBe(true);
+    }
+  });
+
+  it('should reject malformed paths', () => {
+    for (const path of ['', 'a..b', 'a.[0]', 'tags[', 'has space', 42]) {
+      expect(isValidPath(path)).toBe(false);
+    }
+  });
+});
+
+describe('patchProblems', () => {
+  it('should accept every operation', () => {
+    expect(
+      patchProblems({
+        id: 'post-1',
+        ifRevision: 'r1',
+        set: { 'items[_key=="x"].title': 'New' },
+        setIfMissing: { tags: [] },
+        unset: ['subtitle'],
+        inc: { views: 1 },
+        dec: { stock: 2 },
+        insert: { after: 'tags[-1]', items: ['news'] },
+        diffMatchPatch: { body: '@@ -1,3 +1,3 @@\n-foo\n+bar\n' },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report unknown operations and malformed values', () => {
+    expect(
+      patchProblems({
+        sett: { title: 'x' },
+        inc: { views: '1' },
+        unset: 'title',
+        insert: { after: 'tags', before: 'tags[0]', items: [] },
+        diffMatchPatch: { body: 'bar' },
+      })
+    ).toEqual([
+      'Unknown patch key "sett". Use id, ifRevision, set, setIfMissing, unset, inc, dec, insert, diffMatchPatch',
+      'inc: views must be a number',
+      'diffMatchPatch: body must be a patch string starting with "@@"',
+      'unset must be an array of paths',
+      'insert needs exactly one of before, after or replace',
+      'insert.after must point at an array item, e.g. "tags[-1]"',
+      'insert.items must be a non-empty array',
+    ]);
+  });
+
+  it('should require at least one operation', () => {
+    expect(patchProblems({ id: 'post-1' })).toEqual(['Patch has no operations']);
+  });
+});
+
+describe('pickPatchOperations', () => {
+  it('should keep only patch operations', () => {
+    expect(pickPatchOperations({ id: 'post-1', profile: 'prod', set: { a: 1 }, unset: undefined })).toEqual({
+      set: { a: 1 },
+    });
+  });
+});
+
+describe('insertArrayPath', () => {
+  it('should strip the item selector', () => {
+    expect(insertArrayPath({ after: 'body[_key=="a"].children[-1]', items: [] })).toBe('body[_key=="a"].children');
+  });
+});
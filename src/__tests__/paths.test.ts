@@ -0,0 +1,28 @@
+/**
+ * Unit tests for path confinement
+ */
+
+import { mkdirSync, mkdtempSync, realpathSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resolveInside } from '../paths';
+
+describe('resolveInside', () => {
+  const root = realpathSync(mkdtempSync(join(tmpdir(), 'sanity-mcp-')));
+  mkdirSync(join(root, 'backups'));
+  symlinkSync(tmpdir(), join(root, 'backups', 'out'));
+
+  it('should resolve paths that do not exist yet', async () => {
+    await expect(resolveInside(join(root, 'backups'), 'nightly/data.ndjson')).resolves.toBe(
+      join(root, 'backups', 'nightly', 'data.ndjson')
+    );
+  });
+
+  it('should refuse .., absolute and symlinked paths that leave the root', async () => {
+    const backups = join(root, 'backups');
+
+    await expect(resolveInside(backups, '../sanity-mcp.config.json')).rejects.toThrow('is outside');
+    await expect(resolveInside(backups, '/etc/cron.d/job')).rejects.toThrow('Path "/etc/cron.d/job" is outside');
+    await expect(resolveInside(backups, 'out/new.ndjson')).rejects.toThrow('Path "out/new.ndjson" is outside');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for Markdown ⇄ Portable Text conversion
+ */
+
+import {
+  convertMarkdownFields,
+  imageAssetIdFromUrl,
+  isPortableText,
+  markdownToPortableText,
+  PortableTextBlock,
+  portableTextToMarkdown,
+  portableTextToPlainText,
+  renderPortableTextFields,
+} from '../portable-text';
+
+function sequentialKeys() {
+  let n = 0;
+  return () => `k${n++}`;
+}
+
+describe('markdownToPortableText', () => {
+  it('should convert headings, paragraphs and blockquotes', () => {
+    const blocks = markdownToPortableText('# Title\n\nFirst line\ncontinues here\n\n> Quoted\n> text', {
+      keyGenerator: sequentialKeys(),
+    }) as PortableTextBlock[];
+
+    expect(blocks.map((b) => b.style)).toEqual(['h1', 'normal', 'blockquote']);
+    expect(blocks[0].children[0].text).toBe('Title');
+    expect(blocks[1].children[0].text).toBe('First line continues here');
+    expect(blocks[2].children[0].text).toBe('Quoted text');
+    expect(new Set(blocks.map((b) => b._key)).size).toBe(3);
+  });
+
+  it('should convert decorators into marks', () => {
+    const [block] = markdownToPortableText('Plain **bold** _em_ `code` ~~gone~~ ***both***') as PortableTextBlock[];
+
+    expect(block.children.map((c) => [c.text, c.marks])).toEqual([
+      ['Plain ', []],
+      ['bold', ['strong']],
+      [' ', []],
+      ['em', ['em']],
+      [' ', []],
+      ['code', ['code']],
+      [' ', []],
+      ['gone', ['strike-through']],
+      [' ', []],
+      ['both', ['strong', 'em']],
+    ]);
+  });
+
+  it('should not treat underscores inside words as emphasis', () => {
+    const [block] = markdownToPortableText('use snake_case_names here') as PortableTextBlock[];
+
+    expect(block.children).toHaveLength(1);
+    expect(block.children[0].text).toBe('use snake_case_names here');
+  });
+
+  it('should convert links into annotations', () => {
+    const [block] = markdownToPortableText('See [the **docs**](https://sanity.io/docs) now', {
+      keyGenerator: sequentialKeys(),
+    }) as PortableTextBlock[];
+
+    const [link] = block.markDefs;
+    expect(link).toMatchObject({ _type: 'link', href: 'https://sanity.io/docs' });
+    expect(block.children.map((c) => [c.text, c.marks])).toEqual([
+      ['See ', []],
+      ['the ', [link._key]],
+      ['docs', [link._key, 'strong']],
+      [' now', []],
+    ]);
+  });
+
+  it('should convert nested bullet and numbered lists', () => {
+    const blocks = markdownToPortableText('- one\n  - nested\n1. first\n2. second') as PortableTextBlock[];
+
+    expect(blocks.map((b) => [b.listItem, b.level])).toEqual([
+      ['bullet', 1],
+      ['bullet', 2],
+      ['number', 1],
+      ['number', 1],
+    ]);
+  });
+
+  it('should convert code blocks', () => {
+    const blocks = markdownToPortableText('```ts\nconst a = 1;\n\nconst b = 2;\n```');
+
+    expect(blocks).toEqual([
+      expect.objectContaining({ _type: 'code', language: 'ts', code: 'const a = 1;\n\nconst b = 2;' }),
+    ]);
+  });
+
+  it('should convert Sanity images into image blocks and other images into links', () => {
+    const blocks = markdownToPortableText(
+      '![A cat](https://cdn.sanity.io/images/proj/production/abc123-800x600.jpg)\n\n![Remote](https://example.com/x.png)'
+    );
+
+    expect(blocks[0]).toMatchObject({
+      _type: 'image',
+      alt: 'A cat',
+      asset: { _type: 'reference', _ref: 'image-abc123-800x600-jpg' },
+    });
+    expect((blocks[1] as PortableTextBlock).markDefs[0]).toMatchObject({ href: 'https://example.com/x.png' });
+  });
+
+  it('should only treat flanking delimiters as emphasis', () => {
+    const text = (markdown: string) =>
+      (markdownToPortableText(markdown)[0] as PortableTextBlock).children.map((c) => [c.text, c.marks]);
+
+    expect(text('a * b * c')).toEqual([['a * b * c', []]]);
+    expect(text('x _ y _ z')).toEqual([['x _ y _ z', []]]);
+    expect(text('*a**b*')).toEqual([['a**b', ['em']]]);
+    expect(text('**a*')).toEqual([['*', []], ['a', ['em']]]);
+    expect(text('*not closed *')).toEqual([['*not closed *', []]]);
+  });
+
+  it('should respect backslash escapes', () => {
+    const [block] = markdownToPortableText('\\*not em\\* and \\# hash') as PortableTextBlock[];
+
+    expect(block.children).toEqual([expect.objectContaining({ text: '*not em* and # hash', marks: [] })]);
+  });
+});
+
+describe('portableTextToMarkdown', () => {
+  it('should round-trip Markdown', () => {
+    const markdown = [
+      '## Heading',
+      '',
+      'Some **bold** and _em_ text with a [link](https://example.com) and `code`.',
+      '',
+      '- one',
+      '  - two',
+      '',
+      '1. first',
+      '1. second',
+      '',
+      '> A quote',
+      '',
+      '```js',
+      'console.log(1);',
+      '```',
+      '',
+      '![Alt](image-abc123-10x10-png)',
+    ].join('\n');
+
+    expect(portableTextToMarkdown(markdownToPortableText(markdown))).toBe(markdown);
+  });
+
+  it('should round-trip arithmetic', () => {
+    const markdown = 'Total: 2 * 3 = 6, and 4 * 5 * 2 = 40 **exactly**';
+    const blocks = markdownToPortableText(markdown) as PortableTextBlock[];
+
+    expect(blocks[0].children.map((c) => c.text)).toEqual(['Total: 2 * 3 = 6, and 4 * 5 * 2 = 40 ', 'exactly']);
+    expect(portableTextToMarkdown(blocks)).toBe(markdown);
+    expect(portableTextToMarkdown(markdownToPortableText('2 \\*3\\* 4'))).toBe('2 \\*3\\* 4');
+  });
+
+  it('should escape text that would otherwise become Markdown', () => {
+    const blocks = [
+      {
+        _type: 'block',
+        _key: 'a',
+        style: 'normal',
+        markDefs: [],
+        children: [{ _type: 'span', _key: 's', text: '# not a heading *or em*', marks: [] }],
+      },
+    ];
+    const markdown = portableTextToMarkdown(blocks);
+
+    expect(markdown).toBe('\\# not a heading \\*or em\\*');
+    expect((markdownToPortableText(markdown)[0] as PortableTextBlock).children[0].text).toBe(
+      '# not a heading *or em*'
+    );
+  });
+
+  it('should build CDN URLs for images when project info is given', () => {
+    const markdown = portableTextToMarkdown(
+      [{ _type: 'image', _key: 'i', asset: { _type: 'reference', _ref: 'image-abc-10x20-png' } }],
+      { projectId: 'proj', dataset: 'production' }
+    );
+
+    expect(markdown).toBe('![](https://cdn.sanity.io/images/proj/production/abc-10x20.png)');
+  });
+
+  it('should mark unsupported blocks', () => {
+    expect(portableTextToMarkdown([{ _type: 'youtube', _key: 'y', url: 'x' }])).toBe(
+      '<!-- unsupported block: youtube -->'
+    );
+  });
+});
+
+describe('portableTextToPlainText', () => {
+  it('should join span text per block like pt::text()', () => {
+    const blocks = [
+      ...markdownToPortableText('# Title\n\nSome **bold** text', { keyGenerator: sequentialKeys() }),
+      { _type: 'image', _key: 'i1', asset: { _type: 'reference', _ref: 'image-a-1x1-png' } },
+    ];
+
+    expect(portableTextToPlainText(blocks)).toBe('Title\n\nSome bold text');
+  });
+});
+
+describe('field helpers', () => {
+  it('should detect Portable Text arrays', () => {
+    expect(isPortableText([{ _type: 'block' }])).toBe(true);
+    expect(isPortableText(['a'])).toBe(false);
+    expect(isPortableText([])).toBe(false);
+  });
+
+  it('should render every Portable Text field by default', () => {
+    const doc = {
+      _id: 'post-1',
+      title: 'Hi',
+      body: markdownToPortableText('Hello **world**'),
+      tags: ['a'],
+    };
+
+    expect(renderPortableTextFields(doc, undefined)).toEqual({ ...doc, body: 'Hello **world**' });
+  });
+
+  it('should convert Markdown fields and reject non-strings', () => {
+    const converted = convertMarkdownFields({ title: 'Hi', body: '# Hello' }, ['body']);
+
+    expect(isPortableText(converted.body)).toBe(true);
+    expect(converted.title).toBe('Hi');
+    expect(() => convertMarkdownFields({ body: 5 }, ['body'])).toThrow(
+      'Field "body" must be a Markdown string'
+    );
+  });
+
+  it('should parse Sanity image URLs', () => {
+    expect(imageAssetIdFromUrl('image-abc-1x1-png')).toBe('image-abc-1x1-png');
+    expect(imageAssetIdFromUrl('https://example.com/a.png')).toBeUndefined();
+  });
+});
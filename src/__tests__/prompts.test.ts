@@ -0,0 +1,104 @@
+/**
+ * Unit tests for MCP prompts
+ */
+
+import { ClientPool } from '../config';
+import { getPrompt, PROMPTS } from '../prompts';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+function mockQueryResult(result: unknown) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ ms: 5, query: '', result }),
+  });
+}
+
+function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('prompts', () => {
+  const clients = new ClientPool({
+    defaultProfile: 'default',
+    profiles: { default: { projectId: 'test-project', dataset: 'production' } },
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should declare required arguments for every prompt', () => {
+    for (const prompt of PROMPTS) {
+      expect(prompt.arguments?.some((arg) => arg.required)).toBe(true);
+    }
+  });
+
+  it('should reject unknown prompts and missing arguments', async () => {
+    await expect(getPrompt(clients, 'nope')).rejects.toThrow('Unknown prompt: nope');
+    await expect(getPrompt(clients, 'sanity_write_groq_query', {})).rejects.toThrow(
+      'requires the "type" argument'
+    );
+  });
+
+  it('should include types and fields in the GROQ query prompt', async () => {
+    mockQueryResult(['post', 'author']);
+    mockQueryResult([{ _id: 'post-1', _type: 'post', title: 'Hi', slug: { current: 'hi' } }]);
+    mockQueryResult(12);
+
+    const result = await getPrompt(clients, 'sanity_write_groq_query', {
+      type: 'post',
+      goal: 'newest posts',
+    });
+    const text = promptText(result);
+
+    expect(text).toContain('Document types in this dataset: post, author');
+    expect(text).toContain('"post" has 12 document(s) with these fields: title, slug');
+    expect(text).toContain('Goal: newest posts');
+  });
+
+  it('should include draft and published versions in the review prompt', async () => {
+    mockQueryResult({ _id: 'post-1', _type: 'post', title: 'Old' });
+    mockQueryResult({ _id: 'drafts.post-1', _type: 'post', title: 'New' });
+
+    const text = promptText(await getPrompt(clients, 'sanity_review_before_publish', { id: 'post-1' }));
+
+    expect(text).toContain('Status: both (has unpublished changes)');
+    expect(text).toContain('"title": "New"');
+    expect(text).toContain('"title": "Old"');
+  });
+
+  it('should say there is nothing to publish without a draft', async () => {
+    mockQueryResult({ _id: 'post-1', _type: 'post' });
+    mockQueryResult(null);
+
+    const text = promptText(await getPrompt(clients, 'sanity_review_before_publish', { id: 'post-1' }));
+
+    expect(text).toContain('nothing to publish');
+  });
+
+  it('should list referencing documents in the audit prompt', async () => {
+    mockQueryResult({ _id: 'author-1', _type: 'author', name: 'Ada' });
+    mockQueryResult([{ _id: 'post-1', _type: 'post' }]);
+
+    const text = promptText(await getPrompt(clients, 'sanity_audit_references', { id: 'author-1' }));
+
+    expect(text).toContain('Document: author "Ada"');
+    expect(text).toContain('- post-1 (post)');
+  });
+
+  it('should include existing fields in the draft prompt', async () => {
+    mockQueryResult([{ _id: 'event-1', _type: 'event', title: 'Launch', date: '2024-01-01' }]);
+    mockQueryResult(3);
+
+    const text = promptText(
+      await getPrompt(clients, 'sanity_draft_new_document', { type: 'event', topic: 'Demo day' })
+    );
+
+    expect(text).toContain('Draft a new "event" document about: Demo day');
+    expect(text).toContain('use these fields: title, date');
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for Content Release IDs
+ */
+
+import { assertReleaseId, newReleaseId, parseVersionId, summarizeRelease, versionId } from '../releases';
+
+describe('versionId', () => {
+  it('should build version IDs from published, draft or other version IDs', () => {
+    expect(versionId('rSpring', 'post-1')).toBe('versions.rSpring.post-1');
+    expect(versionId('rSpring', 'drafts.post-1')).toBe('versions.rSpring.post-1');
+    expect(versionId('rSpring', 'versions.rOther.post-1')).toBe('versions.rSpring.post-1');
+  });
+
+  it('should parse version IDs', () => {
+    expect(parseVersionId('versions.rSpring.post-1')).toEqual({ releaseId: 'rSpring', documentId: 'post-1' });
+    expect(parseVersionId('drafts.post-1')).toBeUndefined();
+  });
+});
+
+describe('release IDs', () => {
+  it('should generate valid IDs and reject ones that would break document IDs', () => {
+    expect(newReleaseId()).toMatch(/^r[A-Za-z0-9]{8}$/);
+    expect(() => assertReleaseId('spring-launch')).not.toThrow();
+    expect(() => assertReleaseId('spring.launch')).toThrow('Invalid release ID "spring.launch"');
+  });
+});
+
+describe('summarizeRelease', () => {
+  it('should flatten release metadata', () => {
+    expect(
+      summarizeRelease({
+        _id: '_.releases.rSpring',
+        _type: 'system.release',
+        name: 'rSpring',
+        state: 'active',
+        metadata: { title: 'Spring launch', releaseType: 'scheduled', intendedPublishAt: '2025-03-20T08:00:00Z' },
+      })
+    ).toEqual({
+      releaseId: 'rSpring',
+      state: 'active',
+      title: 'Spring launch',
+      releaseType: 'scheduled',
+      intendedPublishAt: '2025-03-20T08:00:00Z',
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for MCP resources
+ */
+
+import { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { ClientPool } from '../config';
+import {
+  documentUri,
+  listResources,
+  parseResourceUri,
+  queryUri,
+  readResource,
+  resourceTemplates,
+  typeUri,
+} from '../resources';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('parseResourceUri', () => {
+  it('should parse document URIs', () => {
+    expect(parseResourceUri('sanity://production/doc/drafts.post-1')).toEqual({
+      kind: 'doc',
+      dataset: 'production',
+      profile: undefined,
+      id: 'drafts.post-1',
+    });
+  });
+
+  it('should parse type URIs with pagination and profile', () => {
+    expect(parseResourceUri('sanity://staging/type/post?limit=10&cursor=abc&profile=stage')).toEqual({
+      kind: 'type',
+      dataset: 'staging',
+      profile: 'stage',
+      type: 'post',
+      limit: 10,
+      cursor: 'abc',
+      offset: 0,
+    });
+  });
+
+  it('should cap the page size', () => {
+    const parsed = parseResourceUri('sanity://production/type/post?limit=5000');
+
+    expect(parsed).toMatchObject({ limit: 100, offset: 0 });
+  });
+
+  it('should parse query URIs', () => {
+    const uri = `sanity://production/query?groq=${encodeURIComponent('*[_type == "post"]')}`;
+
+    expect(parseResourceUri(uri)).toMatchObject({ kind: 'query', groq: '*[_type == "post"]', limit: 20 });
+    expect(parseResourceUri(queryUri('production', '*', { limit: 5, cursor: 'c/1' }))).toMatchObject({
+      groq: '*',
+      limit: 5,
+      cursor: 'c/1',
+    });
+  });
+
+  it('should reject other schemes and unknown kinds', () => {
+    expect(() => parseResourceUri('https://example.com/doc/1')).toThrow('Unsupported resource URI');
+    expect(() => parseResourceUri('sanity://production/asset/1')).toThrow('Unknown resource kind "asset"');
+    expect(() => parseResourceUri('sanity://production/doc/')).toThrow('Missing document ID');
+  });
+
+  it('should round-trip URIs built by the helpers', () => {
+    expect(parseResourceUri(documentUri('production', 'a/b c'))).toMatchObject({ id: 'a/b c' });
+    expect(parseResourceUri(typeUri('production', 'post', { limit: 5, cursor: 'a+b/c=' }))).toMatchObject({
+      type: 'post',
+      limit: 5,
+      cursor: 'a+b/c=',
+    });
+  });
+});
+
+function readText(result: ReadResourceResult): unknown {
+  const content = result.contents[0];
+  return 'text' in content ? JSON.parse(content.text) : undefined;
+}
+
+describe('resource handlers', () => {
+  const clients = new ClientPool({
+    defaultProfile: 'default',
+    profiles: { default: { projectId: 'test-project', dataset: 'production' } },
+  });
+
+  beforeEach(() => {
+    mockFetch.mockClear();
+  });
+
+  it('should list one resource per document type', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ms: 5, query: '', result: ['post', 'author', 'sanity.imageAsset'] }),
+    });
+
+    const resources = await listResources(clients);
+
+    expect(resources.map((r) => r.uri)).toEqual([
+      'sanity://production/type/post',
+      'sanity://production/type/author',
+    ]);
+  });
+
+  it('should read a document resource', async () => {
+    const doc = { _id: 'post-1', _type: 'post', title: 'Hello' };
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ms: 5, query: '', result: doc }),
+    });
+
+    const result = await readResource(clients, 'sanity://production/doc/post-1');
+
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(readText(result)).toEqual(doc);
+  });
+
+  it('should throw for missing documents', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ ms: 5, query: '', result: null }),
+    });
+
+    await expect(readResource(clients, 'sanity://production/doc/missing')).rejects.toThrow(
+      'Document with ID "missing" not found'
+    );
+  });
+
+  it('should include a next link when more documents of a type follow', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        ms: 5,
+        query: '',
+        result: [
+          { _id: 'post-1', _type: 'post', _cursor: ['2024-05-02T00:00:00Z', 'post-1'] },
+          { _id: 'post-2', _type: 'post', _cursor: ['2024-05-01T00:00:00Z', 'post-2'] },
+          { _id: 'post-3', _type: 'post', _cursor: ['2024-04-30T00:00:00Z', 'post-3'] },
+        ],
+      }),
+    });
+
+    const result = await readResource(clients, 'sanity://staging/type/post?limit=2');
+    const page = readText(result) as { count: number; next: string };
+
+    expect(page.count).toBe(2);
+    expect(page.next).toMatch(/^sanity:\/\/staging\/type\/post\?limit=2&cursor=\S+$/);
+    expect(parseResourceUri(page.next)).toMatchObject({ kind: 'type', limit: 2 });
+    expect(mockFetch.mock.calls[0][0]).toContain('/data/query/staging');
+  });
+
+  it('should page query results like sanity_query', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ n: 1 }, { n: 2 }, { n: 3 }] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: 42 }) });
+
+    const page = readText(await readResource(clients, `${queryUri('production', '*')}&limit=2&profile=default`)) as {
+      count: number;
+      next: string;
+    };
+
+    expect(page.count).toBe(2);
+    expect(parseResourceUri(page.next)).toMatchObject({ kind: 'query', groq: '*', limit: 2, profile: 'default' });
+    expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('query')).toContain('(*\n)[0...3]');
+    expect(readText(await readResource(clients, queryUri('production', 'count(*)')))).toBe(42);
+  });
+
+  it('should follow the access settings of the matching tools', async () => {
+    const access = { deny: ['sanity_query', 'sanity_list_documents'] };
+
+    expect(resourceTemplates(access).map((t) => t.name)).toEqual(['Sanity document']);
+    expect(resourceTemplates()).toHaveLength(3);
+    await expect(listResources(clients, access)).resolves.toEqual([]);
+    await expect(
+      readResource(clients, 'sanity://production/query?groq=*', access)
+    ).rejects.toThrow('query resources are disabled on this server (sanity_query is not enabled)');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for reference-aware deletion helpers
+ */
+
+import { buildDeleteMutations, findReferencePaths } from '../safe-delete';
+
+describe('findReferencePaths', () => {
+  const doc = {
+    _id: 'post-1',
+    _type: 'post',
+    author: { _type: 'reference', _ref: 'author-1' },
+    coAuthors: [
+      { _key: 'a1', _type: 'reference', _ref: 'author-1', _weak: true },
+      { _key: 'a2', _type: 'reference', _ref: 'author-2' },
+    ],
+    legacy: [{ _type: 'reference', _ref: 'author-1' }],
+    mainImage: { _type: 'image', asset: { _type: 'reference', _ref: 'image-abc-1x1-png' } },
+    seo: { reviewer: { _type: 'reference', _ref: 'author-1' } },
+  };
+
+  it('should return patch paths for references to the given IDs', () => {
+    expect(findReferencePaths(doc, ['author-1'])).toEqual([
+      { path: 'author', ref: 'author-1', weak: false },
+      { path: 'coAuthors[_key=="a1"]', ref: 'author-1', weak: true },
+      { path: 'legacy[0]', ref: 'author-1', weak: false },
+      { path: 'seo.reviewer', ref: 'author-1', weak: false },
+    ]);
+  });
+
+  it('should remove asset references with their image object', () => {
+    expect(findReferencePaths(doc, ['image-abc-1x1-png'])).toEqual([
+      { path: 'mainImage', ref: 'image-abc-1x1-png', weak: false },
+    ]);
+  });
+});
+
+describe('buildDeleteMutations', () => {
+  const referencedBy = [
+    {
+      _id: 'post-1',
+      _type: 'post',
+      _rev: 'rev1',
+      references: [
+        { path: 'author', ref: 'author-1', weak: false },
+        { path: 'author', ref: 'drafts.author-1', weak: false },
+      ],
+    },
+  ];
+
+  it('should produce nothing when refusing a referenced document', () => {
+    expect(buildDeleteMutations('refuse', ['author-1'], referencedBy, [])).toEqual([]);
+  });
+
+  it('should unset references guarded by revision before deleting', () => {
+    expect(buildDeleteMutations('unlink', ['author-1', 'drafts.author-1'], referencedBy, [])).toEqual([
+      { patch: { id: 'post-1', unset: ['author'], ifRevisionID: 'rev1' } },
+      { delete: { id: 'author-1' } },
+      { delete: { id: 'drafts.author-1' } },
+    ]);
+  });
+
+  it('should delete dependents before the target when cascading', () => {
+    expect(buildDeleteMutations('cascade', ['author-1'], referencedBy, ['post-1'])).toEqual([
+      { delete: { id: 'post-1' } },
+      { delete: { id: 'author-1' } },
+    ]);
+  });
+});
@@ -2,7 +2,8 @@
  * Unit tests for Sanity CMS Client
  */
 
-import { SanityClient, SanityConfig, SanityDocument } from '../sanity-client';
+import { PatchOperations } from '../patch-operations';
+import { BulkOperation, RevisionConflictError, SanityClient, SanityConfig, SanityDocument } from '../sanity-client';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -196,6 +197,117 @@ describe('SanityClient', () => {
     });
   });
 
+  describe('listDocuments', () => {
+    it('should page with a keyset cursor', async () => {
+      const client = new SanityClient(defaultConfig);
+      const rows = [1, 2, 3].map((n) => ({
+        _id: `post-${n}`,
+        _type: 'post',
+        _createdAt: `2024-05-0${4 - n}T00:00:00Z`,
+        _cursor: [`2024-05-0${4 - n}T00:00:00Z`, `post-${n}`],
+      }));
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: rows }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: rows.slice(2) }) });
+
+      const first = await client.listDocuments('post', { limit: 2 });
+      const second = await client.listDocuments('post', { limit: 2, cursor: first.nextCursor! });
+
+      expect(first.items.map((doc) => doc._id)).toEqual(['post-1', 'post-2']);
+      expect(first.items[0]).not.toHaveProperty('_cursor');
+      expect(second).toEqual({ items: [{ _id: 'post-3', _type: 'post', _createdAt: '2024-05-01T00:00:00Z' }], nextCursor: null });
+
+      const firstUrl = new URL(mockFetch.mock.calls[0][0]);
+      expect(firstUrl.searchParams.get('query')).toBe(
+        '*[_type == $type] | order(_createdAt desc, _id asc) [0...3] { ..., "_cursor": [_createdAt, _id] }'
+      );
+      const secondUrl = new URL(mockFetch.mock.calls[1][0]);
+      expect(secondUrl.searchParams.get('query')).toContain(
+        '_type == $type && (_createdAt < $cursor0 || (_createdAt == $cursor0 && (_id > $cursor1)))'
+      );
+      expect(secondUrl.searchParams.get('$cursor1')).toBe('"post-2"');
+    });
+
+    it('should refuse a cursor for another type or order', async () => {
+      const client = new SanityClient(defaultConfig);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ result: [{ _id: 'a', _type: 'post', _cursor: ['a'] }, { _id: 'b', _type: 'post' }] }),
+      });
+      const { nextCursor } = await client.listDocuments('post', { limit: 1, order: '_id asc' });
+
+      await expect(client.listDocuments('author', { cursor: nextCursor! })).rejects.toThrow(
+        'Cursor is not for a listing of author'
+      );
+      await expect(client.listDocuments('post', { cursor: nextCursor!, order: 'title asc' })).rejects.toThrow(
+        'Cursor continues the order "_id asc"'
+      );
+    });
+
+    it('should skip to an offset on the first page only', async () => {
+      const client = new SanityClient(defaultConfig);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ result: [{ _id: 'a', _type: 'post', _cursor: ['a'] }, { _id: 'b', _type: 'post' }] }),
+      });
+
+      const { nextCursor } = await client.listDocuments('post', { limit: 1, offset: 40, order: '_id asc' });
+
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('query')).toContain('order(_id asc) [40...42]');
+      await expect(client.listDocuments('post', { cursor: nextCursor!, offset: 40 })).rejects.toThrow(
+        'offset cannot be combined with cursor'
+      );
+    });
+  });
+
+  describe('queryPage', () => {
+    it('should slice array results on the server and continue with a cursor', async () => {
+      const client = new SanityClient(defaultConfig);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ n: 1 }, { n: 2 }, { n: 3 }] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ n: 3 }] }) });
+
+      const first = await client.queryPage('*[_type == $type]{n} // all', { type: 'x' }, { pageSize: 2 });
+      const second = await client.queryPage('*[_type == $type]{n} // all', { type: 'x' }, {
+        pageSize: 2,
+        cursor: first.nextCursor!,
+      });
+
+      expect(first.result).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(second).toEqual({ result: [{ n: 3 }], nextCursor: null });
+      const q = '(*[_type == $type]{n} // all\n)';
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('query')).toBe(
+        `select(defined(${q}[0...0]) => ${q}[0...3], ${q})`
+      );
+      expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get('query')).toContain(`${q}[2...5]`);
+      await expect(
+        client.queryPage('*[_type == $type]{n}', { type: 'y' }, { cursor: first.nextCursor! })
+      ).rejects.toThrow('Cursor belongs to another query');
+    });
+
+    it('should return other results whole', async () => {
+      const client = new SanityClient(defaultConfig);
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ result: 42 }) });
+
+      expect(await client.queryPage('count(*)')).toEqual({ result: 42, nextCursor: null });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cut pages that would be too large and report timeouts', async () => {
+      const client = new SanityClient(defaultConfig);
+      const rows = Array.from({ length: 5 }, (_, i) => ({ _id: `doc-${i}`, body: 'x'.repeat(400) }));
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: rows }) })
+        .mockRejectedValueOnce(Object.assign(new Error('aborted'), { name: 'TimeoutError' }));
+
+      const page = await client.queryPage('*', undefined, { maxChars: 1000 });
+
+      expect(page.result).toHaveLength(2);
+      expect(page.nextCursor).not.toBeNull();
+      await expect(client.queryPage('*', undefined, { timeout: 5000 })).rejects.toThrow('Query timed out after 5s');
+    });
+  });
+
   describe('search', () => {
     it('should perform full-text search', async () => {
       const client = new SanityClient(defaultConfig);
@@ -232,6 +344,29 @@ describe('SanityClient', () => {
       expect(calledUrl).toContain('post');
       expect(calledUrl).toContain('article');
     });
+
+    it('should search types on fields inferred from their schema, once', async () => {
+      const client = new SanityClient(defaultConfig);
+      const product = { _id: 'p1', _type: 'product', name: 'Trail shoe', sku: 'TS-1', price: 90 };
+      const hit = { _id: 'p1', _type: 'product', _score: 3, name: 'Trail shoe', _searchText: ['Trail shoe', 'TS-1'] };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [product] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: 1 }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [hit] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [] }) });
+
+      const results = await client.search('trail', { types: ['product'], config: { inferFields: true } });
+      await client.search('shoe', { types: ['product'], config: { inferFields: true } });
+
+      expect(results).toEqual([
+        { _id: 'p1', _type: 'product', _score: 3, name: 'Trail shoe', snippet: '**Trail** shoe', matchedField: 'name' },
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      const query = new URL(mockFetch.mock.calls[2][0]).searchParams.get('query');
+      expect(query).toContain('boost(_type in ["product"] && name match $term0, 3)');
+      expect(query).toContain('boost(_type in ["product"] && sku match $term0, 1)');
+      expect(query).not.toContain('description match');
+    });
   });
 
   describe('count', () => {
@@ -282,7 +417,7 @@ describe('SanityClient', () => {
       mockFetch
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({ ms: 5, query: '', result: sampleDoc }),
+          json: async () => ({ ms: 5, query: '', result: [sampleDoc] }),
         })
         .mockResolvedValueOnce({
           ok: true,
@@ -299,13 +434,27 @@ describe('SanityClient', () => {
       expect(schema.count).toBe(10);
     });
 
+    it('should clamp the sample size', async () => {
+      const client = new SanityClient(defaultConfig);
+
+      for (const [sampleSize, expected] of [[2.7, 2], [-5, 1], [1e9, 1000]]) {
+        mockFetch.mockClear();
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, json: async () => ({ ms: 5, query: '', result: [] }) })
+          .mockResolvedValueOnce({ ok: true, json: async () => ({ ms: 5, query: '', result: 0 }) });
+        await client.getTypeSchema('post', { sampleSize });
+
+        expect(decodeURIComponent(mockFetch.mock.calls[0][0])).toContain(`[0...${expected}]`);
+      }
+    });
+
     it('should handle type with no documents', async () => {
       const client = new SanityClient(defaultConfig);
 
       mockFetch
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({ ms: 5, query: '', result: null }),
+          json: async () => ({ ms: 5, query: '', result: [] }),
         })
         .mockResolvedValueOnce({
           ok: true,
@@ -316,6 +465,70 @@ describe('SanityClient', () => {
 
       expect(schema.fields).toEqual([]);
       expect(schema.count).toBe(0);
+      expect(schema.sampled).toBe(0);
+    });
+
+    it('should resolve reference target types', async () => {
+      const client = new SanityClient(defaultConfig);
+      const docs: SanityDocument[] = [
+        {
+          _id: 'post-1',
+          _type: 'post',
+          author: { _type: 'reference', _ref: 'author-1' },
+          mainImage: { _type: 'image', asset: { _type: 'reference', _ref: 'image-abc-10x10-png' } },
+        },
+      ];
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: docs }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: 1 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: [{ _id: 'author-1', _type: 'author' }] }),
+        });
+
+      const schema = await client.getTypeSchema('post');
+      const author = schema.paths.find((p) => p.path === 'author');
+      const asset = schema.paths.find((p) => p.path === 'mainImage.asset');
+
+      expect(author?.referenceTypes).toEqual(['author']);
+      expect(asset?.referenceTypes).toEqual(['sanity.imageAsset']);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should page through every document when all is set', async () => {
+      const client = new SanityClient(defaultConfig);
+      const fullPage = Array.from({ length: 500 }, (_, i) => ({
+        _id: `post-${String(i).padStart(3, '0')}`,
+        _type: 'post',
+        title: 'T',
+      }));
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: fullPage }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: 501 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ms: 5, query: '', result: [{ _id: 'post-999', _type: 'post' }] }),
+        });
+
+      const schema = await client.getTypeSchema('post', { all: true });
+
+      expect(schema.sampled).toBe(501);
+      expect(schema.paths.find((p) => p.path === 'title')?.presence).toBe(0.998);
+      expect(mockFetch.mock.calls[2][0]).toContain(encodeURIComponent('"post-499"'));
     });
   });
 
@@ -500,6 +713,58 @@ describe('SanityClient', () => {
     });
   });
 
+  describe('patch steps', () => {
+    const mutationResult = { ok: true, json: async () => ({ transactionId: 'tx', results: [] }) };
+
+    it('should send each step as a patch in one transaction, guarding only the first', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(mutationResult);
+
+      await client.patchDocument(
+        'post-1',
+        [{ setIfMissing: { tags: [] } }, { insert: { after: 'tags[-1]', items: [{ _key: 't1', label: 'news' }] } }],
+        { ifRevision: 'r1' }
+      );
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).mutations).toEqual([
+        { patch: { id: 'post-1', setIfMissing: { tags: [] }, ifRevisionID: 'r1' } },
+        { patch: { id: 'post-1', insert: { after: 'tags[-1]', items: [{ _key: 't1', label: 'news' }] } } },
+      ]);
+    });
+
+    it('should reject malformed steps before sending anything', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      await expect(
+        client.patchDocument('post-1', [{ set: { title: 'x' } }, { insert: { after: 'tags', items: ['a'] } }])
+      ).rejects.toThrow('Invalid patch step 2: insert.after must point at an array item');
+      await expect(
+        client.patchDocument('post-1', [{ set: { title: 'x' } }, { id: 'post-2', unset: ['title'] } as PatchOperations])
+      ).rejects.toThrow('Invalid patch step 2: Unknown patch key "id". Use set, setIfMissing');
+      await expect(
+        client.bulkMutate([{ patch: { id: 'post-1', diffMatchPatch: { 'a..b': '@@' } } }], { dryRun: true })
+      ).rejects.toThrow('Invalid patch in operation 1: diffMatchPatch: invalid path "a..b"');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown keys in bulk operations', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      const bulk = (op: unknown) => client.bulkMutate([op as BulkOperation], { dryRun: true });
+
+      await expect(bulk({ patch: { id: 'post-1', set: { a: 1 }, ifRevisionID: 'r1' } })).rejects.toThrow(
+        'Invalid patch in operation 1: Unknown patch key "ifRevisionID". Use id, ifRevision, set'
+      );
+      await expect(bulk({ delete: { id: 'post-1', ifRevision: 'r1' } })).rejects.toThrow(
+        'Invalid delete in operation 1: give only { id } (got ifRevision)'
+      );
+      await expect(bulk({ create: { _type: 'post' }, delete: { id: 'post-1' } })).rejects.toThrow(
+        'Invalid operation 1: give exactly one of create, createOrReplace, createIfNotExists, patch, delete (got create, delete)'
+      );
+      await expect(bulk({ update: { id: 'post-1' } })).rejects.toThrow('(got update)');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteDocument', () => {
     it('should delete a document by ID', async () => {
       const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
@@ -526,51 +791,367 @@ describe('SanityClient', () => {
   });
 
   describe('publishDocument', () => {
-    it('should publish a draft document', async () => {
+    const actionResult = { ok: true, json: async () => ({ transactionId: 'txn-pub' }) };
+    const found = (docs: SanityDocument[]) => ({ ok: true, json: async () => ({ ms: 5, query: '', result: docs }) });
+    const sentActions = (call: number) => JSON.parse(mockFetch.mock.calls[call][1].body).actions;
+
+    it('should publish a draft with the Actions API', async () => {
       const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
-      const draftDoc: SanityDocument = {
-        _id: 'drafts.post-1',
-        _type: 'post',
-        _rev: 'abc',
-        title: 'Draft Post',
-      };
-      const mockMutationResult = {
-        transactionId: 'txn-pub',
-        results: [
-          { id: 'post-1', operation: 'createOrReplace' },
-          { id: 'drafts.post-1', operation: 'delete' },
-        ],
-      };
+      mockFetch
+        .mockResolvedValueOnce(
+          found([
+            { _id: 'drafts.post-1', _type: 'post', _rev: 'abc', title: 'Draft Post' },
+            { _id: 'post-1', _type: 'post', _rev: 'old', title: 'Published Post' },
+          ])
+        )
+        .mockResolvedValueOnce(actionResult);
+
+      const result = await client.publishDocument('drafts.post-1');
+
+      expect(mockFetch.mock.calls[1][0]).toBe('https://test-project.api.sanity.io/v2025-02-19/data/actions/production');
+      expect(sentActions(1)).toEqual([
+        {
+          actionType: 'sanity.action.document.publish',
+          draftId: 'drafts.post-1',
+          publishedId: 'post-1',
+          ifDraftRevisionId: 'abc',
+        },
+      ]);
+      expect(result).toEqual({ transactionId: 'txn-pub', results: [{ id: 'post-1', operation: 'publish' }] });
+    });
+
+    it('should throw error if draft not found', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch.mockResolvedValueOnce(found([]));
+
+      await expect(client.publishDocument('drafts.nonexistent')).rejects.toThrow(
+        'Draft document not found'
+      );
+    });
+
+    it('should refuse drafts that reference draft-only documents', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          found([
+            {
+              _id: 'drafts.post-1',
+              _type: 'post',
+              author: { _type: 'reference', _ref: 'author-1' },
+              image: { asset: { _type: 'reference', _ref: 'image-abc-10x10-png' } },
+              related: [{ _key: 'r1', _type: 'reference', _ref: 'post-2', _weak: true }],
+            },
+          ])
+        )
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: ['drafts.author-1'] }) });
+
+      await expect(client.publishDocument('post-1')).rejects.toThrow(
+        'Cannot publish: post-1 references author-1 at author (only a draft exists)'
+      );
+      expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get('$ids')).toBe('["author-1","drafts.author-1"]');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should publish referenced drafts in the same batch atomically', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          found([
+            { _id: 'drafts.post-1', _type: 'post', _rev: 'r1', author: { _type: 'reference', _ref: 'author-1' } },
+            { _id: 'drafts.author-1', _type: 'author', _rev: 'r2' },
+          ])
+        )
+        .mockResolvedValueOnce(actionResult);
+
+      const result = await client.publishDocuments(['post-1', 'drafts.author-1']);
+
+      expect(sentActions(1).map((action: { publishedId: string }) => action.publishedId)).toEqual([
+        'post-1',
+        'author-1',
+      ]);
+      expect(result.results).toHaveLength(2);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should list unpublished references without publishing', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          found([{ _id: 'drafts.post-1', _type: 'post', tags: [{ _key: 't1', _type: 'reference', _ref: 'tag-9' }] }])
+        )
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [] }) });
+
+      const plan = await client.planPublish(['post-1']);
+
+      expect(plan).toEqual({
+        documents: [{ draftId: 'drafts.post-1', publishedId: 'post-1', isNew: true }],
+        unpublishedReferences: [{ documentId: 'post-1', path: 'tags[_key=="t1"]', ref: 'tag-9', status: 'missing' }],
+      });
+    });
+  });
 
+  describe('discardDraft', () => {
+    it('should discard the draft with the Actions API', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: { _id: 'drafts.post-1', _rev: 'r3' } }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'txn-discard' }) });
+
+      const result = await client.discardDraft('post-1', { ifRevision: 'r3' });
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).actions).toEqual([
+        { actionType: 'sanity.action.document.discard', draftId: 'drafts.post-1' },
+      ]);
+      expect(result.results).toEqual([{ id: 'drafts.post-1', operation: 'discard' }]);
+    });
+  });
+
+  describe('revision guards', () => {
+    const mutationResult = { ok: true, json: async () => ({ transactionId: 'tx', results: [] }) };
+    const sentMutations = (call: number) => JSON.parse(mockFetch.mock.calls[call][1].body).mutations;
+
+    it('should send ifRevisionID with a guarded patch', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(mutationResult);
+
+      await client.patchDocument('post-1', { set: { title: 'New' } }, { ifRevision: 'r1' });
+
+      expect(sentMutations(0)).toEqual([{ patch: { id: 'post-1', set: { title: 'New' }, ifRevisionID: 'r1' } }]);
+    });
+
+    it('should guard a full update with a no-op patch', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(mutationResult);
+
+      await client.updateDocument('post-1', { _type: 'post', title: 'New' }, { ifRevision: 'r1' });
+
+      expect(sentMutations(0)).toEqual([
+        { patch: { id: 'post-1', ifRevisionID: 'r1', unset: ['_revision_lock_pseudo_field_'] } },
+        { createOrReplace: { _id: 'post-1', _type: 'post', title: 'New' } },
+      ]);
+    });
+
+    it("should publish against the draft's current revision", async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
       mockFetch
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => ({ ms: 5, query: '', result: draftDoc }),
+          json: async () => ({ result: [{ _id: 'drafts.post-1', _type: 'post', _rev: 'r7', title: 'Draft' }] }),
         })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => mockMutationResult,
-        });
+        .mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'Revision mismatch' })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ _id: 'drafts.post-1', _rev: 'r9' }] }) });
 
-      const result = await client.publishDocument('drafts.post-1');
+      const error = await client.publishDocument('drafts.post-1').catch((e) => e);
 
-      expect(result.transactionId).toBe('txn-pub');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).actions[0].ifDraftRevisionId).toBe('r7');
+      expect(error).toBeInstanceOf(RevisionConflictError);
+      expect(error).toMatchObject({ documentId: 'drafts.post-1', expectedRevision: 'r7', currentRevision: 'r9' });
     });
 
-    it('should throw error if draft not found', async () => {
+    it('should refuse to publish a draft that changed since it was reviewed', async () => {
       const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
-
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => ({ ms: 5, query: '', result: null }),
+        json: async () => ({ result: [{ _id: 'drafts.post-1', _type: 'post', _rev: 'r8' }] }),
       });
 
-      await expect(client.publishDocument('drafts.nonexistent')).rejects.toThrow(
-        'Draft document not found'
+      await expect(client.publishDocument('drafts.post-1', { ifRevision: 'r7' })).rejects.toThrow(
+        'Revision conflict on drafts.post-1: expected revision r7, but it is now at r8'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a conflict with the current revision', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'unexpected revision ID' })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ _id: 'post-1', _rev: 'r2' }] }) });
+
+      const error = await client
+        .bulkMutate([{ patch: { id: 'post-1', set: { title: 'New' }, ifRevision: 'r1' } }])
+        .catch((e) => e);
+
+      expect(sentMutations(0)).toEqual([{ patch: { id: 'post-1', set: { title: 'New' }, ifRevisionID: 'r1' } }]);
+      expect(error).toBeInstanceOf(RevisionConflictError);
+      expect(error).toMatchObject({ documentId: 'post-1', expectedRevision: 'r1', currentRevision: 'r2' });
+    });
+
+    it('should keep the original error when no guarded document changed', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'Document already exists' });
+
+      await expect(client.createDocument({ _id: 'post-1', _type: 'post' })).rejects.toThrow(
+        'Sanity mutation failed: 409 - Document already exists'
       );
     });
   });
 
+  describe('draft-first writes', () => {
+    const mutationResult = { ok: true, json: async () => ({ transactionId: 'tx', results: [] }) };
+    const sentMutations = (call: number) => JSON.parse(mockFetch.mock.calls[call][1].body).mutations;
+    const found = (docs: SanityDocument[]) => ({ ok: true, json: async () => ({ result: docs }) });
+
+    it('should seed the draft from the published document before patching it', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          found([{ _id: 'post-1', _type: 'post', _rev: 'r1', _updatedAt: '2024-01-01T00:00:00Z', title: 'Old' }])
+        )
+        .mockResolvedValueOnce(mutationResult);
+
+      const result = await client.patchDocument('post-1', { set: { title: 'New' } }, { draft: true });
+
+      expect(sentMutations(1)).toEqual([
+        { createIfNotExists: { _id: 'drafts.post-1', _type: 'post', title: 'Old' } },
+        { patch: { id: 'drafts.post-1', set: { title: 'New' } } },
+      ]);
+      expect(result.drafts).toEqual({ ids: ['drafts.post-1'], seededFromPublished: ['post-1'] });
+    });
+
+    it('should patch an existing draft directly', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          found([
+            { _id: 'post-1', _type: 'post', title: 'Old' },
+            { _id: 'drafts.post-1', _type: 'post', title: 'Draft' },
+          ])
+        )
+        .mockResolvedValueOnce(mutationResult);
+
+      const result = await client.patchDocument('post-1', { set: { title: 'New' } }, { draft: true });
+
+      expect(sentMutations(1)).toEqual([{ patch: { id: 'drafts.post-1', set: { title: 'New' } } }]);
+      expect(result.drafts?.seededFromPublished).toEqual([]);
+    });
+
+    it('should keep the revision guard on the document that was read', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(found([{ _id: 'post-1', _type: 'post', _rev: 'r1' }]))
+        .mockResolvedValueOnce(mutationResult);
+
+      await client.patchDocument('post-1', { inc: { views: 1 } }, { ifRevision: 'r1', draft: true });
+
+      expect(sentMutations(1)).toEqual([
+        { patch: { id: 'post-1', ifRevisionID: 'r1', unset: ['_revision_lock_pseudo_field_'] } },
+        { createIfNotExists: { _id: 'drafts.post-1', _type: 'post' } },
+        { patch: { id: 'drafts.post-1', inc: { views: 1 } } },
+      ]);
+    });
+
+    it('should create and replace drafts without looking anything up', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(mutationResult).mockResolvedValueOnce(mutationResult);
+
+      await client.createDocument({ _type: 'post', title: 'New' }, { draft: true });
+      await client.updateDocument('post-1', { _type: 'post', title: 'New' }, { ifRevision: 'r1', draft: true });
+
+      const [created] = sentMutations(0);
+      expect(created.create._id).toMatch(/^drafts\.[0-9a-f-]{36}$/);
+      expect(sentMutations(1)).toEqual([
+        { patch: { id: 'post-1', ifRevisionID: 'r1', unset: ['_revision_lock_pseudo_field_'] } },
+        { createOrReplace: { _id: 'drafts.post-1', _type: 'post', title: 'New' } },
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Content Releases', () => {
+    const queryResult = (result: unknown) => ({ ok: true, json: async () => ({ result }) });
+    const actionResult = { ok: true, json: async () => ({ transactionId: 'txn-release' }) };
+    const sentActions = (call: number) => JSON.parse(mockFetch.mock.calls[call][1].body).actions;
+
+    it('should query with a release perspective on the releases API version', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(queryResult([]));
+
+      await client.query('*[_type == "post"]', undefined, { perspective: ['rSpring', 'drafts'] });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/v2025-02-19/data/query/production');
+      expect(url.searchParams.get('perspective')).toBe('rSpring,drafts');
+    });
+
+    it('should add a copy of the draft to a release', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          queryResult({
+            release: { _id: '_.releases.rSpring', state: 'active' },
+            docs: [
+              { _id: 'post-1', _type: 'post', _rev: 'r1', title: 'Published' },
+              { _id: 'drafts.post-1', _type: 'post', _rev: 'r2', _updatedAt: '2025-01-01T00:00:00Z', title: 'Draft' },
+            ],
+          })
+        )
+        .mockResolvedValueOnce(actionResult);
+
+      const result = await client.addToRelease('rSpring', 'post-1');
+
+      expect(sentActions(1)).toEqual([
+        {
+          actionType: 'sanity.action.document.version.create',
+          publishedId: 'post-1',
+          document: { _id: 'versions.rSpring.post-1', _type: 'post', title: 'Draft' },
+        },
+      ]);
+      expect(result.results).toEqual([{ id: 'versions.rSpring.post-1', operation: 'createVersion' }]);
+    });
+
+    it('should refuse to change a release that is no longer active', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(queryResult({ release: { state: 'published' }, docs: [] }));
+
+      await expect(client.addToRelease('rSpring', 'post-1')).rejects.toThrow(
+        'Release rSpring is published; only active releases can be changed'
+      );
+    });
+
+    it('should list release contents with diffs against published', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(
+          queryResult({
+            release: { _id: '_.releases.rSpring', name: 'rSpring', state: 'active', metadata: { title: 'Spring' } },
+            versions: [
+              { _id: 'versions.rSpring.post-1', _type: 'post', title: 'New title' },
+              { _id: 'versions.rSpring.post-2', _type: 'post', title: 'Fresh' },
+              { _id: 'versions.rSpring.promo', _type: 'promo', _system: { delete: true } },
+            ],
+          })
+        )
+        .mockResolvedValueOnce(
+          queryResult([
+            { _id: 'post-1', _type: 'post', title: 'Old title' },
+            { _id: 'promo', _type: 'promo' },
+          ])
+        );
+
+      const { release, documents } = await client.getReleaseContents('rSpring');
+
+      expect(release).toEqual({ releaseId: 'rSpring', state: 'active', title: 'Spring' });
+      expect(documents.map((doc) => [doc.documentId, doc.status])).toEqual([
+        ['post-1', 'changed'],
+        ['post-2', 'new'],
+        ['promo', 'unpublish'],
+      ]);
+      expect(documents[0].changes).toMatchObject([{ op: 'replace', path: 'title', before: 'Old title', after: 'New title' }]);
+    });
+
+    it('should publish and archive releases with actions', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(actionResult).mockResolvedValueOnce(actionResult);
+
+      await client.publishRelease('rSpring');
+      await client.archiveRelease('rSpring');
+
+      expect(sentActions(0)).toEqual([{ actionType: 'sanity.action.release.publish', releaseId: 'rSpring' }]);
+      expect(sentActions(1)).toEqual([{ actionType: 'sanity.action.release.archive', releaseId: 'rSpring' }]);
+    });
+  });
+
   describe('unpublishDocument', () => {
     it('should unpublish a document to drafts', async () => {
       const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
@@ -580,13 +1161,7 @@ describe('SanityClient', () => {
         _rev: 'xyz',
         title: 'Published Post',
       };
-      const mockMutationResult = {
-        transactionId: 'txn-unpub',
-        results: [
-          { id: 'drafts.post-1', operation: 'createOrReplace' },
-          { id: 'post-1', operation: 'delete' },
-        ],
-      };
+      const mockMutationResult = { transactionId: 'txn-unpub' };
 
       mockFetch
         .mockResolvedValueOnce({
@@ -601,6 +1176,207 @@ describe('SanityClient', () => {
       const result = await client.unpublishDocument('post-1');
 
       expect(result.transactionId).toBe('txn-unpub');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).actions).toEqual([
+        { actionType: 'sanity.action.document.unpublish', draftId: 'drafts.post-1', publishedId: 'post-1' },
+      ]);
+    });
+  });
+
+  describe('safeDelete', () => {
+    const queryResult = (result: unknown) => ({ ok: true, json: async () => ({ result }) });
+
+    it('should refuse to delete a referenced document and list the referrers', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce(queryResult(['author-1', 'drafts.author-1']))
+        .mockResolvedValueOnce(
+          queryResult([{ _id: 'post-1', _type: 'post', author: { _ref: 'author-1' } }])
+        );
+
+      await expect(client.safeDelete('author-1')).rejects.toThrow(
+        'Cannot delete author-1: referenced by post-1 (post)'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const referrerQuery = new URL(mockFetch.mock.calls[1][0]);
+      expect(referrerQuery.searchParams.get('$ids')).toBe('["author-1","drafts.author-1"]');
+    });
+
+    it('should preview an unlink without writing', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce(queryResult(['author-1']))
+        .mockResolvedValueOnce(
+          queryResult([{ _id: 'post-1', _type: 'post', _rev: 'r1', author: { _ref: 'author-1' } }])
+        );
+
+      const { plan, result } = await client.safeDelete('author-1', { strategy: 'unlink', dryRun: true });
+
+      expect(result).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(plan).toMatchObject({ targets: ['author-1'], blocked: false });
+      expect(plan.mutations).toEqual([
+        { patch: { id: 'post-1', unset: ['author'], ifRevisionID: 'r1' } },
+        { delete: { id: 'author-1' } },
+      ]);
+    });
+
+    it('should cascade through dependents in one transaction', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce(queryResult(['category-1']))
+        .mockResolvedValueOnce(queryResult([{ _id: 'post-1', _type: 'post', category: { _ref: 'category-1' } }]))
+        .mockResolvedValueOnce(queryResult([{ _id: 'comment-1', _type: 'comment', post: { _ref: 'post-1' } }]))
+        .mockResolvedValueOnce(queryResult([]))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'tx', results: [] }) });
+
+      const { plan } = await client.safeDelete('category-1', { strategy: 'cascade' });
+
+      expect(plan.cascade).toEqual(['post-1', 'comment-1']);
+      expect(JSON.parse(mockFetch.mock.calls[4][1].body).mutations).toEqual([
+        { delete: { id: 'post-1' } },
+        { delete: { id: 'comment-1' } },
+        { delete: { id: 'category-1' } },
+      ]);
+    });
+
+    it('should throw when the document does not exist', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch.mockResolvedValueOnce(queryResult([]));
+
+      await expect(client.safeDelete('missing')).rejects.toThrow('Document not found: missing');
+    });
+  });
+
+  describe('planApplyDiff', () => {
+    const queryResult = (result: unknown) => ({ ok: true, json: async () => ({ result }) });
+    const published = {
+      _id: 'post-1',
+      _type: 'post',
+      _rev: 'r1',
+      title: 'Old title',
+      subtitle: 'Old subtitle',
+      tags: [{ _key: 't1', label: 'news' }],
+    };
+    const draft = {
+      _id: 'drafts.post-1',
+      _type: 'post',
+      _rev: 'r2',
+      title: 'New title',
+      subtitle: 'New subtitle',
+      tags: [
+        { _key: 't1', label: 'news' },
+        { _key: 't2', label: 'tech' },
+        { _key: 't3', label: 'ai' },
+      ],
+    };
+
+    it('should plan a revision-guarded patch for selected paths', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(queryResult(published)).mockResolvedValueOnce(queryResult(draft));
+
+      const plan = await client.planApplyDiff('post-1', 'drafts.post-1', { paths: ['title', 'tags', 'author'] });
+
+      expect(plan.target).toBe('post-1');
+      expect(plan.ifRevisionID).toBe('r1');
+      expect(plan.unmatchedPaths).toEqual(['author']);
+      expect(plan.patches).toEqual([
+        { set: { title: 'New title' } },
+        {
+          insert: {
+            after: 'tags[_key=="t1"]',
+            items: [
+              { _key: 't2', label: 'tech' },
+              { _key: 't3', label: 'ai' },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should apply the plan to another document without a revision guard', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce(queryResult(published))
+        .mockResolvedValueOnce(queryResult(draft))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'tx', results: [] }) });
+
+      const plan = await client.planApplyDiff('post-1', 'drafts.post-1', {
+        target: 'post-1-de',
+        paths: ['subtitle'],
+      });
+      await client.applyDiffPlan(plan);
+
+      const body = JSON.parse(mockFetch.mock.calls[2][1].body);
+      expect(body.mutations).toEqual([{ patch: { id: 'post-1-de', set: { subtitle: 'New subtitle' } } }]);
+    });
+
+    it('should refuse to apply an empty plan', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      await expect(
+        client.applyDiffPlan({ target: 'post-1', changes: [], patches: [], unmatchedPaths: [] })
+      ).rejects.toThrow('Nothing to apply to post-1');
+    });
+  });
+
+  describe('getDocumentAt', () => {
+    it('should request the document at a revision from the history API', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'read-token' });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ documents: [{ _id: 'post-1', _type: 'post', _rev: 'r1', title: 'Old' }] }),
+      });
+
+      const doc = await client.getDocumentAt('post-1', { revision: 'r1' });
+
+      expect(doc?.title).toBe('Old');
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/v2024-01-20/data/history/production/documents/post-1');
+      expect(url.searchParams.get('revision')).toBe('r1');
+    });
+
+    it('should require exactly one of revision and time', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'read-token' });
+      await expect(client.getDocumentAt('post-1', {})).rejects.toThrow('Provide either revision or time');
+      await expect(client.getDocumentAt('post-1', { time: 'last tuesday' })).rejects.toThrow('Invalid time');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('planRestore', () => {
+    it('should restore to the draft and diff against it', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            documents: [{ _id: 'post-1', _type: 'post', _rev: 'r1', _updatedAt: '2024-05-14T09:00:00Z', title: 'Old' }],
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ result: { _id: 'drafts.post-1', _type: 'post', _rev: 'r9', title: 'New' } }),
+        });
+
+      const plan = await client.planRestore('post-1', { time: '2024-05-14T09:00:00Z' });
+
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('time')).toBe('2024-05-14T09:00:00.000Z');
+      expect(plan.target).toBe('drafts.post-1');
+      expect(plan.source).toEqual({ _id: 'post-1', _rev: 'r1', _updatedAt: '2024-05-14T09:00:00Z' });
+      expect(plan.document).toEqual({ _type: 'post', title: 'Old' });
+      expect(plan.changes).toMatchObject([{ op: 'replace', path: 'title', before: 'New', after: 'Old' }]);
+    });
+
+    it('should fail when the document did not exist at that time', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ documents: [] }) });
+
+      await expect(client.planRestore('post-1', { revision: 'r0', target: 'published' })).rejects.toThrow(
+        'No version of post-1 found at r0'
+      );
     });
   });
 
@@ -644,6 +1420,283 @@ describe('SanityClient', () => {
     });
   });
 
+  describe('uploadAsset', () => {
+    it('should upload files to the files endpoint with metadata', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ document: { _id: 'file-abc-pdf', _type: 'sanity.fileAsset' } }),
+      });
+
+      await client.uploadAsset(Buffer.from('%PDF'), {
+        kind: 'file',
+        filename: 'report.pdf',
+        contentType: 'application/pdf',
+        title: 'Annual report',
+        source: { name: 'drive', id: '42' },
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/v2024-01-20/assets/files/production');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        filename: 'report.pdf',
+        title: 'Annual report',
+        sourceName: 'drive',
+        sourceId: '42',
+      });
+    });
+
+    it('should set alt text on image assets', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ document: { _id: 'image-abc-1x1-png', _type: 'sanity.imageAsset' } }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ transactionId: 'tx', results: [] }),
+        });
+
+      const asset = await client.uploadAsset(Buffer.from('x'), {
+        filename: 'a.png',
+        contentType: 'image/png',
+        altText: 'A cat',
+      });
+
+      expect(asset.altText).toBe('A cat');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).mutations).toEqual([
+        { patch: { id: 'image-abc-1x1-png', set: { altText: 'A cat' } } },
+      ]);
+    });
+
+    it('should throw error without token', async () => {
+      const client = new SanityClient(defaultConfig);
+
+      await expect(
+        client.uploadAsset(Buffer.from('x'), { kind: 'file', filename: 'a.txt', contentType: 'text/plain' })
+      ).rejects.toThrow('File upload requires a Sanity API token');
+    });
+  });
+
+  describe('findUnusedAssets', () => {
+    it('should build filters and total the bytes', async () => {
+      const client = new SanityClient(defaultConfig);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          result: [
+            { _id: 'image-a', _type: 'sanity.imageAsset', originalFilename: 'import-1.jpg', size: 100 },
+            { _id: 'image-b', _type: 'sanity.imageAsset', originalFilename: 'hero.jpg', size: 50 },
+            { _id: 'image-c', _type: 'sanity.imageAsset', originalFilename: 'IMPORT-2.JPG', size: 25 },
+          ],
+        }),
+      });
+
+      const result = await client.findUnusedAssets({
+        kind: 'image',
+        mimeType: 'image/*',
+        minSize: 10,
+        filename: 'import-*.jpg',
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      const query = url.searchParams.get('query') as string;
+      expect(query).toContain('string::startsWith(mimeType, $mimePrefix)');
+      expect(query).toContain('size >= $minSize');
+      expect(query).toContain('count(*[references(^._id)]) == 0');
+      expect(url.searchParams.get('$types')).toBe('["sanity.imageAsset"]');
+      expect(url.searchParams.get('$mimePrefix')).toBe('"image/"');
+      expect(result).toMatchObject({ count: 2, totalBytes: 125, truncated: false });
+      expect(result.assets.map((a) => a._id)).toEqual(['image-a', 'image-c']);
+    });
+
+    it('should stop at the limit and report truncation', async () => {
+      const client = new SanityClient(defaultConfig);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          result: [{ _id: 'file-a', size: 1 }, { _id: 'file-b', size: 1 }],
+        }),
+      });
+
+      const result = await client.findUnusedAssets({ kind: 'file', limit: 1 });
+
+      expect(result).toMatchObject({ count: 1, truncated: true });
+    });
+  });
+
+  describe('deleteUnusedAssets', () => {
+    it('should re-check references before deleting each batch', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      const progress: unknown[] = [];
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            result: [
+              { _id: 'image-a', size: 10, referenced: false },
+              { _id: 'image-b', size: 20, referenced: true },
+            ],
+          }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'tx1', results: [] }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ result: [{ _id: 'image-d', size: 5, referenced: false }] }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'tx2', results: [] }) });
+
+      const result = await client.deleteUnusedAssets(['image-a', 'image-b', 'image-c', 'image-d'], {
+        batchSize: 3,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).mutations).toEqual([{ delete: { id: 'image-a' } }]);
+      expect(result).toEqual({
+        deleted: ['image-a', 'image-d'],
+        deletedBytes: 15,
+        skipped: [
+          { id: 'image-b', reason: 'now referenced' },
+          { id: 'image-c', reason: 'not found' },
+        ],
+        failed: [],
+      });
+      expect(progress).toEqual([
+        { batch: 1, batches: 2, processed: 3, total: 4, deleted: 1 },
+        { batch: 2, batches: 2, processed: 4, total: 4, deleted: 2 },
+      ]);
+    });
+
+    it('should record failed batches and continue', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ _id: 'image-a', referenced: false }] }) })
+        .mockResolvedValueOnce({ ok: false, status: 409, text: async () => 'referenced' });
+
+      const result = await client.deleteUnusedAssets(['image-a']);
+
+      expect(result.deleted).toEqual([]);
+      expect(result.failed).toEqual([
+        { ids: ['image-a'], error: 'Sanity mutation failed: 409 - referenced' },
+      ]);
+    });
+  });
+
+  describe('importHtml', () => {
+    it('should upload embedded images once and reference them', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch
+        .mockResolvedValueOnce(new Response(new Uint8Array(4), { headers: { 'content-type': 'image/png' } }))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ document: { _id: 'image-abc-1x1-png' } }),
+        });
+
+      const result = await client.importHtml(
+        '<p>Intro</p><img src="https://example.com/photos/cat.png" alt="Cat"><img src="https://example.com/photos/cat.png">'
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('assets/images/production?filename=cat.png');
+      expect(result.uploaded).toEqual([{ src: 'https://example.com/photos/cat.png', assetId: 'image-abc-1x1-png' }]);
+      expect(result.blocks.slice(1)).toEqual([
+        expect.objectContaining({ _type: 'image', alt: 'Cat', asset: { _type: 'reference', _ref: 'image-abc-1x1-png' } }),
+        expect.objectContaining({ _type: 'image', asset: { _type: 'reference', _ref: 'image-abc-1x1-png' } }),
+      ]);
+    });
+
+    it('should decode data URLs', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ document: { _id: 'image-def-1x1-gif' } }),
+      });
+
+      const result = await client.importHtml('<img src="data:image/gif;base64,R0lGODlh">');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('filename=image.gif'),
+        expect.objectContaining({ headers: expect.objectContaining({ 'Content-Type': 'image/gif' }) })
+      );
+      expect(result.blocks[0]).toMatchObject({ asset: { _ref: 'image-def-1x1-gif' } });
+    });
+
+    it('should keep images as links when they cannot be uploaded', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+
+      const result = await client.importHtml('<img src="https://example.com/missing.png" alt="Gone">');
+
+      expect(result.skipped).toEqual([{ src: 'https://example.com/missing.png', reason: 'Image download failed: 404' }]);
+      expect(result.blocks[0]).toMatchObject({
+        _type: 'block',
+        markDefs: [{ _type: 'link', href: 'https://example.com/missing.png' }],
+        children: [expect.objectContaining({ text: 'Gone' })],
+      });
+    });
+
+    it('should only download images from allowed hosts', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } })
+      );
+
+      const html = '<img src="http://10.0.0.5/a.png"><img src="https://cdn.example.com/b.png">';
+      const result = await client.importHtml(html, { imageHosts: ['*.example.com'] });
+      const none = await client.importHtml('<img src="https://cdn.example.com/c.png">', { imageHosts: [] });
+
+      expect(result.skipped).toEqual([
+        { src: 'http://10.0.0.5/a.png', reason: 'Image host 10.0.0.5 is not allowed; allowed hosts: *.example.com' },
+        {
+          src: 'https://cdn.example.com/b.png',
+          reason: 'Image host 169.254.169.254 is not allowed; allowed hosts: *.example.com',
+        },
+      ]);
+      expect(none.skipped[0].reason).toBe('Downloading remote images is disabled on this server');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse images over the size limit', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+      const huge = new ReadableStream({
+        pull(controller) {
+          controller.enqueue(new Uint8Array(1024 * 1024));
+        },
+      });
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(null, { headers: { 'content-type': 'image/png', 'content-length': String(50 * 1024 * 1024) } })
+        )
+        .mockResolvedValueOnce(new Response(huge, { headers: { 'content-type': 'image/png' } }));
+
+      const declared = await client.importHtml('<img src="https://example.com/a.png">');
+      const streamed = await client.importHtml('<img src="https://example.com/b.png">');
+
+      expect(declared.skipped[0].reason).toBe('Image is larger than 20 MB');
+      expect(streamed.skipped[0].reason).toBe('Image is larger than 20 MB');
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ redirect: 'manual', signal: expect.any(AbortSignal) });
+    });
+
+    it('should not upload when uploadImages is false', async () => {
+      const client = new SanityClient({ ...defaultConfig, token: 'write-token' });
+
+      const result = await client.importHtml('<img src="https://example.com/a.png">', { uploadImages: false });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.skipped).toEqual([{ src: 'https://example.com/a.png', reason: 'Image upload disabled' }]);
+    });
+  });
+
   describe('createImageReference', () => {
     it('should create a proper image reference object', () => {
       const client = new SanityClient(defaultConfig);
@@ -658,4 +1711,15 @@ describe('SanityClient', () => {
       });
     });
   });
+
+  describe('createFileReference', () => {
+    it('should create a proper file reference object', () => {
+      const client = new SanityClient(defaultConfig);
+
+      expect(client.createFileReference('file-abc-pdf')).toEqual({
+        _type: 'file',
+        asset: { _type: 'reference', _ref: 'file-abc-pdf' },
+      });
+    });
+  });
 });
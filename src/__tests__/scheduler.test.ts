@@ -0,0 +1,161 @@
+/**
+ * Unit tests for scheduled publishing
+ */
+
+import { mkdtempSync, readFileSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ClientPool } from '../config';
+import { canRunScheduledJobs, runDueJobs, ScheduleStore } from '../scheduler';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const now = new Date('2025-03-01T12:00:00Z');
+const later = new Date('2025-03-03T08:00:00Z');
+
+function newStore(): ScheduleStore {
+  return new ScheduleStore(join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'schedule.json'));
+}
+
+describe('ScheduleStore', () => {
+  it('should keep jobs in the state file', async () => {
+    const store = newStore();
+
+    const job = await store.add(
+      { action: 'publish', documentId: 'drafts.post-1', runAt: '2025-03-03T09:00:00+01:00', profile: 'a', dataset: 'd' },
+      now
+    );
+
+    expect(job).toMatchObject({ documentId: 'post-1', runAt: '2025-03-03T08:00:00.000Z', status: 'pending' });
+    expect(JSON.parse(readFileSync(store.file, 'utf8')).jobs).toEqual([job]);
+    expect(await new ScheduleStore(store.file).list({ status: 'pending' })).toEqual([job]);
+  });
+
+  it('should reject times in the past and duplicate pending jobs', async () => {
+    const store = newStore();
+    const job = { action: 'unpublish' as const, documentId: 'promo', runAt: later, profile: 'a', dataset: 'd' };
+
+    await expect(store.add({ ...job, runAt: '2025-02-01T00:00:00Z' }, now)).rejects.toThrow('is in the past');
+    await expect(store.add({ ...job, runAt: 'monday' }, now)).rejects.toThrow('Invalid time: monday');
+    await expect(store.add({ ...job, action: 'publsh' as 'publish' }, now)).rejects.toThrow(
+      'Invalid schedule action "publsh"'
+    );
+    await store.add(job, now);
+    await expect(store.add(job, now)).rejects.toThrow('promo already has a pending unpublish job');
+  });
+
+  it('should wait for the lock file and take over stale ones', async () => {
+    const store = newStore();
+    const lockFile = `${store.file}.lock`;
+    writeFileSync(lockFile, '1');
+
+    await expect(
+      new ScheduleStore(store.file, 100).add({ action: 'publish', documentId: 'a', runAt: later, profile: 'a', dataset: 'd' }, now)
+    ).rejects.toThrow('is locked by another process');
+
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockFile, old, old);
+    await store.add({ action: 'publish', documentId: 'a', runAt: later, profile: 'a', dataset: 'd' }, now);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should hand a due job to only one of two runners', async () => {
+    const store = newStore();
+    await store.add({ action: 'publish', documentId: 'post-1', runAt: later, profile: 'a', dataset: 'd' }, now);
+
+    const claims = await Promise.all([store.claimDue(later), new ScheduleStore(store.file).claimDue(later)]);
+
+    expect(claims.map((jobs) => jobs.length).sort()).toEqual([0, 1]);
+  });
+
+  it('should only cancel pending jobs', async () => {
+    const store = newStore();
+    const job = await store.add({ action: 'publish', documentId: 'post-1', runAt: later, profile: 'a', dataset: 'd' }, now);
+
+    expect((await store.cancel(job.id, now)).status).toBe('cancelled');
+    await expect(store.cancel(job.id, now)).rejects.toThrow('is cancelled and can no longer be cancelled');
+    await expect(store.cancel('nope')).rejects.toThrow('Scheduled job not found: nope');
+  });
+});
+
+describe('runDueJobs', () => {
+  const pool = new ClientPool({
+    defaultProfile: 'a',
+    profiles: { a: { projectId: 'p', dataset: 'd', token: 'token' } },
+  });
+
+  beforeEach(() => mockFetch.mockReset());
+
+  it('should run due jobs and record their outcome', async () => {
+    const store = newStore();
+    const publish = await store.add(
+      { action: 'publish', documentId: 'post-1', runAt: later, profile: 'a', dataset: 'd' },
+      now
+    );
+    const unpublish = await store.add(
+      { action: 'unpublish', documentId: 'promo', runAt: later, profile: 'a', dataset: 'd' },
+      now
+    );
+    await store.add(
+      { action: 'publish', documentId: 'post-2', runAt: '2025-04-01T00:00:00Z', profile: 'a', dataset: 'd' },
+      now
+    );
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ _id: 'drafts.post-1', _rev: 'r1' }] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ transactionId: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: null }) });
+
+    const finished = await runDueJobs(store, pool, later);
+
+    expect(finished.map((job) => [job.id, job.status])).toEqual([
+      [publish.id, 'done'],
+      [unpublish.id, 'failed'],
+    ]);
+    expect(finished[0].transactionId).toBe('tx-1');
+    expect(finished[1].error).toBe('Published document not found: promo');
+    expect((await store.list({ status: 'pending' })).map((job) => job.documentId)).toEqual(['post-2']);
+    expect(await runDueJobs(store, pool, later)).toEqual([]);
+  });
+
+  it('should fail jobs whose tool is disabled without touching the document', async () => {
+    const store = newStore();
+    await store.add({ action: 'unpublish', documentId: 'promo', runAt: later, profile: 'a', dataset: 'd' }, now);
+
+    const [job] = await runDueJobs(store, pool, later, { deny: ['sanity_unpublish'] });
+
+    expect(job).toMatchObject({
+      status: 'failed',
+      error: 'sanity_unpublish is disabled on this server (read-only mode or tool access settings)',
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(canRunScheduledJobs({ deny: ['sanity_unpublish'] })).toBe(true);
+    expect(canRunScheduledJobs({ readOnly: true })).toBe(false);
+  });
+
+  it('should fail jobs with an unknown action without touching the document', async () => {
+    const store = newStore();
+    writeFileSync(
+      store.file,
+      JSON.stringify({
+        jobs: [
+          { id: 'j1', action: 'publsh', documentId: 'post-1', runAt: now.toISOString(), profile: 'a', dataset: 'd', status: 'pending', createdAt: now.toISOString() },
+        ],
+      })
+    );
+
+    const [job] = await runDueJobs(store, pool, later);
+
+    expect(job).toMatchObject({ status: 'failed', error: 'Unknown scheduled action "publsh"' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should retry jobs left running by an interrupted run', async () => {
+    const store = newStore();
+    await store.add({ action: 'publish', documentId: 'post-1', runAt: later, profile: 'a', dataset: 'd' }, now);
+    await store.claimDue(later);
+
+    expect(await store.claimDue(new Date(later.getTime() + 60_000))).toEqual([]);
+    expect(await store.claimDue(new Date(later.getTime() + 60 * 60_000))).toHaveLength(1);
+  });
+});
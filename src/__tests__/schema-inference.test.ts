@@ -0,0 +1,94 @@
+/**
+ * Unit tests for schema inference
+ */
+
+import { detectValueType, inferSchema } from '../schema-inference';
+
+describe('detectValueType', () => {
+  it('should detect primitive and string formats', () => {
+    expect(detectValueType('hello')).toBe('string');
+    expect(detectValueType('2024-01-20T10:00:00Z')).toBe('datetime');
+    expect(detectValueType('2024-01-20')).toBe('date');
+    expect(detectValueType('https://example.com')).toBe('url');
+    expect(detectValueType(42)).toBe('number');
+    expect(detectValueType(false)).toBe('boolean');
+    expect(detectValueType(null)).toBe('null');
+  });
+
+  it('should detect objects, typed objects, references and arrays', () => {
+    expect(detectValueType({ a: 1 })).toBe('object');
+    expect(detectValueType({ _type: 'slug', current: 'x' })).toBe('slug');
+    expect(detectValueType({ _type: 'reference', _ref: 'abc' })).toBe('reference');
+    expect(detectValueType({ _ref: 'abc' })).toBe('reference');
+    expect(detectValueType([])).toBe('array');
+  });
+});
+
+describe('inferSchema', () => {
+  const docs = [
+    {
+      _id: 'post-1',
+      _type: 'post',
+      title: 'First',
+      slug: { _type: 'slug', current: 'first' },
+      tags: ['a', 'b'],
+      categories: [{ _type: 'reference', _ref: 'cat-1', _key: 'k1' }],
+      body: [
+        {
+          _type: 'block',
+          _key: 'b1',
+          style: 'normal',
+          children: [{ _type: 'span', _key: 's1', text: 'Hello', marks: [] }],
+        },
+        { _type: 'image', _key: 'i1', asset: { _type: 'reference', _ref: 'image-abc-1x1-png' } },
+      ],
+    },
+    {
+      _id: 'post-2',
+      _type: 'post',
+      title: 'Second',
+      subtitle: null,
+    },
+  ];
+
+  it('should report top-level fields without system fields', () => {
+    const schema = inferSchema(docs);
+
+    expect(schema.fields).toEqual(['title', 'slug', 'tags', 'categories', 'body', 'subtitle']);
+  });
+
+  it('should compute presence ratios relative to the parent', () => {
+    const schema = inferSchema(docs);
+    const byPath = Object.fromEntries(schema.paths.map((p) => [p.path, p]));
+
+    expect(byPath.title.presence).toBe(1);
+    expect(byPath.slug.presence).toBe(0.5);
+    expect(byPath['slug.current'].presence).toBe(1);
+    expect(byPath['body[].style'].presence).toBe(0.5);
+    expect(byPath['body[].children[].text'].presence).toBe(1);
+  });
+
+  it('should report types, array members, references and examples', () => {
+    const schema = inferSchema(docs, { 'cat-1': 'category' });
+    const byPath = Object.fromEntries(schema.paths.map((p) => [p.path, p]));
+
+    expect(byPath.slug.types).toEqual(['slug']);
+    expect(byPath.subtitle.types).toEqual(['null']);
+    expect(byPath.tags.arrayMemberTypes).toEqual(['string']);
+    expect(byPath.categories.arrayMemberTypes).toEqual(['reference']);
+    expect(byPath.categories.referenceTypes).toEqual(['category']);
+    expect(byPath.body.arrayMemberTypes).toEqual(['block', 'image']);
+    expect(byPath['body[].asset'].referenceTypes).toEqual(['sanity.imageAsset']);
+    expect(byPath.title.examples).toEqual(['First', 'Second']);
+  });
+
+  it('should truncate long examples and keep at most three', () => {
+    const schema = inferSchema(
+      ['a', 'b', 'c', 'd'].map((v, i) => ({ _id: `${i}`, _type: 't', text: v.repeat(100) }))
+    );
+    const examples = schema.paths[0].examples as string[];
+
+    expect(examples).toHaveLength(3);
+    expect(examples[0]).toHaveLength(81);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for full-text search syntax, queries and snippets
+ */
+
+import {
+  assertTypeSearchConfig,
+  buildSearchQuery,
+  DEFAULT_TYPE_SEARCH,
+  finishSearchHits,
+  highlightSnippet,
+  parseSearchQuery,
+  searchConfigFromSchema,
+  SearchGroup,
+} from '../search';
+
+describe('parseSearchQuery', () => {
+  it('should parse phrases, prefixes and exclusions', () => {
+    expect(parseSearchQuery('"content lake"  groq* -draft -"old news" lake')).toEqual([
+      { text: 'content lake', kind: 'phrase', exclude: false },
+      { text: 'groq', kind: 'prefix', exclude: false },
+      { text: 'draft', kind: 'word', exclude: true },
+      { text: 'old news', kind: 'phrase', exclude: true },
+      { text: 'lake', kind: 'word', exclude: false },
+    ]);
+  });
+
+  it('should require a term that is not excluded', () => {
+    expect(() => parseSearchQuery('-draft')).toThrow('needs at least one term that is not excluded');
+    expect(() => parseSearchQuery('  "" * ')).toThrow('needs at least one term');
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('should bold whole words, prefixes and phrases', () => {
+    const terms = parseSearchQuery('"content lake" groq* lake');
+
+    expect(highlightSnippet('Query the Content Lake with GROQ queries; a lakeside is not a lake.', terms)).toBe(
+      'Query the **Content Lake** with **GROQ** queries; a lakeside is not a **lake**.'
+    );
+  });
+
+  it('should cut a window around the first hit', () => {
+    const text = `${'lorem ipsum '.repeat(40)}the pricing page ${'dolor sit '.repeat(40)}`;
+    const snippet = highlightSnippet(text, parseSearchQuery('pricing'), 80)!;
+
+    expect(snippet).toMatch(/^….*\*\*pricing\*\*.*…$/);
+    expect(snippet.length).toBeLessThanOrEqual(90);
+    expect(highlightSnippet(text, parseSearchQuery('missing'))).toBeUndefined();
+  });
+});
+
+describe('buildSearchQuery', () => {
+  const groups: SearchGroup[] = [
+    { types: ['product'], config: { fields: { name: 3, sku: 2 }, projection: ['name', 'price'] } },
+    { config: DEFAULT_TYPE_SEARCH },
+  ];
+
+  it('should match every term on each type\'s own fields', () => {
+    const { query, params } = buildSearchQuery(parseSearchQuery('shoe* -kids'), groups, { limit: 10 });
+
+    expect(params).toEqual({ term0: 'shoe*', term1: 'kids' });
+    expect(query).toContain(
+      '(_type in ["product"] && (name match $term0 || sku match $term0) && !(name match $term1 || sku match $term1))'
+    );
+    expect(query).toContain('!(_type in ["product"]) && (title match $term0 ||');
+    expect(query).toContain('boost(_type in ["product"] && name match $term0, 3)');
+    expect(query).toContain('_type in ["product"] => { name, price, "_searchText": [name, sku] }');
+    expect(query).toContain('[0...10]');
+  });
+
+  it('should fetch extra hits when phrases are checked afterwards', () => {
+    const { query, params, fetchLimit } = buildSearchQuery(
+      parseSearchQuery('"red shoe" -"gift card"'),
+      [{ config: { fields: { title: 1 } } }],
+      { types: ['product'], limit: 10 }
+    );
+
+    expect(fetchLimit).toBe(40);
+    expect(params.types).toEqual(['product']);
+    expect(query).toContain('_type in $types && ((title match $term0))');
+    expect(query).not.toContain('$term1)');
+    expect(query).toContain('{ _id, _type, _score, title, name, slug, description, "_searchText": [title] }');
+  });
+});
+
+describe('finishSearchHits', () => {
+  const groups: SearchGroup[] = [{ config: { fields: { title: 3, 'pt::text(body)': 1 } } }];
+
+  it('should check phrases and take the snippet from the best field', () => {
+    const rows = [
+      { _id: 'a', _type: 'post', _score: 4, title: 'Red shoes', _searchText: ['Red shoes', 'A red shoe for winter.'] },
+      { _id: 'b', _type: 'post', _score: 3, title: 'Shoe care', _searchText: ['Shoe care', 'Shoe polish, red or black.'] },
+      { _id: 'c', _type: 'post', _score: 2, title: 'Gift', _searchText: ['Gift', 'A red shoe gift card.'] },
+    ];
+
+    const hits = finishSearchHits(rows, parseSearchQuery('"red shoe" -"gift card"'), groups, 10);
+
+    expect(hits).toEqual([
+      { _id: 'a', _type: 'post', _score: 4, title: 'Red shoes', snippet: 'A **red shoe** for winter.', matchedField: 'pt::text(body)' },
+    ]);
+  });
+
+  it('should stop at the limit', () => {
+    const rows = ['a', 'b', 'c'].map((id) => ({ _id: id, _type: 'post', _score: 1, _searchText: ['groq'] }));
+
+    expect(finishSearchHits(rows, parseSearchQuery('groq'), groups, 2).map((hit) => hit.snippet)).toEqual([
+      '**groq**',
+      '**groq**',
+    ]);
+  });
+});
+
+describe('searchConfigFromSchema', () => {
+  it('should weigh titles, summaries, text and Portable Text fields', () => {
+    const config = searchConfigFromSchema({
+      fields: ['name', 'summary', 'sku', 'slug', 'details', 'price', 'publishedAt'],
+      paths: [
+        { path: 'name', types: ['string'], presence: 1, occurrences: 10 },
+        { path: 'summary', types: ['string'], presence: 0.8, occurrences: 8 },
+        { path: 'sku', types: ['string'], presence: 1, occurrences: 10 },
+        { path: 'slug', types: ['slug'], presence: 1, occurrences: 10 },
+        { path: 'slug.current', types: ['string'], presence: 1, occurrences: 10 },
+        { path: 'details', types: ['array'], presence: 0.5, occurrences: 5, arrayMemberTypes: ['block'] },
+        { path: 'price', types: ['number'], presence: 1, occurrences: 10 },
+        { path: 'publishedAt', types: ['datetime'], presence: 1, occurrences: 10 },
+      ],
+    });
+
+    expect(config).toEqual({
+      fields: { name: 3, summary: 2, sku: 1, 'pt::text(details)': 1 },
+      projection: ['name', 'summary', 'sku', 'slug'],
+    });
+    expect(searchConfigFromSchema({ fields: ['price'], paths: [] })).toBeUndefined();
+  });
+});
+
+describe('assertTypeSearchConfig', () => {
+  it('should reject fields that are not plain paths', () => {
+    expect(() => assertTypeSearchConfig({ fields: { 'seo.title': 2, 'pt::text(body)': 1 } }, 'x')).not.toThrow();
+    expect(() => assertTypeSearchConfig({ fields: { 'title) || true || (x': 1 } }, 'x')).toThrow(
+      'Invalid search field'
+    );
+    expect(() => assertTypeSearchConfig({ fields: { title: 0 } }, 'type "post"')).toThrow(
+      'Invalid boost for search field "title" in type "post"'
+    );
+    expect(() => assertTypeSearchConfig({ fields: {} }, 'the default')).toThrow('need at least one field');
+    expect(() => assertTypeSearchConfig({ fields: { title: 1 }, projection: ['seo.title'] }, 'x')).toThrow(
+      'Invalid projection field "seo.title"'
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the semantic search index
+ */
+
+import { existsSync, mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HashingEmbedder } from '../embeddings';
+import { extractText, makeSnippet, SemanticIndex } from '../semantic-index';
+import { SanityClient } from '../sanity-client';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const block = (text: string) => ({
+  _type: 'block',
+  _key: text.slice(0, 6),
+  style: 'normal',
+  markDefs: [],
+  children: [{ _type: 'span', _key: 's', text, marks: [] }],
+});
+
+const result = (value: unknown) => ({ ok: true, json: async () => ({ result: value }) });
+
+describe('extractText', () => {
+  it('should read the title, strings and Portable Text, skipping identifiers', () => {
+    const text = extractText({
+      _id: 'post-1',
+      _type: 'post',
+      title: 'Spring menu',
+      slug: { _type: 'slug', current: 'spring-menu' },
+      excerpt: 'Seasonal dishes',
+      author: { _type: 'reference', _ref: 'author-1' },
+      website: 'https://example.com',
+      body: [block('Asparagus is back.'), { _type: 'image', _key: 'i1', caption: 'Fresh greens' }, block('So are peas.')],
+    });
+
+    expect(text).toEqual({
+      title: 'Spring menu',
+      passages: ['Seasonal dishes Asparagus is back. So are peas. Fresh greens'],
+    });
+  });
+
+  it('should split long text into passages', () => {
+    const words = Array.from({ length: 300 }, (_, i) => `w${i}`).join(' ');
+    const { passages } = extractText({ body: [block(words)] });
+
+    expect(passages.map((passage) => passage.split(' ').length)).toEqual([120, 120, 60]);
+  });
+});
+
+describe('makeSnippet', () => {
+  it('should center on the first query word and mark cut-off text', () => {
+    const passage = `${'lorem '.repeat(60)}the asparagus season starts in April ${'ipsum '.repeat(60)}`.trim();
+    const snippet = makeSnippet(passage, 'Asparagus', 80);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('asparagus season');
+  });
+});
+
+describe('SemanticIndex', () => {
+  const client = new SanityClient({ projectId: 'proj', dataset: 'production', token: 'token' });
+  const docs = [
+    { _id: 'recipe-1', _type: 'recipe', _updatedAt: '2025-01-01T00:00:00Z', title: 'Vegan brownies', body: [block('Rich chocolate baking without eggs or butter.')] },
+    { _id: 'report-1', _type: 'report', _updatedAt: '2025-01-02T00:00:00Z', title: 'Quarterly earnings', body: [block('Revenue grew for investors this quarter.')] },
+  ];
+
+  beforeEach(() => mockFetch.mockReset());
+
+  it('should index documents, rank by meaning and persist the vectors', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'index', 'proj-production.json');
+    const index = new SemanticIndex(file, new HashingEmbedder());
+    mockFetch.mockResolvedValueOnce(result(docs)).mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+
+    expect(await index.refresh(client)).toEqual({ indexed: 2, removed: 0, total: 2 });
+    const hits = await index.search('baking chocolate dessert');
+
+    expect(hits[0]).toMatchObject({ _id: 'recipe-1', _type: 'recipe', title: 'Vegan brownies' });
+    expect(hits[0].snippet).toBe('Rich chocolate baking without eggs or butter.');
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect((await index.search('quarterly revenue', { types: ['report'] })).map((hit) => hit._id)).toEqual(['report-1']);
+    expect(existsSync(file)).toBe(true);
+
+    const reloaded = new SemanticIndex(file, new HashingEmbedder());
+    expect((await reloaded.search('baking chocolate dessert'))[0]._id).toBe('recipe-1');
+  });
+
+  it('should only fetch changed documents and drop deleted ones', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'proj-production.json');
+    mockFetch.mockResolvedValueOnce(result(docs)).mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+    await new SemanticIndex(file, new HashingEmbedder()).refresh(client);
+
+    const index = new SemanticIndex(file, new HashingEmbedder());
+    mockFetch.mockResolvedValueOnce(result([])).mockResolvedValueOnce(result(['recipe-1']));
+
+    expect(await index.refresh(client)).toEqual({ indexed: 0, removed: 1, total: 1 });
+    const params = new URL(mockFetch.mock.calls[2][0]).searchParams;
+    expect(params.get('$since')).toBe('"2025-01-02T00:00:00Z"');
+    expect(params.get('$lastId')).toBe('"report-1"');
+  });
+
+  it('should start over when the index was built by another embedder', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'proj-production.json');
+    mockFetch.mockResolvedValueOnce(result(docs)).mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+    await new SemanticIndex(file, new HashingEmbedder()).refresh(client);
+
+    mockFetch.mockResolvedValueOnce(result(docs)).mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+    expect(await new SemanticIndex(file, new HashingEmbedder(256)).refresh(client)).toEqual({
+      indexed: 2,
+      removed: 0,
+      total: 2,
+    });
+  });
+
+  it('should look for deleted documents at most once per interval', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'proj-production.json');
+    const index = new SemanticIndex(file, new HashingEmbedder());
+    mockFetch.mockResolvedValueOnce(result(docs)).mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+    await index.refresh(client);
+
+    mockFetch.mockResolvedValueOnce(result([]));
+    expect(await index.refresh(client)).toEqual({ indexed: 0, removed: 0, total: 2 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    const checking = new SemanticIndex(file, new HashingEmbedder(), 0);
+    mockFetch.mockResolvedValueOnce(result([])).mockResolvedValueOnce(result(['recipe-1']));
+    expect(await checking.refresh(client)).toEqual({ indexed: 0, removed: 1, total: 1 });
+  });
+
+  it('should run a rebuild asked for during a refresh after it', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sanity-mcp-')), 'proj-production.json');
+    const index = new SemanticIndex(file, new HashingEmbedder());
+    mockFetch
+      .mockResolvedValueOnce(result(docs.slice(0, 1)))
+      .mockResolvedValueOnce(result(['recipe-1']))
+      .mockResolvedValueOnce(result(docs))
+      .mockResolvedValueOnce(result(['recipe-1', 'report-1']));
+
+    const [refreshed, rebuilt, again] = await Promise.all([
+      index.refresh(client),
+      index.refresh(client, { rebuild: true }),
+      index.refresh(client, { rebuild: true }),
+    ]);
+
+    expect(refreshed).toEqual({ indexed: 1, removed: 0, total: 1 });
+    expect(rebuilt).toEqual({ indexed: 2, removed: 0, total: 2 });
+    expect(again).toBe(rebuilt);
+    expect(new URL(mockFetch.mock.calls[2][0]).searchParams.get('$since')).toBe('""');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for tool access control
+ */
+
+import { isToolEnabled, matchesToolPattern, WRITE_TOOLS } from '../tool-access';
+
+describe('matchesToolPattern', () => {
+  it('should match exact names', () => {
+    expect(matchesToolPattern('sanity_query', 'sanity_query')).toBe(true);
+    expect(matchesToolPattern('sanity_query', 'sanity_count')).toBe(false);
+  });
+
+  it('should match prefix wildcards', () => {
+    expect(matchesToolPattern('sanity_get_document', 'sanity_get_*')).toBe(true);
+    expect(matchesToolPattern('sanity_query', 'sanity_get_*')).toBe(false);
+    expect(matchesToolPattern('anything', '*')).toBe(true);
+  });
+});
+
+describe('isToolEnabled', () => {
+  it('should enable every tool by default', () => {
+    expect(isToolEnabled('sanity_delete')).toBe(true);
+    expect(isToolEnabled('sanity_query', {})).toBe(true);
+  });
+
+  it('should hide write tools in read-only mode', () => {
+    for (const tool of WRITE_TOOLS) {
+      expect(isToolEnabled(tool, { readOnly: true })).toBe(false);
+    }
+    expect(isToolEnabled('sanity_query', { readOnly: true })).toBe(true);
+    expect(isToolEnabled('sanity_export', { readOnly: true })).toBe(false);
+    // Read-only mode is enforced per operation inside the handler
+    expect(isToolEnabled('sanity_release', { readOnly: true })).toBe(true);
+    expect(isToolEnabled('sanity_schedule', { readOnly: true })).toBe(true);
+  });
+
+  it('should only expose allowed tools when an allow list is set', () => {
+    const config = { allow: ['sanity_query', 'sanity_get_*'] };
+
+    expect(isToolEnabled('sanity_query', config)).toBe(true);
+    expect(isToolEnabled('sanity_get_types', config)).toBe(true);
+    expect(isToolEnabled('sanity_search', config)).toBe(false);
+  });
+
+  it('should let the deny list win over the allow list', () => {
+    const config = { allow: ['sanity_*'], deny: ['sanity_delete'] };
+
+    expect(isToolEnabled('sanity_create', config)).toBe(true);
+    expect(isToolEnabled('sanity_delete', config)).toBe(false);
+  });
+
+  it('should keep write tools hidden in read-only mode even if allowed', () => {
+    expect(isToolEnabled('sanity_create', { readOnly: true, allow: ['sanity_create'] })).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Unit tests for payload validation
+ */
+
+import { SanityClient, TypeSchema } from '../sanity-client';
+import { inferSchema } from '../schema-inference';
+import {
+  DocumentValidator,
+  formatIssues,
+  SchemaExport,
+  SchemaExportEntry,
+  validateAgainstInferred,
+  validatePatchAgainstInferred,
+} from '../validation';
+
+const optionalString = { type: 'objectAttribute' as const, value: { type: 'string' as const }, optional: true };
+
+const schemaEntries: SchemaExportEntry[] = [
+  {
+    name: 'post',
+    type: 'document',
+    attributes: {
+      _id: { type: 'objectAttribute', value: { type: 'string' } },
+      _type: { type: 'objectAttribute', value: { type: 'string', value: 'post' } },
+      title: { type: 'objectAttribute', value: { type: 'string' } },
+      views: { type: 'objectAttribute', value: { type: 'number' }, optional: true },
+      author: {
+        type: 'objectAttribute',
+        value: {
+          type: 'object',
+          attributes: {
+            _ref: { type: 'objectAttribute', value: { type: 'string' } },
+            _type: { type: 'objectAttribute', value: { type: 'string', value: 'reference' } },
+          },
+          dereferencesTo: 'author',
+        },
+        optional: true,
+      },
+      body: {
+        type: 'objectAttribute',
+        value: { type: 'array', of: { type: 'inline', name: 'textBlock' } },
+        optional: true,
+      },
+    },
+  },
+  {
+    name: 'textBlock',
+    type: 'type',
+    value: {
+      type: 'object',
+      attributes: {
+        _type: { type: 'objectAttribute', value: { type: 'string', value: 'textBlock' } },
+        text: optionalString,
+      },
+    },
+  },
+];
+
+describe('SchemaExport', () => {
+  const schema = new SchemaExport(schemaEntries);
+
+  it('should accept a valid document', () => {
+    const issues = schema.validateDocument({
+      _type: 'post',
+      title: 'Hello',
+      author: { _type: 'reference', _ref: 'author-1' },
+      body: [{ _type: 'textBlock', _key: 'a', text: 'Hi' }],
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report unknown fields with suggestions and missing required fields', () => {
+    const issues = schema.validateDocument({ _type: 'post', titel: 'Hello' });
+
+    expect(issues).toEqual([
+      { path: 'title', message: 'Required field is missing' },
+      { path: 'titel', message: 'Unknown field "titel" (did you mean "title"?)' },
+    ]);
+  });
+
+  it('should report wrongly shaped references and array items', () => {
+    const issues = schema.validateDocument({
+      _type: 'post',
+      title: 'Hello',
+      author: 'author-1',
+      body: [{ _type: 'textBlock', text: 5 }],
+    });
+
+    expect(issues).toEqual([
+      { path: 'author', message: 'Expected reference, got string' },
+      { path: 'body[0]', message: 'Array item is missing _key' },
+      { path: 'body[0].text', message: 'Expected string, got number' },
+    ]);
+  });
+
+  it('should report unknown document types', () => {
+    expect(schema.validateDocument({ _type: 'pots' })).toEqual([
+      { path: '_type', message: 'Unknown document type "pots" (did you mean "post"?)' },
+    ]);
+  });
+
+  it('should validate patch paths and values', () => {
+    const issues = schema.validatePatch('post', {
+      set: { title: 3, 'body[_key=="a"].text': 'ok' },
+      unset: ['subtitle'],
+      inc: { title: 1 },
+    });
+
+    expect(issues).toEqual([
+      { path: 'title', message: 'Expected string, got number (in set)' },
+      { path: 'subtitle', message: 'Unknown field "subtitle"' },
+      { path: 'title', message: 'inc requires a number field' },
+    ]);
+  });
+
+  it('should validate inserted items and text patches', () => {
+    const issues = schema.validatePatch('post', {
+      insert: { after: 'body[-1]', items: [{ _type: 'textBlock', _key: 'b', text: 1 }] },
+      diffMatchPatch: { views: '@@ -1 +1 @@' },
+    });
+
+    expect(issues).toEqual([
+      { path: 'views', message: 'diffMatchPatch requires a string field' },
+      { path: 'body[_key=="b"].text', message: 'Expected string, got number (in insert)' },
+    ]);
+  });
+});
+
+describe('inferred validation', () => {
+  const inferred: TypeSchema = {
+    ...inferSchema(
+      [
+        {
+          _id: 'post-1',
+          _type: 'post',
+          title: 'Hello',
+          publishedAt: '2024-01-01T00:00:00Z',
+          author: { _type: 'reference', _ref: 'author-1' },
+          tags: [{ _key: 't1', label: 'News' }],
+        },
+      ],
+      { 'author-1': 'author' }
+    ),
+    count: 1,
+    sampled: 1,
+  };
+
+  it('should accept documents matching the inferred shape', () => {
+    const issues = validateAgainstInferred(
+      {
+        _type: 'post',
+        title: 'New',
+        publishedAt: '2024-02-01',
+        author: { _type: 'reference', _ref: 'author-2' },
+        tags: [{ _key: 'x', label: 'Tech' }],
+      },
+      inferred
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report typos, bad references and missing keys', () => {
+    const issues = validateAgainstInferred(
+      {
+        _type: 'post',
+        titel: 'New',
+        author: 'author-2',
+        tags: [{ lable: 'Tech' }],
+      },
+      inferred
+    );
+
+    expect(issues).toEqual([
+      { path: 'titel', message: 'Unknown field "titel" (did you mean "title"?)' },
+      {
+        path: 'author',
+        message: 'Expected a reference like {"_type": "reference", "_ref": "<id>"}, got string',
+      },
+      { path: 'tags[0]', message: 'Array item is missing _key' },
+      { path: 'tags[0].lable', message: 'Unknown field "lable" (did you mean "label"?)' },
+    ]);
+  });
+
+  it('should skip validation when there are no sample documents', () => {
+    expect(validateAgainstInferred({ _type: 'x', anything: 1 }, { fields: [], paths: [], count: 0, sampled: 0 })).toEqual([]);
+  });
+
+  it('should validate patches', () => {
+    const issues = validatePatchAgainstInferred(
+      { set: { title: 5, 'tags[_key=="t1"].lable': 'x' }, unset: ['subtitle'] },
+      inferred
+    );
+
+    expect(issues).toEqual([
+      { path: 'title', message: 'Expected string, got number' },
+      { path: 'tags[_key=="t1"].lable', message: 'Unknown field "lable" (did you mean "label"?)' },
+      { path: 'subtitle', message: 'Unknown field "subtitle"' },
+    ]);
+  });
+
+  it('should validate inserted array items', () => {
+    const issues = validatePatchAgainstInferred(
+      { insert: { before: 'tags[0]', items: [{ _key: 't0', lable: 'x' }] } },
+      inferred
+    );
+
+    expect(issues).toEqual([
+      { path: 'tags[_key=="t0"].lable', message: 'Unknown field "lable" (did you mean "label"?)' },
+    ]);
+  });
+});
+
+describe('DocumentValidator', () => {
+  it('should throw in block mode and return warnings in warn mode', () => {
+    const issues = [{ path: 'titel', message: 'Unknown field "titel"' }];
+
+    expect(() => new DocumentValidator({ mode: 'block' }).enforce(issues)).toThrow(
+      'Validation failed:\n- titel: Unknown field "titel"'
+    );
+    expect(new DocumentValidator({ mode: 'warn' }).enforce(issues)).toEqual(issues);
+    expect(new DocumentValidator({ mode: 'warn' }).enforce([])).toBeUndefined();
+  });
+
+  it('should not query anything when off', async () => {
+    const validator = new DocumentValidator({ mode: 'off' });
+    const client = { query: jest.fn(), getTypeSchema: jest.fn() };
+
+    await expect(
+      validator.validateDocument(client as unknown as SanityClient, { _type: 'post', x: 1 })
+    ).resolves.toEqual([]);
+    expect(client.getTypeSchema).not.toHaveBeenCalled();
+  });
+
+  it('should throw for a missing schema file', () => {
+    expect(() => new DocumentValidator({ mode: 'warn', schemaFile: '/nonexistent/schema.json' })).toThrow(
+      'Schema file not found'
+    );
+  });
+});
+
+describe('formatIssues', () => {
+  it('should format issues as a list', () => {
+    expect(formatIssues([{ path: 'a', message: 'b' }, { path: 'c', message: 'd' }])).toBe('- a: b\n- c: d');
+  });
+});
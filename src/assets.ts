@@ -0,0 +1,160 @@
+/**
+ * Asset helpers
+ * Loads upload payloads from local paths, base64 strings or data URLs and
+ * detects their content type
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { resolveInside } from './paths.js';
+
+export type AssetKind = 'image' | 'file';
+
+export interface AssetPayload {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export interface AssetSource {
+  /** Local file path inside the upload directory */
+  path?: string;
+  /** Base64-encoded content or a data URL */
+  base64?: string;
+  /** Overrides the file name taken from the path */
+  filename?: string;
+  /** Overrides content type detection */
+  contentType?: string;
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const TYPE_EXTENSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSION_TYPES)
+    .filter(([ext]) => !['.jpeg', '.tif'].includes(ext))
+    .map(([ext, type]) => [type, ext])
+);
+
+// Magic numbers for common formats, checked before the file extension
+const SIGNATURES: Array<{ type: string; bytes: number[]; offset?: number }> = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { type: 'image/bmp', bytes: [0x42, 0x4d] },
+  { type: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+/**
+ * Detect a content type from the file's leading bytes, falling back to its extension
+ */
+export function detectContentType(buffer: Buffer, filename?: string): string {
+  for (const { type, bytes, offset = 0 } of SIGNATURES) {
+    if (bytes.every((byte, i) => buffer[offset + i] === byte)) return type;
+  }
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(buffer.subarray(0, 256).toString('utf8'))) {
+    return 'image/svg+xml';
+  }
+  const extension = filename ? extname(filename).toLowerCase() : '';
+  return EXTENSION_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Images become `sanity.imageAsset`s; everything else is a `sanity.fileAsset`
+ */
+export function assetKindForType(contentType: string): AssetKind {
+  return contentType.startsWith('image/') ? 'image' : 'file';
+}
+
+/**
+ * Decode a data URL, or return undefined if the value isn't one
+ */
+export function parseDataUrl(value: string): { buffer: Buffer; contentType?: string } | undefined {
+  const match = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,(.*)$/s.exec(value);
+  if (!match) return undefined;
+  const buffer = match[3]
+    ? Buffer.from(match[4], 'base64')
+    : Buffer.from(decodeURIComponent(match[4]));
+  return { buffer, ...(match[1] && { contentType: match[1] }) };
+}
+
+/**
+ * File name for content without one, based on its content type
+ */
+export function defaultFilename(contentType: string, stem: string = 'upload'): string {
+  return `${stem}${TYPE_EXTENSIONS[contentType] || ''}`;
+}
+
+/**
+ * Load an upload payload from a local path or a base64 string/data URL.
+ * Paths must resolve inside `root`; without a root, only base64 is accepted.
+ */
+export async function loadAssetSource(source: AssetSource, root?: string): Promise<AssetPayload> {
+  if (Boolean(source.path) === Boolean(source.base64)) {
+    throw new Error('Provide either path or base64');
+  }
+  if (source.path && !root) {
+    throw new Error('Uploading from a path is disabled on this server; send the content as base64');
+  }
+
+  let buffer: Buffer;
+  let declaredType = source.contentType;
+  let filename = source.filename;
+
+  if (source.path) {
+    const fullPath = await resolveInside(root as string, source.path);
+    try {
+      buffer = await readFile(fullPath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read ${fullPath}: ${message}`);
+    }
+    filename = filename || basename(fullPath);
+  } else {
+    const dataUrl = parseDataUrl(source.base64 as string);
+    if (dataUrl) {
+      buffer = dataUrl.buffer;
+      declaredType = declaredType || dataUrl.contentType;
+    } else {
+      buffer = Buffer.from((source.base64 as string).replace(/\s+/g, ''), 'base64');
+    }
+  }
+
+  if (!buffer.length) {
+    throw new Error('Asset is empty');
+  }
+
+  const contentType = declaredType || detectContentType(buffer, filename);
+  return { buffer, contentType, filename: filename || defaultFilename(contentType) };
+}
@@ -0,0 +1,312 @@
+/**
+ * Dataset backup
+ * Exports a dataset to NDJSON (optionally with its asset files) and imports
+ * NDJSON exports back in chunked transactions
+ */
+
+import { createReadStream, createWriteStream, existsSync, statSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, isAbsolute, join, relative, resolve } from 'node:path';
+import { once } from 'node:events';
+import { createInterface } from 'node:readline';
+import { BulkOperation, SanityClient, SanityDocument } from './sanity-client.js';
+
+export const DATA_FILE = 'data.ndjson';
+export const ASSETS_FILE = 'assets.json';
+/** Where `sanity_export` and `sanity_import` read and write, next to the config file */
+export const DEFAULT_BACKUP_DIRECTORY = 'backups';
+
+export type ImportMode = 'createOrReplace' | 'createIfNotExists' | 'create';
+
+export interface ExportOptions {
+  /** NDJSON file to write, or a directory when `assets` is set */
+  output: string;
+  /** Only export these document types */
+  types?: string[];
+  /** Include drafts (default: true) */
+  drafts?: boolean;
+  /** Download image/file assets into `images/` and `files/` next to `data.ndjson` */
+  assets?: boolean;
+  onProgress?: (progress: { documents: number; assets: number }) => void;
+}
+
+export interface ExportResult {
+  /** The NDJSON file that was written */
+  file: string;
+  documents: number;
+  assets: number;
+}
+
+/**
+ * Asset metadata stored in `assets.json`, keyed by asset ID
+ */
+export interface ExportedAsset {
+  path: string;
+  originalFilename?: string;
+  mimeType?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+}
+
+export interface ImportOptions {
+  /** NDJSON file, or a directory written by an export with assets */
+  input: string;
+  /** How documents are written (default: createOrReplace) */
+  mode?: ImportMode;
+  /** Documents per transaction (default: 100) */
+  batchSize?: number;
+  /** Re-upload assets listed in `assets.json` (default: true) */
+  assets?: boolean;
+  onProgress?: (progress: { documents: number; batches: number }) => void;
+}
+
+export interface ImportResult {
+  documents: number;
+  batches: number;
+  /** Asset files uploaded from the export */
+  assetsUploaded: number;
+  /** Asset documents in the NDJSON, which are recreated by uploading instead */
+  assetDocumentsSkipped: number;
+  /** References made strong again after all documents were written */
+  referencesRestored: number;
+}
+
+interface AssetDocumentFields extends SanityDocument {
+  url?: string;
+  originalFilename?: string;
+  mimeType?: string;
+  title?: string;
+  description?: string;
+  altText?: string;
+}
+
+const ASSET_TYPES = new Set(['sanity.imageAsset', 'sanity.fileAsset']);
+const ASSET_LOOKUP_CHUNK = 200;
+
+function isAssetId(id: string): boolean {
+  return id.startsWith('image-') || id.startsWith('file-');
+}
+
+/**
+ * Export documents to NDJSON. The export is streamed straight to disk.
+ */
+export async function exportDataset(client: SanityClient, options: ExportOptions): Promise<ExportResult> {
+  const file = options.assets ? join(options.output, DATA_FILE) : options.output;
+  if (options.assets) {
+    await mkdir(options.output, { recursive: true });
+  }
+
+  const out = createWriteStream(file);
+  const assetDocs = new Map<string, AssetDocumentFields>();
+  const referencedAssets = new Set<string>();
+  let documents = 0;
+
+  try {
+    for await (const doc of client.exportDocuments({ types: options.types })) {
+      if (options.drafts === false && doc._id.startsWith('drafts.')) continue;
+
+      if (options.assets) {
+        if (ASSET_TYPES.has(doc._type)) assetDocs.set(doc._id, doc);
+        collectReferences(doc, (ref) => isAssetId(ref) && referencedAssets.add(ref));
+      }
+      if (!out.write(`${JSON.stringify(doc)}\n`)) {
+        await once(out, 'drain');
+      }
+      documents++;
+      options.onProgress?.({ documents, assets: 0 });
+    }
+  } finally {
+    out.end();
+    await once(out, 'close');
+  }
+
+  if (!options.assets) {
+    return { file, documents, assets: 0 };
+  }
+
+  // A type-filtered export doesn't include the asset documents it references
+  const missing = Array.from(referencedAssets).filter((id) => !assetDocs.has(id));
+  for (let i = 0; i < missing.length; i += ASSET_LOOKUP_CHUNK) {
+    const chunk = missing.slice(i, i + ASSET_LOOKUP_CHUNK);
+    const found = await client.query<AssetDocumentFields[]>(`*[_id in $ids]`, { ids: chunk });
+    for (const asset of found.result) assetDocs.set(asset._id, asset);
+  }
+
+  const manifest: Record<string, ExportedAsset> = {};
+  let assets = 0;
+  for (const asset of assetDocs.values()) {
+    if (!asset.url) continue;
+    const folder = asset._type === 'sanity.imageAsset' ? 'images' : 'files';
+    const path = `${folder}/${basename(new URL(asset.url).pathname)}`;
+
+    const response = await fetch(asset.url);
+    if (!response.ok) {
+      throw new Error(`Asset download failed for ${asset._id}: ${response.status}`);
+    }
+    await mkdir(join(options.output, folder), { recursive: true });
+    await writeFile(join(options.output, path), Buffer.from(await response.arrayBuffer()));
+
+    manifest[asset._id] = {
+      path,
+      ...(asset.originalFilename && { originalFilename: asset.originalFilename }),
+      ...(asset.mimeType && { mimeType: asset.mimeType }),
+      ...(asset.title && { title: asset.title }),
+      ...(asset.description && { description: asset.description }),
+      ...(asset.altText && { altText: asset.altText }),
+    };
+    assets++;
+    options.onProgress?.({ documents, assets });
+  }
+  await writeFile(join(options.output, ASSETS_FILE), JSON.stringify(manifest, null, 2));
+
+  return { file, documents, assets };
+}
+
+/**
+ * Import an NDJSON export in chunked transactions.
+ *
+ * Strong references are written as weak references first, so documents can refer
+ * to documents in later chunks, and are made strong again once everything is written.
+ * Assets are re-uploaded from the export folder and references to them are remapped.
+ */
+export async function importDataset(client: SanityClient, options: ImportOptions): Promise<ImportResult> {
+  const mode = options.mode || 'createOrReplace';
+  const batchSize = options.batchSize || 100;
+  const isDirectory = existsSync(options.input) && statSync(options.input).isDirectory();
+  const file = isDirectory ? join(options.input, DATA_FILE) : options.input;
+  if (!existsSync(file)) {
+    throw new Error(`Import file not found: ${file}`);
+  }
+
+  const assetIds = new Map<string, string>();
+  const manifestFile = isDirectory ? join(options.input, ASSETS_FILE) : undefined;
+  if (manifestFile && options.assets !== false && existsSync(manifestFile)) {
+    const manifest = JSON.parse(await readFile(manifestFile, 'utf8')) as Record<string, ExportedAsset>;
+    for (const [id, asset] of Object.entries(manifest)) {
+      // Asset paths come from the manifest, so keep them inside the export folder
+      const assetFile = resolve(options.input, asset.path);
+      const inside = relative(resolve(options.input), assetFile);
+      if (inside.startsWith('..') || isAbsolute(inside)) {
+        throw new Error(`Asset path "${asset.path}" in ${ASSETS_FILE} is outside the export folder`);
+      }
+      const buffer = await readFile(assetFile);
+      const uploaded = await client.uploadAsset(buffer, {
+        kind: id.startsWith('image-') ? 'image' : 'file',
+        filename: asset.originalFilename || basename(asset.path),
+        contentType: asset.mimeType || 'application/octet-stream',
+        title: asset.title,
+        description: asset.description,
+        altText: asset.altText,
+      });
+      assetIds.set(id, uploaded._id);
+    }
+  }
+
+  const result: ImportResult = {
+    documents: 0,
+    batches: 0,
+    assetsUploaded: assetIds.size,
+    assetDocumentsSkipped: 0,
+    referencesRestored: 0,
+  };
+  const weakened: Array<{ id: string; paths: string[] }> = [];
+  let batch: BulkOperation[] = [];
+
+  const flush = async () => {
+    if (!batch.length) return;
+    try {
+      await client.bulkMutate(batch);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Import failed in batch ${result.batches + 1} (after ${result.documents} documents): ${message}`
+      );
+    }
+    result.documents += batch.length;
+    result.batches++;
+    batch = [];
+    options.onProgress?.({ documents: result.documents, batches: result.batches });
+  };
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const doc = JSON.parse(line) as SanityDocument;
+    if (ASSET_TYPES.has(doc._type)) {
+      result.assetDocumentsSkipped++;
+      continue;
+    }
+    // System documents (`_.…`) can't be written through mutations
+    if (doc._id?.startsWith('_.')) continue;
+
+    const { document, paths } = prepareForImport(doc, assetIds);
+    if (paths.length) weakened.push({ id: doc._id, paths });
+    batch.push(
+      mode === 'create'
+        ? { create: document }
+        : mode === 'createIfNotExists'
+          ? { createIfNotExists: document }
+          : { createOrReplace: document }
+    );
+    if (batch.length >= batchSize) await flush();
+  }
+  await flush();
+
+  for (let i = 0; i < weakened.length; i += batchSize) {
+    const chunk = weakened.slice(i, i + batchSize);
+    await client.bulkMutate(chunk.map(({ id, paths }) => ({ patch: { id, unset: paths } })));
+    result.referencesRestored += chunk.reduce((sum, { paths }) => sum + paths.length, 0);
+  }
+
+  return result;
+}
+
+/**
+ * Remap asset references and weaken strong document references.
+ * Returns the copy to write and the `_weak` paths to unset afterwards.
+ */
+export function prepareForImport(
+  doc: SanityDocument,
+  assetIds: Map<string, string>
+): { document: SanityDocument; paths: string[] } {
+  const paths: string[] = [];
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => {
+        const key = item && typeof item === 'object' ? (item as { _key?: unknown })._key : undefined;
+        return visit(item, typeof key === 'string' ? `${path}[_key=="${key}"]` : `${path}[${index}]`);
+      });
+    }
+    if (!value || typeof value !== 'object') return value;
+
+    const obj = value as Record<string, unknown>;
+    if (typeof obj._ref === 'string') {
+      if (isAssetId(obj._ref)) {
+        return { ...obj, _ref: assetIds.get(obj._ref) || obj._ref };
+      }
+      if (obj._weak === true) return obj;
+      paths.push(`${path}._weak`);
+      return { ...obj, _weak: true };
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(obj)) {
+      copy[key] = key.startsWith('_') ? child : visit(child, path ? `${path}.${key}` : key);
+    }
+    return copy;
+  };
+
+  return { document: visit(doc, '') as SanityDocument, paths };
+}
+
+function collectReferences(value: unknown, onRef: (ref: string) => void): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, onRef));
+  } else if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (typeof obj._ref === 'string') onRef(obj._ref);
+    for (const child of Object.values(obj)) collectReferences(child, onRef);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Command line interface
+ * Maintenance commands that run once and exit instead of starting the MCP server
+ */
+
+import { ClientPool, loadConfig } from './config.js';
+import { exportDataset, importDataset, ImportMode } from './backup.js';
+import { canRunScheduledJobs, DEFAULT_SCHEDULE_FILE, runDueJobs, ScheduleStore } from './scheduler.js';
+import { ToolAccessConfig } from './tool-access.js';
+
+const IMPORT_MODES: ImportMode[] = ['createOrReplace', 'createIfNotExists', 'create'];
+
+// Flags that never take a value
+const BOOLEAN_FLAGS = new Set(['assets', 'no-assets', 'no-drafts', 'help']);
+
+const USAGE = `Usage:
+  sanity-mcp                      Start the MCP server (see --http, --port)
+  sanity-mcp export <output> [--types post,author] [--assets] [--no-drafts]
+  sanity-mcp import <input> [--mode createOrReplace|createIfNotExists|create] [--batch-size 100] [--no-assets]
+  sanity-mcp run-due              Run scheduled publish/unpublish jobs that are due (e.g. from cron)
+
+export and import accept --profile <name> and --dataset <name>.
+With --assets, <output> is a directory with data.ndjson, assets.json, images/ and files/.`;
+
+export interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+/**
+ * Split command arguments into positional values and `--flag [value]` pairs
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      flags.set(key, inlineValue);
+    } else if (!BOOLEAN_FLAGS.has(key) && argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags.set(key, argv[++i]);
+    } else {
+      flags.set(key, true);
+    }
+  }
+  return { positional, flags };
+}
+
+/**
+ * Commands handled by `runCli`
+ */
+export function isCliCommand(command: string | undefined): boolean {
+  return command === 'export' || command === 'import' || command === 'run-due' || command === 'help';
+}
+
+function stringFlag(flags: Map<string, string | true>, name: string): string | undefined {
+  const value = flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Run a CLI command and return the process exit code
+ */
+export async function runCli(
+  argv: string[],
+  pool: ClientPool = new ClientPool(loadConfig()),
+  log: (message: string) => void = console.error,
+  store?: ScheduleStore,
+  access?: ToolAccessConfig
+): Promise<number> {
+  const [command, ...rest] = argv;
+  const { positional, flags } = parseArgs(rest);
+  if (command === 'help' || flags.has('help')) {
+    log(USAGE);
+    return 0;
+  }
+
+  if (command === 'run-due') {
+    try {
+      // The server's read-only mode and tool access settings apply here too
+      const config = store && access ? undefined : loadConfig();
+      const jobAccess = access ?? config?.access ?? {};
+      if (!canRunScheduledJobs(jobAccess)) {
+        log('Error: sanity_publish and sanity_unpublish are disabled by the config; no jobs were run');
+        return 1;
+      }
+      const schedule = store || new ScheduleStore(config?.schedule?.file || DEFAULT_SCHEDULE_FILE);
+      const jobs = await runDueJobs(schedule, pool, new Date(), jobAccess);
+      for (const job of jobs) {
+        log(`${job.action} ${job.documentId}: ${job.status}${job.error ? ` (${job.error})` : ''}`);
+      }
+      log(`Ran ${jobs.length} due job(s)`);
+      return jobs.some((job) => job.status === 'failed') ? 1 : 0;
+    } catch (error) {
+      log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      return 1;
+    }
+  }
+
+  const path = positional[0];
+  if (!path) {
+    log(USAGE);
+    return 1;
+  }
+
+  try {
+    const client = pool.getClient({ profile: stringFlag(flags, 'profile'), dataset: stringFlag(flags, 'dataset') });
+    if (command === 'export') {
+      const types = stringFlag(flags, 'types')?.split(',').map((type) => type.trim()).filter(Boolean);
+      const result = await exportDataset(client, {
+        output: path,
+        types,
+        assets: flags.has('assets'),
+        drafts: !flags.has('no-drafts'),
+      });
+      log(`Exported ${result.documents} documents and ${result.assets} assets to ${result.file}`);
+      return 0;
+    }
+
+    const mode = (stringFlag(flags, 'mode') || 'createOrReplace') as ImportMode;
+    if (!IMPORT_MODES.includes(mode)) {
+      throw new Error(`Invalid import mode "${mode}". Use ${IMPORT_MODES.join(', ')}`);
+    }
+    const batchSize = Number(stringFlag(flags, 'batch-size') || 100);
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Invalid batch size: ${stringFlag(flags, 'batch-size')}`);
+    }
+
+    const result = await importDataset(client, {
+      input: path,
+      mode,
+      batchSize,
+      assets: !flags.has('no-assets'),
+      onProgress: ({ documents, batches }) => log(`Batch ${batches}: ${documents} documents written`),
+    });
+    log(
+      `Imported ${result.documents} documents in ${result.batches} transactions ` +
+        `(${result.assetsUploaded} assets uploaded, ${result.referencesRestored} references restored)`
+    );
+    return 0;
+  } catch (error) {
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
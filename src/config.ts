@@ -0,0 +1,384 @@
+/**
+ * Server configuration
+ * Loads named Sanity profiles from a config file (or the environment) and
+ * keeps a pool of clients keyed by profile and dataset
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { SanityClient, SanityConfig, getConfigFromEnv } from './sanity-client.js';
+import { ToolAccessConfig } from './tool-access.js';
+import { ValidationConfig, ValidationMode } from './validation.js';
+import { DEFAULT_SCHEDULE_FILE, ScheduleConfig } from './scheduler.js';
+import { DEFAULT_INDEX_DIRECTORY, SemanticSearchConfig } from './semantic-index.js';
+import { EmbedderConfig } from './embeddings.js';
+import { DEFAULT_BACKUP_DIRECTORY } from './backup.js';
+import { assertTypeSearchConfig, SearchConfig } from './search.js';
+
+export const DEFAULT_CONFIG_FILE = 'sanity-mcp.config.json';
+export const DEFAULT_SCHEMA_FILE = 'schema.json';
+
+/**
+ * A named connection to a Sanity project/dataset
+ */
+export interface SanityProfile extends SanityConfig {
+  /** Optional allowlist of datasets that tools may switch to with the `dataset` argument */
+  datasets?: string[];
+}
+
+export interface ServerConfig {
+  defaultProfile: string;
+  profiles: Record<string, SanityProfile>;
+  access?: ToolAccessConfig;
+  validation?: ValidationConfig;
+  /** Send all writes to `drafts.<id>` instead of the published document */
+  draftFirst?: boolean;
+  schedule?: ScheduleConfig;
+  semanticSearch?: SemanticSearchConfig;
+  search?: SearchConfig;
+  /** Directory `sanity_upload_asset` may read `path` uploads from */
+  uploadDir?: string;
+  /** Hosts `sanity_import_html` may download images from */
+  imageHosts?: string[];
+  /** Directory `sanity_export` writes to and `sanity_import` reads from */
+  backupDir?: string;
+}
+
+/**
+ * Profile as shown to clients, with the token redacted
+ */
+export interface ProfileSummary {
+  name: string;
+  default: boolean;
+  projectId: string;
+  dataset: string;
+  apiVersion: string;
+  useCdn: boolean;
+  token: string | null;
+  datasets?: string[];
+}
+
+/**
+ * Per-call selection of which profile/dataset a tool should run against
+ */
+export interface ClientTarget {
+  profile?: string;
+  dataset?: string;
+}
+
+interface RawProfile {
+  projectId?: string;
+  dataset?: string;
+  apiVersion?: string;
+  token?: string;
+  tokenEnv?: string;
+  useCdn?: boolean;
+  datasets?: string[];
+}
+
+interface RawConfig {
+  defaultProfile?: string;
+  profiles?: Record<string, RawProfile>;
+  readOnly?: boolean;
+  draftFirst?: boolean;
+  tools?: {
+    allow?: string[];
+    deny?: string[];
+  };
+  validation?: {
+    mode?: ValidationMode;
+    schemaFile?: string;
+  };
+  schedule?: {
+    file?: string;
+    interval?: number;
+  };
+  semanticSearch?: {
+    directory?: string;
+    embedder?: EmbedderConfig;
+  };
+  search?: Partial<SearchConfig>;
+  uploadDir?: string;
+  imageHosts?: string[];
+  backupDir?: string;
+}
+
+/**
+ * Load the server configuration.
+ *
+ * Reads the file named by `SANITY_MCP_CONFIG`, or `sanity-mcp.config.json` in the
+ * working directory. Without a config file, a single `default` profile is built
+ * from the `SANITY_*` environment variables.
+ *
+ * `SANITY_READ_ONLY`, `SANITY_TOOLS_ALLOW` and `SANITY_TOOLS_DENY` override the
+ * file's tool access settings; `SANITY_VALIDATION` and `SANITY_SCHEMA_FILE` override
+ * its validation settings; `SANITY_SCHEDULE_FILE` and `SANITY_SCHEDULE_INTERVAL`
+ * override its schedule settings, `SANITY_INDEX_DIR` the semantic index directory,
+ * `SANITY_UPLOAD_DIR` and `SANITY_BACKUP_DIR` the upload and backup directories,
+ * `SANITY_IMAGE_HOSTS` the hosts images may be downloaded from, and
+ * `SANITY_DRAFT_FIRST` overrides `draftFirst`.
+ * A `schema.json` next to the config file is used as the schema export when none
+ * is configured.
+ */
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): ServerConfig {
+  const explicitPath = env.SANITY_MCP_CONFIG;
+  const configPath = resolve(cwd, explicitPath || DEFAULT_CONFIG_FILE);
+
+  if (!existsSync(configPath)) {
+    if (explicitPath) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+    return {
+      defaultProfile: 'default',
+      profiles: { default: getConfigFromEnv(env) },
+      access: parseToolAccess({}, env),
+      validation: parseValidation({}, env, cwd),
+      draftFirst: parseFlag(env.SANITY_DRAFT_FIRST) ?? false,
+      schedule: parseSchedule({}, env, cwd),
+      semanticSearch: parseSemanticSearch({}, env, cwd),
+      search: parseSearch({}),
+      ...parseUploadDir({}, env, cwd),
+      ...parseImageHosts({}, env),
+      backupDir: resolve(cwd, env.SANITY_BACKUP_DIR || DEFAULT_BACKUP_DIRECTORY),
+    };
+  }
+
+  let raw: RawConfig;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf8')) as RawConfig;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${configPath}: ${message}`);
+  }
+
+  return parseConfig(raw, env, dirname(configPath));
+}
+
+/**
+ * Validate a raw config object and resolve token environment references.
+ * Relative file paths are resolved against `baseDir`.
+ */
+export function parseConfig(
+  raw: RawConfig,
+  env: NodeJS.ProcessEnv = process.env,
+  baseDir: string = process.cwd()
+): ServerConfig {
+  const entries = Object.entries(raw.profiles || {});
+  if (entries.length === 0) {
+    throw new Error('Config must define at least one profile');
+  }
+
+  const profiles: Record<string, SanityProfile> = {};
+  for (const [name, profile] of entries) {
+    if (!profile.projectId) {
+      throw new Error(`Profile "${name}" is missing projectId`);
+    }
+
+    const token = profile.tokenEnv ? env[profile.tokenEnv] : profile.token;
+    profiles[name] = {
+      projectId: profile.projectId,
+      dataset: profile.dataset || 'production',
+      apiVersion: profile.apiVersion || '2024-01-20',
+      token,
+      useCdn: profile.useCdn ?? !token,
+      ...(profile.datasets && { datasets: profile.datasets }),
+    };
+  }
+
+  const defaultProfile = raw.defaultProfile || entries[0][0];
+  if (!profiles[defaultProfile]) {
+    throw new Error(`Default profile "${defaultProfile}" is not defined`);
+  }
+
+  return {
+    defaultProfile,
+    profiles,
+    access: parseToolAccess(raw, env),
+    validation: parseValidation(raw, env, baseDir),
+    draftFirst: parseFlag(env.SANITY_DRAFT_FIRST) ?? raw.draftFirst ?? false,
+    schedule: parseSchedule(raw, env, baseDir),
+    semanticSearch: parseSemanticSearch(raw, env, baseDir),
+    search: parseSearch(raw),
+    ...parseUploadDir(raw, env, baseDir),
+    ...parseImageHosts(raw, env),
+    backupDir: resolve(baseDir, env.SANITY_BACKUP_DIR || raw.backupDir || DEFAULT_BACKUP_DIRECTORY),
+  };
+}
+
+/**
+ * Resolve read-only mode and tool allow/deny lists, letting the environment override the file
+ */
+function parseToolAccess(raw: RawConfig, env: NodeJS.ProcessEnv): ToolAccessConfig {
+  return {
+    readOnly: parseFlag(env.SANITY_READ_ONLY) ?? raw.readOnly ?? false,
+    allow: parseList(env.SANITY_TOOLS_ALLOW) ?? raw.tools?.allow ?? [],
+    deny: parseList(env.SANITY_TOOLS_DENY) ?? raw.tools?.deny ?? [],
+  };
+}
+
+/**
+ * Resolve the validation mode and schema export file
+ */
+function parseValidation(raw: RawConfig, env: NodeJS.ProcessEnv, baseDir: string): ValidationConfig {
+  const mode = env.SANITY_VALIDATION || raw.validation?.mode || 'off';
+  if (!['off', 'warn', 'block'].includes(mode)) {
+    throw new Error(`Invalid validation mode "${mode}". Use off, warn or block`);
+  }
+
+  const configured = env.SANITY_SCHEMA_FILE || raw.validation?.schemaFile;
+  const defaultSchema = resolve(baseDir, DEFAULT_SCHEMA_FILE);
+  const schemaFile = configured
+    ? resolve(baseDir, configured)
+    : existsSync(defaultSchema)
+      ? defaultSchema
+      : undefined;
+
+  return { mode: mode as ValidationMode, ...(schemaFile && { schemaFile }) };
+}
+
+/**
+ * Resolve the schedule state file and the in-server scheduler interval
+ */
+function parseSchedule(raw: RawConfig, env: NodeJS.ProcessEnv, baseDir: string): ScheduleConfig {
+  const interval = Number(env.SANITY_SCHEDULE_INTERVAL ?? raw.schedule?.interval ?? 0);
+  if (!Number.isFinite(interval) || interval < 0) {
+    throw new Error(`Invalid schedule interval "${env.SANITY_SCHEDULE_INTERVAL ?? raw.schedule?.interval}"`);
+  }
+  return {
+    file: resolve(baseDir, env.SANITY_SCHEDULE_FILE || raw.schedule?.file || DEFAULT_SCHEDULE_FILE),
+    interval,
+  };
+}
+
+/**
+ * Resolve the semantic index directory and check the embedder settings
+ */
+function parseSemanticSearch(raw: RawConfig, env: NodeJS.ProcessEnv, baseDir: string): SemanticSearchConfig {
+  const embedder = raw.semanticSearch?.embedder;
+  if (embedder && !['hashing', 'openai'].includes(embedder.provider)) {
+    throw new Error(`Invalid embedder provider "${embedder.provider}". Use hashing or openai`);
+  }
+  if (embedder?.provider === 'openai' && !embedder.model) {
+    throw new Error('The openai embedder needs a model');
+  }
+  return {
+    directory: resolve(baseDir, env.SANITY_INDEX_DIR || raw.semanticSearch?.directory || DEFAULT_INDEX_DIRECTORY),
+    ...(embedder && { embedder }),
+  };
+}
+
+/**
+ * Check the per-type search fields, boosts and projections
+ */
+function parseSearch(raw: RawConfig): SearchConfig {
+  const search = raw.search || {};
+  if (search.default) assertTypeSearchConfig(search.default, 'the default');
+  for (const [type, config] of Object.entries(search.types || {})) {
+    assertTypeSearchConfig(config, `type "${type}"`);
+  }
+  return {
+    ...(search.default && { default: search.default }),
+    ...(search.types && { types: search.types }),
+    inferFields: search.inferFields ?? true,
+  };
+}
+
+/**
+ * Resolve the upload directory, if one is configured
+ */
+function parseUploadDir(raw: RawConfig, env: NodeJS.ProcessEnv, baseDir: string): { uploadDir?: string } {
+  const uploadDir = env.SANITY_UPLOAD_DIR || raw.uploadDir;
+  return uploadDir ? { uploadDir: resolve(baseDir, uploadDir) } : {};
+}
+
+/**
+ * Resolve the image host allowlist, if one is configured
+ */
+function parseImageHosts(raw: RawConfig, env: NodeJS.ProcessEnv): { imageHosts?: string[] } {
+  const imageHosts = parseList(env.SANITY_IMAGE_HOSTS) ?? raw.imageHosts;
+  return imageHosts ? { imageHosts } : {};
+}
+
+function parseFlag(value?: string): boolean | undefined {
+  if (value === undefined) return undefined;
+  return ['1', 'true', 'yes'].includes(value.toLowerCase());
+}
+
+function parseList(value?: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Lazily creates and caches one SanityClient per profile/dataset pair
+ */
+export class ClientPool {
+  private clients = new Map<string, SanityClient>();
+
+  constructor(private config: ServerConfig) {}
+
+  get defaultProfile(): string {
+    return this.config.defaultProfile;
+  }
+
+  /**
+   * Resolve the profile and dataset a call should use
+   */
+  resolveTarget(target?: ClientTarget): { profile: string; config: SanityProfile } {
+    const name = target?.profile || this.config.defaultProfile;
+    const profile = this.config.profiles[name];
+    if (!profile) {
+      const available = Object.keys(this.config.profiles).join(', ');
+      throw new Error(`Unknown profile "${name}". Available profiles: ${available}`);
+    }
+
+    const dataset = target?.dataset || profile.dataset;
+    if (dataset !== profile.dataset && profile.datasets && !profile.datasets.includes(dataset)) {
+      throw new Error(`Dataset "${dataset}" is not allowed for profile "${name}"`);
+    }
+
+    return { profile: name, config: { ...profile, dataset } };
+  }
+
+  /**
+   * Get (or create) the client for a profile/dataset
+   */
+  getClient(target?: ClientTarget): SanityClient {
+    const { profile, config } = this.resolveTarget(target);
+    const key = `${profile}/${config.dataset}`;
+
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new SanityClient(config);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Describe the configured profiles without exposing tokens
+   */
+  listProfiles(): ProfileSummary[] {
+    return Object.entries(this.config.profiles).map(([name, profile]) => ({
+      name,
+      default: name === this.config.defaultProfile,
+      projectId: profile.projectId,
+      dataset: profile.dataset,
+      apiVersion: profile.apiVersion || '2024-01-20',
+      useCdn: profile.useCdn ?? !profile.token,
+      token: redactToken(profile.token),
+      ...(profile.datasets && { datasets: profile.datasets }),
+    }));
+  }
+}
+
+/**
+ * Redact a token, keeping only the last four characters for identification
+ */
+export function redactToken(token?: string): string | null {
+  if (!token) return null;
+  return token.length > 8 ? `****${token.slice(-4)}` : '****';
+}
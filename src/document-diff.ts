@@ -0,0 +1,362 @@
+/**
+ * Document diffing
+ * Recursive, path-level diff between two documents. Array items are matched by
+ * `_key`, changed strings (including Portable Text span text) get a word-level
+ * diff, and changes can be rendered as RFC 6902 JSON Patch, a unified view or
+ * Sanity patches.
+ */
+
+import { portableTextToMarkdown } from './portable-text.js';
+
+export type DiffOp = 'add' | 'remove' | 'replace';
+
+export type DiffFormat = 'changes' | 'jsonPatch' | 'unified';
+
+export interface TextSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface DiffChange {
+  op: DiffOp;
+  /** Sanity patch path, e.g. `body[_key=="abc"].children[_key=="s1"].text` */
+  path: string;
+  /** JSON Pointer (RFC 6901) valid when the changes are applied in order */
+  pointer: string;
+  before?: unknown;
+  after?: unknown;
+  /** Word-level diff when a string changed */
+  text?: TextSegment[];
+  /** Where an added array item goes, relative to an item that exists by then */
+  position?: { before: string } | { after: string };
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * A Sanity patch without the document ID. Only one `insert` fits in a patch,
+ * so each insert gets a patch of its own.
+ */
+export interface SanityPatch {
+  set?: Record<string, unknown>;
+  unset?: string[];
+  insert?: { before?: string; after?: string; items: unknown[] };
+}
+
+export interface DiffPatchPlan {
+  /** The document the patches are applied to */
+  target: string;
+  /** The selected changes */
+  changes: DiffChange[];
+  patches: SanityPatch[];
+  /** Requested paths that matched no change */
+  unmatchedPaths: string[];
+  /** Revision guard for the first patch */
+  ifRevisionID?: string;
+}
+
+export interface DiffOptions {
+  /** Skip `_id`, `_rev`, `_createdAt` and `_updatedAt` on the document itself (default: true) */
+  ignoreSystemFields?: boolean;
+}
+
+export const SYSTEM_FIELDS = ['_id', '_rev', '_createdAt', '_updatedAt'];
+
+// Longer strings are reported as a plain replace; the word diff is quadratic
+const MAX_TEXT_DIFF_CELLS = 250_000;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Diff two documents. Changes are ordered so that applying them in sequence
+ * turns `a` into `b`: within an array, removals come first (last index first),
+ * then additions, then changes inside the remaining items.
+ *
+ * Keyed arrays whose common items were reordered are reported as one replace
+ * of the whole array.
+ */
+export function diffDocuments(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  options: DiffOptions = {}
+): DiffChange[] {
+  const changes: DiffChange[] = [];
+  const ignore = new Set(options.ignoreSystemFields === false ? [] : SYSTEM_FIELDS);
+  diffObjects(a, b, '', '', changes, ignore);
+  return changes;
+}
+
+function fieldPath(path: string, key: string): string {
+  if (!IDENTIFIER.test(key)) return `${path}[${JSON.stringify(key)}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function fieldPointer(pointer: string, key: string | number): string {
+  return `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural equality for JSON values, ignoring object key order
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqual(item, b[i]))
+    );
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+  const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every((key) => isEqual(a[key], b[key]));
+}
+
+function diffValues(a: unknown, b: unknown, path: string, pointer: string, changes: DiffChange[]): void {
+  if (isEqual(a, b)) return;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    diffArrays(a, b, path, pointer, changes);
+  } else if (isObject(a) && isObject(b)) {
+    diffObjects(a, b, path, pointer, changes, new Set());
+  } else if (typeof a === 'string' && typeof b === 'string') {
+    const text = diffText(a, b);
+    changes.push({ op: 'replace', path, pointer, before: a, after: b, ...(text && { text }) });
+  } else {
+    changes.push({ op: 'replace', path, pointer, before: a, after: b });
+  }
+}
+
+function diffObjects(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  path: string,
+  pointer: string,
+  changes: DiffChange[],
+  ignore: Set<string>
+): void {
+  for (const [key, before] of Object.entries(a)) {
+    if (ignore.has(key) || before === undefined) continue;
+    if (b[key] === undefined) {
+      changes.push({ op: 'remove', path: fieldPath(path, key), pointer: fieldPointer(pointer, key), before });
+    } else {
+      diffValues(before, b[key], fieldPath(path, key), fieldPointer(pointer, key), changes);
+    }
+  }
+  for (const [key, after] of Object.entries(b)) {
+    if (ignore.has(key) || after === undefined || a[key] !== undefined) continue;
+    changes.push({ op: 'add', path: fieldPath(path, key), pointer: fieldPointer(pointer, key), after });
+  }
+}
+
+/**
+ * The `_key`s of an array, or undefined unless every item has a unique one
+ */
+function itemKeys(items: unknown[]): string[] | undefined {
+  const keys = items.map((item) => (isObject(item) && typeof item._key === 'string' ? item._key : undefined));
+  if (keys.some((key) => key === undefined)) return undefined;
+  return new Set(keys).size === keys.length ? (keys as string[]) : undefined;
+}
+
+function diffArrays(a: unknown[], b: unknown[], path: string, pointer: string, changes: DiffChange[]): void {
+  const keysA = itemKeys(a);
+  const keysB = itemKeys(b);
+
+  if (!keysA || !keysB) {
+    const common = Math.min(a.length, b.length);
+    for (let i = 0; i < common; i++) {
+      diffValues(a[i], b[i], `${path}[${i}]`, fieldPointer(pointer, i), changes);
+    }
+    for (let i = a.length - 1; i >= common; i--) {
+      changes.push({ op: 'remove', path: `${path}[${i}]`, pointer: fieldPointer(pointer, i), before: a[i] });
+    }
+    for (let i = common; i < b.length; i++) {
+      changes.push({
+        op: 'add',
+        path: `${path}[${i}]`,
+        pointer: fieldPointer(pointer, i),
+        after: b[i],
+        position: { after: `${path}[${i > 0 ? i - 1 : -1}]` },
+      });
+    }
+    return;
+  }
+
+  const inA = new Set(keysA);
+  const inB = new Set(keysB);
+  const keptOrderA = keysA.filter((key) => inB.has(key));
+  const keptOrderB = keysB.filter((key) => inA.has(key));
+  if (keptOrderA.some((key, i) => key !== keptOrderB[i])) {
+    changes.push({ op: 'replace', path, pointer, before: a, after: b });
+    return;
+  }
+
+  const itemPath = (key: string) => `${path}[_key==${JSON.stringify(key)}]`;
+  for (let i = a.length - 1; i >= 0; i--) {
+    if (inB.has(keysA[i])) continue;
+    changes.push({ op: 'remove', path: itemPath(keysA[i]), pointer: fieldPointer(pointer, i), before: a[i] });
+  }
+  for (let i = 0; i < b.length; i++) {
+    if (inA.has(keysB[i])) continue;
+    // Anchor on the previous item, which is either kept or was added just before
+    const position =
+      i > 0
+        ? { after: itemPath(keysB[i - 1]) }
+        : keptOrderB.length
+          ? { before: `${path}[0]` }
+          : { after: `${path}[-1]` };
+    changes.push({ op: 'add', path: itemPath(keysB[i]), pointer: fieldPointer(pointer, i), after: b[i], position });
+  }
+  for (let i = 0; i < b.length; i++) {
+    if (!inA.has(keysB[i])) continue;
+    diffValues(a[keysA.indexOf(keysB[i])], b[i], itemPath(keysB[i]), fieldPointer(pointer, i), changes);
+  }
+}
+
+/**
+ * Word-level diff of two strings (whitespace runs are tokens of their own).
+ * Returns undefined when the strings are too long to diff.
+ */
+export function diffText(a: string, b: string): TextSegment[] | undefined {
+  const tokensA = a.split(/(\s+)/).filter(Boolean);
+  const tokensB = b.split(/(\s+)/).filter(Boolean);
+  if (tokensA.length * tokensB.length > MAX_TEXT_DIFF_CELLS) return undefined;
+
+  // lengths[i][j] = longest common subsequence of tokensA[i..] and tokensB[j..]
+  const lengths = Array.from({ length: tokensA.length + 1 }, () => new Array<number>(tokensB.length + 1).fill(0));
+  for (let i = tokensA.length - 1; i >= 0; i--) {
+    for (let j = tokensB.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        tokensA[i] === tokensB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (op: TextSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += text;
+    else segments.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < tokensA.length && j < tokensB.length) {
+    if (tokensA[i] === tokensB[j]) {
+      push('equal', tokensA[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('delete', tokensA[i++]);
+    } else {
+      push('insert', tokensB[j++]);
+    }
+  }
+  while (i < tokensA.length) push('delete', tokensA[i++]);
+  while (j < tokensB.length) push('insert', tokensB[j++]);
+  return segments;
+}
+
+/**
+ * Convert changes to an RFC 6902 JSON Patch
+ */
+export function toJsonPatch(changes: DiffChange[]): JsonPatchOperation[] {
+  return changes.map((change) =>
+    change.op === 'remove'
+      ? { op: 'remove', path: change.pointer }
+      : { op: change.op, path: change.pointer, value: change.after }
+  );
+}
+
+/**
+ * Check whether a change is at or below one of the selected paths
+ */
+function isSelected(change: DiffChange, path: string): boolean {
+  return (
+    change.path === path ||
+    change.path.startsWith(`${path}.`) ||
+    change.path.startsWith(`${path}[`)
+  );
+}
+
+/**
+ * Keep only the changes at or below the given paths. Paths that match no change
+ * are returned as `unmatched`.
+ */
+export function selectChanges(
+  changes: DiffChange[],
+  paths: string[]
+): { changes: DiffChange[]; unmatched: string[] } {
+  return {
+    changes: changes.filter((change) => paths.some((path) => isSelected(change, path))),
+    unmatched: paths.filter((path) => !changes.some((change) => isSelected(change, path))),
+  };
+}
+
+/**
+ * Convert changes to Sanity patches, to be applied in order in one transaction:
+ * first a patch with all `set`s and `unset`s, then one patch per run of inserted
+ * array items
+ */
+export function toSanityPatches(changes: DiffChange[]): SanityPatch[] {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+  const inserts: Array<{ last: string; insert: NonNullable<SanityPatch['insert']> }> = [];
+
+  for (const change of changes) {
+    if (change.op === 'remove') {
+      unset.push(change.path);
+    } else if (change.op === 'add' && change.position) {
+      const previous = inserts[inserts.length - 1];
+      if (previous && 'after' in change.position && change.position.after === previous.last) {
+        previous.insert.items.push(change.after);
+        previous.last = change.path;
+      } else {
+        inserts.push({ last: change.path, insert: { ...change.position, items: [change.after] } });
+      }
+    } else {
+      set[change.path] = change.after;
+    }
+  }
+
+  const patches: SanityPatch[] = [];
+  if (Object.keys(set).length || unset.length) {
+    patches.push({ ...(Object.keys(set).length && { set }), ...(unset.length && { unset }) });
+  }
+  return patches.concat(inserts.map(({ insert }) => ({ insert })));
+}
+
+function isBlock(value: unknown): boolean {
+  return isObject(value) && value._type === 'block' && Array.isArray(value.children);
+}
+
+/**
+ * Render a value for the unified view: strings as text, Portable Text as Markdown
+ */
+function renderValue(value: unknown): string[] {
+  if (typeof value === 'string') return value.split('\n');
+  if (isBlock(value) || (Array.isArray(value) && value.length > 0 && value.every(isBlock))) {
+    return portableTextToMarkdown(Array.isArray(value) ? value : [value]).split('\n');
+  }
+  return (JSON.stringify(value, null, 2) ?? 'undefined').split('\n');
+}
+
+/**
+ * Render changes as a unified, human-readable diff
+ */
+export function formatUnified(changes: DiffChange[], labels: { a: string; b: string } = { a: 'a', b: 'b' }): string {
+  const lines = [`--- ${labels.a}`, `+++ ${labels.b}`];
+  for (const change of changes) {
+    lines.push(`@@ ${change.path || '(document)'} @@`);
+    if (change.op !== 'add') lines.push(...renderValue(change.before).map((line) => `- ${line}`));
+    if (change.op !== 'remove') lines.push(...renderValue(change.after).map((line) => `+ ${line}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,181 @@
+/**
+ * Text embeddings
+ * Turns text into vectors for semantic search. The built-in hashing embedder
+ * needs no model or network; an OpenAI-compatible HTTP endpoint can be used instead.
+ */
+
+export interface Embedder {
+  /** Identifies the model; an index built with another embedder is rebuilt */
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export type EmbedderConfig =
+  | { provider: 'hashing'; dimensions?: number }
+  | {
+      provider: 'openai';
+      model: string;
+      /** Embeddings endpoint (default: https://api.openai.com/v1/embeddings) */
+      url?: string;
+      /** Environment variable holding the API key (default: OPENAI_API_KEY) */
+      apiKeyEnv?: string;
+    };
+
+const DEFAULT_DIMENSIONS = 512;
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const OPENAI_BATCH_SIZE = 64;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by for from has have he her his i in is it its of on or our she that the their ' +
+    'them they this to was we were what when where which who will with you your'
+  ).split(' ')
+);
+
+/**
+ * Lowercase words without diacritics or punctuation
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Strip common English inflections so "publishing", "published" and "publishes" match
+ */
+export function stem(word: string): string {
+  for (const suffix of ['ations', 'ation', 'ings', 'ing', 'edly', 'ed', 'ies', 'es', 'ly', 's']) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Dependency-free embedder using feature hashing. Word stems, word pairs and
+ * character trigrams are hashed into a fixed number of dimensions, so texts that
+ * share vocabulary (including inflections and partial words) end up close together.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private dimensions: number = DEFAULT_DIMENSIONS) {
+    this.id = `hashing-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => this.vector(text));
+  }
+
+  private vector(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    const words = tokenize(text).filter((word) => !STOPWORDS.has(word)).map(stem);
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    });
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      // Sublinear term frequency; the top bit picks the sign to keep collisions unbiased
+      vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embedder for OpenAI-compatible `/embeddings` endpoints
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(
+    private model: string,
+    private apiKey: string | undefined,
+    private url: string = OPENAI_EMBEDDINGS_URL
+  ) {
+    this.id = `openai-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({ model: this.model, input: texts.slice(i, i + OPENAI_BATCH_SIZE) }),
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Embedding request failed: ${response.status} - ${error}`);
+      }
+      const body = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+      const batch = [...body.data].sort((a, b) => a.index - b.index);
+      vectors.push(...batch.map((item) => normalize(Float32Array.from(item.embedding))));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Create the configured embedder (default: hashing)
+ */
+export function createEmbedder(
+  config: EmbedderConfig = { provider: 'hashing' },
+  env: NodeJS.ProcessEnv = process.env
+): Embedder {
+  if (config.provider === 'openai') {
+    if (!config.model) {
+      throw new Error('The openai embedder needs a model');
+    }
+    return new OpenAIEmbedder(config.model, env[config.apiKeyEnv || 'OPENAI_API_KEY'], config.url);
+  }
+  if (config.provider !== 'hashing') {
+    throw new Error(`Unknown embedder "${(config as { provider: string }).provider}". Use hashing or openai`);
+  }
+  return new HashingEmbedder(config.dimensions);
+}
+
+/**
+ * Scale a vector to unit length, so a dot product is the cosine similarity
+ */
+export function normalize(vector: Float32Array): Float32Array {
+  let sum = 0;
+  for (const value of vector) sum += value * value;
+  const length = Math.sqrt(sum);
+  if (length > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= length;
+  }
+  return vector;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+}
@@ -0,0 +1,504 @@
+/**
+ * HTML → Portable Text conversion
+ * Parses HTML without external dependencies and maps block tags to styles,
+ * inline tags to decorators, links to annotations, lists, code blocks and images
+ */
+
+import {
+  generateKey,
+  imageAssetIdFromUrl,
+  PortableTextBlock,
+  PortableTextItem,
+  PortableTextMarkDef,
+  PortableTextSpan,
+  sameMarks,
+} from './portable-text.js';
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+export interface HtmlToPortableTextOptions {
+  /** Generates `_key` values (default: random 12-character hex) */
+  keyGenerator?: () => string;
+  /** Block tags mapped to block styles, merged over the defaults (e.g. `{ h1: 'h2' }`) */
+  styles?: Record<string, string>;
+  /** Inline tags mapped to decorator marks, merged over the defaults (e.g. `{ mark: 'highlight' }`) */
+  decorators?: Record<string, string>;
+  /** Tags to drop together with their content, in addition to the defaults */
+  ignore?: string[];
+  /** Base URL for resolving relative link and image URLs */
+  baseUrl?: string;
+}
+
+/**
+ * An image found in the HTML that is not yet a Sanity asset.
+ * Its block in `blocks` has no `asset` until the image is uploaded.
+ */
+export interface PendingImage {
+  key: string;
+  src: string;
+  alt?: string;
+}
+
+export interface HtmlToPortableTextResult {
+  blocks: PortableTextItem[];
+  images: PendingImage[];
+}
+
+export const DEFAULT_BLOCK_STYLES: Record<string, string> = {
+  p: 'normal',
+  h1: 'h1',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h4',
+  h5: 'h5',
+  h6: 'h6',
+  blockquote: 'blockquote',
+};
+
+export const DEFAULT_DECORATORS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  code: 'code',
+  s: 'strike-through',
+  strike: 'strike-through',
+  del: 'strike-through',
+  u: 'underline',
+};
+
+const DEFAULT_IGNORED = ['head', 'script', 'style', 'noscript', 'template', 'iframe', 'object', 'svg', 'form'];
+
+const SAFE_LINK_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Opening one of these closes an open element of the same group, as browsers do
+const AUTO_CLOSE: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  middot: '·',
+  bull: '•',
+  times: '×',
+  euro: '€',
+};
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parse HTML into a lenient element tree. Unclosed elements are closed at the end
+ * of their parent; stray closing tags are ignored.
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: '#root', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    if (match.index > lastIndex) {
+      current().children.push(decodeEntities(html.slice(lastIndex, match.index)));
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const [token, rawTag, rawAttributes = ''] = match;
+    if (!rawTag) continue; // comment, doctype or CDATA
+
+    const tag = rawTag.toLowerCase();
+    if (token.startsWith('</')) {
+      const index = findOpen(stack, [tag]);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const closes = AUTO_CLOSE[tag];
+    if (closes) {
+      // A new list item or cell never closes one of an enclosing list or table
+      const index = findOpen(stack, closes, ['ul', 'ol', 'table', 'div', 'blockquote']);
+      if (index > 0) stack.length = index;
+    }
+
+    const element: HtmlElement = { tag, attributes: parseAttributes(rawAttributes), children: [] };
+    current().children.push(element);
+
+    if (tag === 'script' || tag === 'style') {
+      // Raw text elements: skip to the matching closing tag
+      const end = html.toLowerCase().indexOf(`</${tag}`, lastIndex);
+      const close = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      element.children.push(html.slice(lastIndex, end === -1 ? html.length : end));
+      tagPattern.lastIndex = lastIndex = close;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !token.endsWith('/>')) {
+      stack.push(element);
+    }
+  }
+
+  if (lastIndex < html.length) {
+    current().children.push(decodeEntities(html.slice(lastIndex)));
+  }
+  return root.children;
+}
+
+/**
+ * Index of the innermost open element with one of the given tags, or -1.
+ * The search stops at any of the `boundaries` tags.
+ */
+function findOpen(stack: HtmlElement[], tags: string[], boundaries: string[] = []): number {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (tags.includes(stack[i].tag)) return i;
+    if (boundaries.includes(stack[i].tag)) return -1;
+  }
+  return -1;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+interface Context {
+  style?: string;
+  listItem?: 'bullet' | 'number';
+  level: number;
+  marks: string[];
+  pre: boolean;
+}
+
+/**
+ * Convert HTML to Portable Text blocks.
+ *
+ * Images that already live in Sanity become image blocks with an asset reference.
+ * Other images become image blocks without an asset and are listed in `images`,
+ * so the caller can upload them (see `SanityClient.importHtml`).
+ */
+export function htmlToPortableText(
+  html: string,
+  options: HtmlToPortableTextOptions = {}
+): HtmlToPortableTextResult {
+  const key = options.keyGenerator || generateKey;
+  const styles = { ...DEFAULT_BLOCK_STYLES, ...options.styles };
+  const decorators = { ...DEFAULT_DECORATORS, ...options.decorators };
+  const ignored = new Set([...DEFAULT_IGNORED, ...(options.ignore || [])]);
+  const blocks: PortableTextItem[] = [];
+  const images: PendingImage[] = [];
+  let block: PortableTextBlock | undefined;
+
+  const resolveUrl = (url: string) => {
+    if (!options.baseUrl) return url;
+    try {
+      return new URL(url, options.baseUrl).toString();
+    } catch {
+      return url;
+    }
+  };
+
+  const startBlock = (context: Context) => {
+    flush();
+    block = {
+      _type: 'block',
+      _key: key(),
+      style: context.style || 'normal',
+      markDefs: [],
+      children: [],
+    };
+    if (context.listItem) {
+      block.listItem = context.listItem;
+      block.level = context.level;
+    }
+    return block;
+  };
+
+  const flush = () => {
+    if (!block) return;
+    const finished = block;
+    block = undefined;
+    trimSpans(finished.children);
+    if (!finished.children.length) return;
+    // Keep only annotations that are still used after trimming
+    const used = new Set(finished.children.flatMap((span) => span.marks));
+    finished.markDefs = finished.markDefs.filter((def) => used.has(def._key));
+    blocks.push(finished);
+  };
+
+  const pushText = (text: string, context: Context) => {
+    const value = context.pre ? text : text.replace(/\s+/g, ' ');
+    if (!value) return;
+    const target = block || startBlock(context);
+    const last = target.children[target.children.length - 1];
+    if (last && sameMarks(last.marks, context.marks)) {
+      last.text += value;
+    } else {
+      target.children.push({ _type: 'span', _key: key(), text: value, marks: context.marks });
+    }
+  };
+
+  const pushImage = (element: HtmlElement, context: Context, caption?: string) => {
+    const src = element.attributes.src;
+    if (!src) return;
+    // Text after the image continues in a new block with the same style
+    const resume = block !== undefined;
+    flush();
+
+    const alt = element.attributes.alt || undefined;
+    const assetId = imageAssetIdFromUrl(src);
+    const image: PortableTextItem = {
+      _type: 'image',
+      _key: key(),
+      ...(assetId && { asset: { _type: 'reference', _ref: assetId } }),
+      ...(alt && { alt }),
+      ...(caption && { caption }),
+    };
+    blocks.push(image);
+    if (!assetId) {
+      images.push({ key: image._key, src: resolveUrl(src), ...(alt && { alt }) });
+    }
+    if (resume) startBlock(context);
+  };
+
+  const walk = (nodes: HtmlNode[], context: Context) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        // Whitespace between blocks is not content
+        if (block || node.trim()) pushText(node, context);
+        continue;
+      }
+
+      const { tag } = node;
+      if (ignored.has(tag)) continue;
+
+      if (tag === 'br') {
+        if (block) pushText('\n', { ...context, pre: true });
+        continue;
+      }
+
+      if (tag === 'hr') {
+        // Horizontal rules have no Portable Text equivalent
+        flush();
+        continue;
+      }
+
+      if (tag === 'img') {
+        pushImage(node, context);
+        continue;
+      }
+
+      if (tag === 'figure') {
+        const img = findElement(node.children, 'img');
+        const figcaption = findElement(node.children, 'figcaption');
+        if (img) {
+          pushImage(img, context, figcaption ? normalizeText(textContent(figcaption)) : undefined);
+          flush();
+          continue;
+        }
+      }
+
+      if (tag === 'pre') {
+        flush();
+        const codeElement = findElement(node.children, 'code');
+        const language = /(?:^|\s)(?:language|lang)-([\w+-]+)/.exec(
+          codeElement?.attributes.class || node.attributes.class || ''
+        )?.[1];
+        blocks.push({
+          _type: 'code',
+          _key: key(),
+          code: textContent(node).replace(/^\n/, '').replace(/\n$/, ''),
+          ...(language && { language }),
+        });
+        continue;
+      }
+
+      if (tag === 'ul' || tag === 'ol') {
+        flush();
+        const listItem = tag === 'ol' ? 'number' : 'bullet';
+        const level = context.listItem ? context.level + 1 : 1;
+        for (const child of node.children) {
+          if (typeof child === 'string') continue;
+          const itemContext: Context = { ...context, style: undefined, listItem, level, marks: [] };
+          if (child.tag === 'li') {
+            startBlock(itemContext);
+            walk(child.children, itemContext);
+            flush();
+          } else {
+            walk([child], itemContext);
+          }
+        }
+        continue;
+      }
+
+      if (tag in decorators) {
+        walk(node.children, { ...context, marks: [...context.marks, decorators[tag]] });
+        continue;
+      }
+
+      if (tag === 'a' && node.attributes.href && isSafeHref(node.attributes.href)) {
+        const markDef: PortableTextMarkDef = { _type: 'link', _key: key(), href: resolveUrl(node.attributes.href) };
+        if (!block) startBlock(context);
+        (block as PortableTextBlock).markDefs.push(markDef);
+        walk(node.children, { ...context, marks: [...context.marks, markDef._key] });
+        continue;
+      }
+
+      if (tag in styles) {
+        // Paragraphs inside quotes and list items keep the surrounding style
+        const style = styles[tag] === 'normal' && context.style ? context.style : styles[tag];
+        const blockContext: Context = { ...context, style, marks: [] };
+        if (context.listItem && block) {
+          // A paragraph in a list item continues the item
+          walk(node.children, blockContext);
+          continue;
+        }
+        startBlock(blockContext);
+        walk(node.children, blockContext);
+        flush();
+        continue;
+      }
+
+      if (isBlockContainer(tag)) {
+        flush();
+        walk(node.children, context);
+        flush();
+        continue;
+      }
+
+      // Unknown inline elements (span, abbr, …) contribute their content
+      walk(node.children, context);
+    }
+  };
+
+  walk(parseHtml(html), { level: 1, marks: [], pre: false });
+  flush();
+  return { blocks, images };
+}
+
+/**
+ * Replace image blocks that could not be uploaded with a link to the original image
+ */
+export function imageToLinkBlock(image: PendingImage, keyGenerator: () => string = generateKey): PortableTextBlock {
+  const linkKey = keyGenerator();
+  return {
+    _type: 'block',
+    _key: image.key,
+    style: 'normal',
+    markDefs: [{ _type: 'link', _key: linkKey, href: image.src }],
+    children: [{ _type: 'span', _key: keyGenerator(), text: image.alt || image.src, marks: [linkKey] }],
+  };
+}
+
+const BLOCK_CONTAINERS = new Set([
+  'html', 'body', 'main', 'article', 'section', 'header', 'footer', 'aside', 'nav', 'div',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'dl', 'dt', 'dd', 'figure', 'figcaption',
+  'details', 'summary', 'address', 'li',
+]);
+
+function isBlockContainer(tag: string): boolean {
+  return BLOCK_CONTAINERS.has(tag);
+}
+
+function findElement(nodes: HtmlNode[], tag: string): HtmlElement | undefined {
+  for (const node of nodes) {
+    if (typeof node === 'string') continue;
+    if (node.tag === tag) return node;
+    const nested = findElement(node.children, tag);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a link target is relative or uses http(s), mailto or tel. Links to
+ * anything else (`javascript:`, `data:` and the like) keep their text but lose
+ * the annotation.
+ */
+function isSafeHref(href: string): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(href.replace(/[\u0000-\u0020]/g, ''));
+  return !scheme || SAFE_LINK_SCHEMES.has(scheme[1].toLowerCase());
+}
+
+/**
+ * Trim whitespace at the start and end of a block, dropping spans that become empty
+ */
+function trimSpans(spans: PortableTextSpan[]): void {
+  // Collapse the space between adjacent spans when both sides have one
+  for (let i = 1; i < spans.length; i++) {
+    if (/ $/.test(spans[i - 1].text) && spans[i].text.startsWith(' ')) {
+      spans[i].text = spans[i].text.slice(1);
+    }
+  }
+  while (spans.length && !spans[0].text.replace(/^[ \t\n\r]+/, '')) spans.shift();
+  if (spans.length) spans[0].text = spans[0].text.replace(/^[ \t\n\r]+/, '');
+  while (spans.length && !spans[spans.length - 1].text.replace(/[ \t\n\r]+$/, '')) spans.pop();
+  if (spans.length) {
+    const last = spans[spans.length - 1];
+    last.text = last.text.replace(/[ \t\n\r]+$/, '');
+  }
+  for (let i = spans.length - 1; i >= 0; i--) {
+    if (!spans[i].text) spans.splice(i, 1);
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * HTTP transport for the Sanity MCP server
+ * Serves MCP over Streamable HTTP (with the legacy SSE transport as a fallback)
+ * so a single shared instance can handle many concurrent client sessions
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  authToken?: string;
+  /** Close Streamable HTTP sessions after this long without a request (default: 30 minutes) */
+  sessionTimeoutMs?: number;
+  /** Refuse new sessions while this many are open (default: 100) */
+  maxSessions?: number;
+}
+
+export interface TransportConfig {
+  mode: 'stdio' | 'http';
+  http: HttpTransportConfig;
+}
+
+export interface HttpServerHandle {
+  host: string;
+  port: number;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Resolve the transport mode from CLI flags, falling back to environment variables.
+ * Supports `--http`, `--transport=<stdio|http>`, `--host <host>` and `--port <port>`;
+ * session limits come from `MCP_SESSION_TIMEOUT` (seconds) and `MCP_MAX_SESSIONS`.
+ */
+export function resolveTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      flags.set(key, inlineValue);
+    } else if (argv[i + 1] && !argv[i + 1].startsWith('--') && key !== 'http') {
+      flags.set(key, argv[++i]);
+    } else {
+      flags.set(key, true);
+    }
+  }
+
+  let mode: TransportConfig['mode'] = env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio';
+  if (flags.get('http') === true) mode = 'http';
+  const transportFlag = flags.get('transport');
+  if (transportFlag === 'http' || transportFlag === 'stdio') mode = transportFlag;
+
+  const hostFlag = flags.get('host');
+  const portFlag = flags.get('port');
+  const host = typeof hostFlag === 'string' ? hostFlag : env.MCP_HTTP_HOST || '127.0.0.1';
+  const portValue = typeof portFlag === 'string' ? portFlag : env.MCP_HTTP_PORT || '3000';
+  const port = Number(portValue);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portValue}`);
+  }
+
+  const sessionTimeout = parsePositiveInteger(env.MCP_SESSION_TIMEOUT, 'MCP_SESSION_TIMEOUT');
+  const maxSessions = parsePositiveInteger(env.MCP_MAX_SESSIONS, 'MCP_MAX_SESSIONS');
+
+  return {
+    mode,
+    http: {
+      host,
+      port,
+      authToken: env.MCP_AUTH_TOKEN || undefined,
+      sessionTimeoutMs: sessionTimeout === undefined ? undefined : sessionTimeout * 1000,
+      maxSessions,
+    },
+  };
+}
+
+/**
+ * Start an HTTP server exposing MCP on `/mcp` (Streamable HTTP) and
+ * `/sse` + `/messages` (legacy SSE). Each client session gets its own
+ * MCP `Server` instance from the factory; Streamable HTTP sessions are closed
+ * once idle for `sessionTimeoutMs`, and new sessions are refused at `maxSessions`.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  config: HttpTransportConfig
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const sessionTimeoutMs = config.sessionTimeoutMs ?? DEFAULT_SESSION_TIMEOUT_MS;
+  const maxSessions = config.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  /**
+   * (Re)start a Streamable HTTP session's idle timer. SSE sessions end with
+   * their connection, so they don't need one.
+   */
+  function touch(session: Session): void {
+    if (!(session.transport instanceof StreamableHTTPServerTransport)) return;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      session.server.close().catch(() => undefined);
+    }, sessionTimeoutMs);
+    session.idleTimer.unref();
+  }
+
+  function removeSession(id: string): void {
+    clearTimeout(sessions.get(id)?.idleTimer);
+    sessions.delete(id);
+  }
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      return;
+    }
+
+    if (!isAuthorized(req, config.authToken)) {
+      res.writeHead(401, {
+        'Content-Type': 'application/json',
+        'WWW-Authenticate': 'Bearer',
+      });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      await handleStreamableRequest(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSseConnect(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    } else {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+    }
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) return;
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, 'Session uses the SSE transport; post to /messages instead');
+        return;
+      }
+      touch(session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad request: no valid session ID provided');
+      return;
+    }
+    if (sessions.size >= maxSessions) {
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions; try again later');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server };
+        sessions.set(id, session);
+        touch(session);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) removeSession(transport.sessionId);
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A request that failed or never initialized a session leaves nothing to keep open
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close().catch(() => undefined);
+      }
+    }
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    if (sessions.size >= maxSessions) {
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions; try again later');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, server });
+    res.on('close', () => {
+      removeSession(transport.sessionId);
+      server.close().catch(() => undefined);
+    });
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      removeSession(transport.sessionId);
+      await server.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await readJsonBody(req, res);
+    if (body === INVALID_BODY) return;
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : config.port;
+
+  return {
+    host: config.host,
+    port,
+    sessionCount: () => sessions.size,
+    async close() {
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.allSettled(
+        open.map(async ({ transport, server, idleTimer }) => {
+          clearTimeout(idleTimer);
+          await transport.close();
+          await server.close();
+        })
+      );
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+function parsePositiveInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Check the bearer token on a request. When no token is configured, all requests are allowed.
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) return true;
+
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(authToken);
+  const provided = Buffer.from(match[1].trim());
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+const INVALID_BODY = Symbol('invalid-body');
+
+/**
+ * Read and parse a JSON request body, responding with an error if it is too large or malformed
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<unknown | typeof INVALID_BODY> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendJsonRpcError(res, 413, -32600, 'Request body too large');
+      return INVALID_BODY;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (size === 0) return undefined;
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+    return INVALID_BODY;
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -4,21 +4,215 @@
  * Provides tools for querying and managing Sanity CMS content via MCP protocol
  */
 
+import { existsSync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { resolve } from 'node:path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { SanityClient, createClientFromEnv, SanityDocument, BulkOperation } from './sanity-client.js';
+import {
+  AssetCleanupProgress,
+  BulkOperation,
+  MAX_SCHEMA_SAMPLE_SIZE,
+  MutationResult,
+  Perspective,
+  RevisionConflictError,
+  SanityClient,
+  SanityDocument,
+  UnusedAssetFilter,
+} from './sanity-client.js';
+import { ClientPool, ClientTarget, loadConfig } from './config.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { PROMPTS, getPrompt } from './prompts.js';
+import { ToolAccessConfig, isToolEnabled } from './tool-access.js';
+import { DocumentValidator, ValidationIssue } from './validation.js';
+import { convertMarkdownFields, renderPortableTextFields } from './portable-text.js';
+import { AssetKind, AssetSource, assetKindForType, loadAssetSource } from './assets.js';
+import { DeleteStrategy } from './safe-delete.js';
+import { assertValidPatch, PatchOperations, pickPatchOperations } from './patch-operations.js';
+import { DiffChange, diffDocuments, DiffFormat, formatUnified, toJsonPatch } from './document-diff.js';
+import { DEFAULT_BACKUP_DIRECTORY, exportDataset, importDataset, ImportMode } from './backup.js';
+import { resolveInside } from './paths.js';
+import { isCliCommand, runCli } from './cli.js';
+import { ReleaseType } from './releases.js';
+import { createEmbedder, Embedder } from './embeddings.js';
+import { DEFAULT_INDEX_DIRECTORY, SemanticIndex } from './semantic-index.js';
+import { SearchConfig } from './search.js';
+import {
+  canRunScheduledJobs,
+  DEFAULT_SCHEDULE_FILE,
+  JobStatus,
+  ScheduleAction,
+  ScheduleStore,
+  startScheduler,
+} from './scheduler.js';
+import { resolveTransportConfig, startHttpServer, TransportConfig } from './http-server.js';
+
+// Arguments accepted by every dataset-bound tool to pick a configured profile/dataset
+const TARGET_PROPERTIES = {
+  profile: {
+    type: 'string',
+    description: 'Optional: Named profile from the server config (see sanity_list_profiles). Defaults to the default profile.',
+  },
+  dataset: {
+    type: 'string',
+    description: "Optional: Dataset to use instead of the profile's default dataset",
+  },
+};
+
+// Tools that don't talk to a specific dataset
+const TARGETLESS_TOOLS = new Set(['sanity_list_profiles']);
+
+/**
+ * Add the optional profile/dataset arguments to a tool's input schema
+ */
+function withTargetProperties(tool: Tool): Tool {
+  if (TARGETLESS_TOOLS.has(tool.name)) return tool;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        ...TARGET_PROPERTIES,
+      },
+    },
+  };
+}
+
+type ContentFormat = 'json' | 'markdown';
+
+interface ReleaseArgs {
+  operation: 'create' | 'list' | 'add' | 'remove' | 'contents' | 'publish' | 'archive';
+  releaseId?: string;
+  title?: string;
+  description?: string;
+  releaseType?: ReleaseType;
+  intendedPublishAt?: string;
+  id?: string;
+  document?: Record<string, unknown>;
+  all?: boolean;
+}
+
+interface PatchArgs extends PatchOperations {
+  id: string;
+  steps?: PatchOperations[];
+  format?: ContentFormat;
+  markdownFields?: string[];
+  ifRevision?: string;
+}
+
+interface UnusedAssetsArgs extends Omit<UnusedAssetFilter, 'kind'> {
+  assetType?: AssetKind | 'all';
+  cleanup?: boolean;
+  batchSize?: number;
+}
+
+interface UploadAssetArgs extends AssetSource {
+  assetType?: AssetKind;
+  title?: string;
+  description?: string;
+  alt?: string;
+  source?: { name: string; id?: string; url?: string };
+  documentId?: string;
+  field?: string;
+}
+
+// Rich text field assumed when format is "markdown" and no fields are named
+const DEFAULT_MARKDOWN_FIELDS = ['body'];
+
+const MAX_QUERY_PAGE_SIZE = 500;
+// Stop sanity_query before an MCP client gives up on the call
+const QUERY_TIMEOUT_MS = 60_000;
+
+/**
+ * Convert Markdown fields to Portable Text when a write tool is called with format "markdown"
+ */
+function fromMarkdown(
+  values: Record<string, unknown>,
+  options: { format?: ContentFormat; markdownFields?: string[] }
+): Record<string, unknown> {
+  if (options.format !== 'markdown') return values;
+  const fields = options.markdownFields?.length ? options.markdownFields : DEFAULT_MARKDOWN_FIELDS;
+  return convertMarkdownFields(values, fields);
+}
+
+/**
+ * Response fields for a write made in draft-first mode
+ */
+function draftNotice(result: MutationResult, verb: 'created' | 'updated' = 'updated'): Record<string, unknown> {
+  if (!result.drafts) return {};
+  const { ids, seededFromPublished } = result.drafts;
+  const publishedIds = ids.map((id) => id.replace(/^drafts\./, ''));
+  return {
+    drafts: ids,
+    ...(seededFromPublished.length && { seededFromPublished }),
+    message:
+      publishedIds.length === 1
+        ? `Draft ${verb}; publish with sanity_publish (id: "${publishedIds[0]}")`
+        : `Drafts ${verb}; publish with sanity_publish (ids: ${publishedIds.map((id) => `"${id}"`).join(', ')})`,
+  };
+}
+
+// Patch operations, shared by the top level of sanity_patch and its steps
+const PATCH_OPERATION_PROPERTIES = {
+  set: {
+    type: 'object',
+    description: 'Paths to set, e.g. {"title": "New", "items[_key==\\"x\\"].title": "Renamed"}',
+    additionalProperties: true,
+  },
+  setIfMissing: {
+    type: 'object',
+    description: 'Paths to set only if they have no value yet, e.g. {"tags": []} before appending',
+    additionalProperties: true,
+  },
+  unset: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Paths to remove, e.g. ["subtitle", "tags[_key==\\"old\\"]"]',
+  },
+  inc: {
+    type: 'object',
+    description: 'Numeric fields to increment',
+    additionalProperties: { type: 'number' },
+  },
+  dec: {
+    type: 'object',
+    description: 'Numeric fields to decrement',
+    additionalProperties: { type: 'number' },
+  },
+  insert: {
+    type: 'object',
+    description: 'Insert array items relative to an existing item, e.g. {"after": "tags[-1]", "items": [...]} to append',
+    properties: {
+      before: { type: 'string' },
+      after: { type: 'string' },
+      replace: { type: 'string' },
+      items: { type: 'array', items: {} },
+    },
+    required: ['items'],
+  },
+  diffMatchPatch: {
+    type: 'object',
+    description: 'Text patches in diff-match-patch format, keyed by path of a string field',
+    additionalProperties: { type: 'string' },
+  },
+};
 
-// Tool definitions
-const TOOLS: Tool[] = [
+const TOOL_DEFINITIONS: Tool[] = [
   {
     name: 'sanity_query',
     description:
-      'Execute a GROQ query against Sanity CMS. GROQ is a query language similar to GraphQL but designed for JSON documents. Examples: `*[_type == "post"]` gets all posts, `*[_type == "post" && slug.current == "my-post"][0]` gets a specific post.',
+      'Execute a GROQ query against Sanity CMS. GROQ is a query language similar to GraphQL but designed for JSON documents. Examples: `*[_type == "post"]` gets all posts, `*[_type == "post" && slug.current == "my-post"][0]` gets a specific post. Array results come back a page at a time with a `nextCursor`; pass it as `cursor` with the same query to get the next page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -31,6 +225,19 @@ const TOOLS: Tool[] = [
           description: 'Optional parameters for the query (referenced as $paramName in query)',
           additionalProperties: true,
         },
+        perspective: {
+          oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+          description:
+            'Read perspective: "raw", "published", "drafts", or a release ID to preview content as it will be after that release is published (several release IDs stack, first wins)',
+        },
+        pageSize: {
+          type: 'number',
+          description: `Items per page for array results (default: 100, max: ${MAX_QUERY_PAGE_SIZE})`,
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page of the same query',
+        },
       },
       required: ['query'],
     },
@@ -45,13 +252,24 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'The document ID (e.g., "post-123" or a Sanity-generated ID)',
         },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown'],
+          description: 'Set to "markdown" to render Portable Text fields as Markdown (default: json)',
+        },
+        markdownFields: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Fields to render when format is "markdown" (default: every Portable Text field)',
+        },
       },
       required: ['id'],
     },
   },
   {
     name: 'sanity_list_documents',
-    description: 'List documents of a specific type with pagination',
+    description:
+      'List documents of a specific type a page at a time. Pass the returned `nextCursor` as `cursor` to get the next page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -63,13 +281,17 @@ const TOOLS: Tool[] = [
           type: 'number',
           description: 'Maximum number of documents to return (default: 20, max: 100)',
         },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page',
+        },
         offset: {
           type: 'number',
-          description: 'Number of documents to skip (for pagination)',
+          description: 'Deprecated, use cursor. Number of documents to skip before the first page; cannot be combined with cursor',
         },
         order: {
           type: 'string',
-          description: 'Order clause (e.g., "_createdAt desc", "title asc")',
+          description: 'Order clause (e.g., "_createdAt desc", "title asc"; default: "_createdAt desc"). Kept by the cursor.',
         },
       },
       required: ['type'],
@@ -77,13 +299,14 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'sanity_search',
-    description: 'Search for documents using full-text search across titles, names, descriptions, and body content',
+    description:
+      'Full-text search ranked by field weights. Supports "exact phrases", prefix* and -excluded terms; other words must match whole words. Fields are configured per type, or inferred from the schema of the types you name. Hits include a snippet with the matches in **bold**.',
     inputSchema: {
       type: 'object',
       properties: {
         searchTerm: {
           type: 'string',
-          description: 'The search term',
+          description: 'Search terms, e.g. `"content lake" groq* -draft`',
         },
         types: {
           type: 'array',
@@ -98,6 +321,38 @@ const TOOLS: Tool[] = [
       required: ['searchTerm'],
     },
   },
+  {
+    name: 'sanity_semantic_search',
+    description:
+      'Search published documents by meaning rather than exact words, using a local vector index. Returns ranked documents with the best-matching passage. The index is refreshed incrementally (changed documents only) before searching.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What to look for, in natural language',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: Limit search to specific document types',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results (default: 10)',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Sync the index with the dataset first (default: true)',
+        },
+        rebuild: {
+          type: 'boolean',
+          description: 'Re-embed every document instead of only changed ones',
+        },
+      },
+      required: ['query'],
+    },
+  },
   {
     name: 'sanity_get_types',
     description: 'Get all document types in the Sanity dataset',
@@ -108,7 +363,8 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'sanity_get_type_info',
-    description: 'Get information about a document type including field names and document count',
+    description:
+      'Infer the schema of a document type by sampling its documents. Returns every field path (including nested objects and array members) with its types, presence ratio, array member types, referenced document types and example values, plus the document count. Use this before creating or patching documents.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -116,6 +372,16 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'The document type to get info for',
         },
+        sampleSize: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_SCHEMA_SAMPLE_SIZE,
+          description: `Number of most recently updated documents to sample (default: 100, max: ${MAX_SCHEMA_SAMPLE_SIZE})`,
+        },
+        all: {
+          type: 'boolean',
+          description: 'If true, sample every document of the type (paged; slower on large types)',
+        },
       },
       required: ['type'],
     },
@@ -159,6 +425,16 @@ const TOOLS: Tool[] = [
           description: 'The document data (all fields except _type and _id)',
           additionalProperties: true,
         },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown'],
+          description: 'Set to "markdown" to send rich text fields as Markdown; they are converted to Portable Text (default: json)',
+        },
+        markdownFields: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Fields given as Markdown when format is "markdown" (default: ["body"])',
+        },
       },
       required: ['_type', 'document'],
     },
@@ -178,13 +454,18 @@ const TOOLS: Tool[] = [
           description: 'The complete document data (will replace existing)',
           additionalProperties: true,
         },
+        ifRevision: {
+          type: 'string',
+          description: 'Only write if the document is still at this _rev; fails with a revision conflict if someone changed it since',
+        },
       },
       required: ['id', 'document'],
     },
   },
   {
     name: 'sanity_patch',
-    description: 'Partially update a document. Requires write token.',
+    description:
+      'Partially update a document. Paths can reach into nested objects and arrays, e.g. items[_key=="x"].title or tags[-1]. Use insert to add array items and steps for several patches applied in order. Requires write token.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -192,25 +473,29 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'The document ID to patch',
         },
-        set: {
-          type: 'object',
-          description: 'Fields to set or update',
-          additionalProperties: true,
+        ...PATCH_OPERATION_PROPERTIES,
+        steps: {
+          type: 'array',
+          description: 'Several patches applied in order, in one transaction. Each step takes the same operations (set, setIfMissing, unset, inc, dec, insert, diffMatchPatch); operations given at the top level run first.',
+          items: {
+            type: 'object',
+            properties: PATCH_OPERATION_PROPERTIES,
+            additionalProperties: false,
+          },
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown'],
+          description: 'Set to "markdown" to set rich text fields from Markdown; they are converted to Portable Text (default: json)',
         },
-        unset: {
+        markdownFields: {
           type: 'array',
           items: { type: 'string' },
-          description: 'Field names to remove',
+          description: 'Fields given as Markdown when format is "markdown" (default: ["body"])',
         },
-        inc: {
-          type: 'object',
-          description: 'Numeric fields to increment',
-          additionalProperties: { type: 'number' },
-        },
-        dec: {
-          type: 'object',
-          description: 'Numeric fields to decrement',
-          additionalProperties: { type: 'number' },
+        ifRevision: {
+          type: 'string',
+          description: 'Only patch if the document is still at this _rev; fails with a revision conflict if someone changed it since',
         },
       },
       required: ['id'],
@@ -218,7 +503,8 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'sanity_delete',
-    description: 'Delete a document. Requires write token.',
+    description:
+      'Delete a document and its draft/published twin, checking references first. By default the delete is refused if anything references the document; "unlink" removes those references and "cascade" deletes the referencing documents, all in one transaction. Use dryRun to preview. Requires write token.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -226,13 +512,26 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'The document ID to delete',
         },
+        strategy: {
+          type: 'string',
+          enum: ['refuse', 'unlink', 'cascade'],
+          description: 'What to do about references: refuse (default), unlink (remove the references) or cascade (delete referencing documents too)',
+        },
+        includeDraft: {
+          type: 'boolean',
+          description: 'Also delete the draft/published twin of the document (default: true)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the plan (references, dependents, mutations) without deleting anything',
+        },
       },
       required: ['id'],
     },
   },
   {
     name: 'sanity_publish',
-    description: 'Publish a draft document (moves from drafts.* to published). Requires write token.',
+    description: 'Publish drafts with the Actions API, keeping the published _createdAt. Several IDs are published atomically. Refuses drafts that reference unpublished documents, and fails if a draft changes while publishing. Requires write token.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -240,13 +539,29 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'The draft document ID (with or without "drafts." prefix)',
         },
+        ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Publish several documents in one transaction: all or none are published',
+        },
+        ifRevision: {
+          type: 'string',
+          description: 'Only publish if the draft is at this _rev, e.g. the revision you reviewed (single id only)',
+        },
+        skipReferenceCheck: {
+          type: 'boolean',
+          description: 'Publish even if a draft strongly references documents that are not published',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only report what would be published and any references to unpublished documents',
+        },
       },
-      required: ['id'],
     },
   },
   {
     name: 'sanity_unpublish',
-    description: 'Unpublish a document (moves to drafts.*). Requires write token.',
+    description: 'Unpublish a document with the Actions API. The published version becomes the draft unless a draft already exists. Requires write token.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -258,6 +573,24 @@ const TOOLS: Tool[] = [
       required: ['id'],
     },
   },
+  {
+    name: 'sanity_discard_draft',
+    description: 'Throw away the draft of a document, keeping the published version. Requires write token.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'The document ID (with or without "drafts." prefix)',
+        },
+        ifRevision: {
+          type: 'string',
+          description: 'Only discard if the draft is at this _rev',
+        },
+      },
+      required: ['id'],
+    },
+  },
   // Unique tools not in Sanity's official MCP
   {
     name: 'sanity_references',
@@ -295,9 +628,66 @@ const TOOLS: Tool[] = [
       required: ['id'],
     },
   },
+  {
+    name: 'sanity_get_revision',
+    description: 'Get a document exactly as it was at a revision or point in time, optionally with the changes made since then.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'The document ID',
+        },
+        revision: {
+          type: 'string',
+          description: 'Revision ID (_rev) from sanity_history',
+        },
+        time: {
+          type: 'string',
+          description: 'ISO timestamp, e.g. "2024-05-14T09:00:00Z"',
+        },
+        diff: {
+          type: 'boolean',
+          description: 'Include the changes from that version to the current document',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'sanity_restore',
+    description: 'Restore a document to an earlier revision or point in time. Writes the old content to the draft (default) or the published document with createOrReplace.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'The document ID',
+        },
+        revision: {
+          type: 'string',
+          description: 'Revision ID (_rev) to restore',
+        },
+        time: {
+          type: 'string',
+          description: 'ISO timestamp to restore the document as it was then',
+        },
+        target: {
+          type: 'string',
+          enum: ['draft', 'published'],
+          description: 'Write to the draft for review (default) or straight to the published document',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Show what would change without writing',
+        },
+      },
+      required: ['id'],
+    },
+  },
   {
     name: 'sanity_diff',
-    description: 'Compare two documents and see what fields differ. Useful for comparing draft vs published or two versions.',
+    description: 'Compare two documents and see exactly what changed, path by path. Array items are matched by _key and changed text (including Portable Text) is diffed word by word. Useful for comparing draft vs published or two versions.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -309,10 +699,50 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'Second document ID',
         },
+        format: {
+          type: 'string',
+          enum: ['changes', 'jsonPatch', 'unified'],
+          description: 'changes: structured list with paths and text diffs (default), jsonPatch: RFC 6902 operations turning A into B, unified: human-readable view',
+        },
+        ignoreSystemFields: {
+          type: 'boolean',
+          description: 'Skip _id, _rev, _createdAt and _updatedAt (default: true)',
+        },
       },
       required: ['idA', 'idB'],
     },
   },
+  {
+    name: 'sanity_apply_diff',
+    description: 'Apply the differences between two documents to a target as a minimal patch (set/unset/insert), optionally only for selected paths. Use it to publish individual fields from a draft, or to sync shared fields between documents.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Document the diff starts from, e.g. "post-x"',
+        },
+        to: {
+          type: 'string',
+          description: 'Document with the wanted values, e.g. "drafts.post-x"',
+        },
+        target: {
+          type: 'string',
+          description: 'Document to patch (default: from)',
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only apply changes at or below these paths, as reported by sanity_diff (e.g. ["title", "body[_key==\"abc\"]"])',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the patch without applying it',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
   {
     name: 'sanity_bulk',
     description: 'Execute multiple operations in a single atomic transaction. All succeed or all fail together.',
@@ -324,7 +754,7 @@ const TOOLS: Tool[] = [
           description: 'Array of operations: create, createOrReplace, patch, or delete',
           items: {
             type: 'object',
-            description: 'One of: {create: doc}, {createOrReplace: doc}, {patch: {id, set?, unset?}}, {delete: {id}}',
+            description: 'One of: {create: doc}, {createOrReplace: doc}, {patch: {id, set?, setIfMissing?, unset?, inc?, dec?, insert?, diffMatchPatch?, ifRevision?}}, {delete: {id}}',
           },
         },
         dryRun: {
@@ -349,117 +779,626 @@ const TOOLS: Tool[] = [
       required: ['id'],
     },
   },
-];
-
-class SanityMCPServer {
-  private server: Server;
-  private client: SanityClient;
-
-  constructor() {
-    this.client = createClientFromEnv();
-    this.server = new Server(
-      {
-        name: 'sanity-mcp',
-        version: '1.0.0',
+  {
+    name: 'sanity_schedule',
+    description: 'Schedule a document to be published or unpublished at a given time, list scheduled jobs with their outcome, or cancel a pending job. Jobs run through sanity_publish/sanity_unpublish. create and cancel are refused in read-only mode.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['create', 'list', 'cancel'],
+          description: 'create a job, list jobs, or cancel a pending job',
+        },
+        action: {
+          type: 'string',
+          enum: ['publish', 'unpublish'],
+          description: 'What to do at the scheduled time (create)',
+        },
+        id: {
+          type: 'string',
+          description: 'The document ID (create; filters list)',
+        },
+        at: {
+          type: 'string',
+          description: 'When to run, as ISO 8601 with a time zone, e.g. "2025-03-03T09:00:00+01:00" (create)',
+        },
+        jobId: {
+          type: 'string',
+          description: 'The job to cancel (cancel)',
+        },
+        status: {
+          type: 'string',
+          enum: ['pending', 'running', 'done', 'failed', 'cancelled'],
+          description: 'Only list jobs with this status (list)',
+        },
       },
-      {
-        capabilities: {
-          tools: {},
+      required: ['operation'],
+    },
+  },
+  {
+    name: 'sanity_release',
+    description: 'Manage Content Releases: create a release, add or remove documents (as versions.<releaseId>.<id>), list releases, show a release\'s documents with diffs against published, and publish or archive a release atomically. Preview a release with sanity_query perspective. Operations other than list and contents require a write token and are refused in read-only mode.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['create', 'list', 'add', 'remove', 'contents', 'publish', 'archive'],
+          description: 'What to do',
         },
-      }
-    );
-
-    this.setupHandlers();
-  }
-
-  private setupHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS,
-    }));
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'sanity_query':
-            return await this.handleQuery(args as { query: string; params?: Record<string, unknown> });
-
-          case 'sanity_get_document':
-            return await this.handleGetDocument(args as { id: string });
-
-          case 'sanity_list_documents':
-            return await this.handleListDocuments(
-              args as { type: string; limit?: number; offset?: number; order?: string }
-            );
-
-          case 'sanity_search':
-            return await this.handleSearch(
+        releaseId: {
+          type: 'string',
+          description: 'The release (all operations except list; optional for create, generated when omitted)',
+        },
+        title: {
+          type: 'string',
+          description: 'Release title (create)',
+        },
+        description: {
+          type: 'string',
+          description: 'Release description (create)',
+        },
+        releaseType: {
+          type: 'string',
+          enum: ['asap', 'scheduled', 'undecided'],
+          description: 'When the release is meant to go out (create, default: undecided)',
+        },
+        intendedPublishAt: {
+          type: 'string',
+          description: 'ISO 8601 time for a scheduled release (create)',
+        },
+        id: {
+          type: 'string',
+          description: 'Document ID to add or remove',
+        },
+        document: {
+          type: 'object',
+          description: 'Content for the version (add). Defaults to a copy of the draft, or of the published document',
+          additionalProperties: true,
+        },
+        all: {
+          type: 'boolean',
+          description: 'Include archived and published releases (list)',
+        },
+      },
+      required: ['operation'],
+    },
+  },
+  {
+    name: 'sanity_upload_asset',
+    description:
+      'Upload an image or file asset from a local path or base64/data URL. Detects the content type, sets title/description/alt/source metadata, and can attach the asset to a document field in the same call. Requires write token.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Local file path inside the server upload directory (uploadDir, or the working directory over stdio; disabled over HTTP without uploadDir). Use either path or base64.',
+        },
+        base64: {
+          type: 'string',
+          description: 'Base64-encoded content or a data URL (e.g. "data:image/png;base64,..."). Use either path or base64.',
+        },
+        filename: {
+          type: 'string',
+          description: 'Optional: File name to store (default: the path\'s file name)',
+        },
+        contentType: {
+          type: 'string',
+          description: 'Optional: MIME type (default: detected from the content or file name)',
+        },
+        assetType: {
+          type: 'string',
+          enum: ['image', 'file'],
+          description: 'Optional: Upload as sanity.imageAsset or sanity.fileAsset (default: image for image/* content, file otherwise)',
+        },
+        title: {
+          type: 'string',
+          description: 'Optional: Asset title',
+        },
+        description: {
+          type: 'string',
+          description: 'Optional: Asset description',
+        },
+        alt: {
+          type: 'string',
+          description: 'Optional: Alt text for images, stored on the asset and on the attached image field',
+        },
+        source: {
+          type: 'object',
+          description: 'Optional: Where the asset came from',
+          properties: {
+            name: { type: 'string', description: 'Source name, e.g. "unsplash"' },
+            id: { type: 'string', description: 'ID of the asset at the source' },
+            url: { type: 'string', description: 'URL of the asset at the source' },
+          },
+          required: ['name'],
+        },
+        documentId: {
+          type: 'string',
+          description: 'Optional: Document to attach the asset to (requires field)',
+        },
+        field: {
+          type: 'string',
+          description: 'Optional: Field to set to the image/file reference, e.g. "mainImage" or "seo.ogImage"',
+        },
+      },
+    },
+  },
+  {
+    name: 'sanity_unused_assets',
+    description:
+      'Find image/file assets that no document references, with total bytes. Filter by MIME type, size, age and filename. With cleanup: true, deletes them in batches, re-checking references right before each batch (requires write token).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        assetType: {
+          type: 'string',
+          enum: ['image', 'file', 'all'],
+          description: 'Asset kind to look for (default: all)',
+        },
+        mimeType: {
+          type: 'string',
+          description: 'Optional: Exact MIME type or wildcard, e.g. "image/png" or "image/*"',
+        },
+        minSize: {
+          type: 'number',
+          description: 'Optional: Minimum size in bytes',
+        },
+        maxSize: {
+          type: 'number',
+          description: 'Optional: Maximum size in bytes',
+        },
+        olderThanDays: {
+          type: 'number',
+          description: 'Optional: Only assets uploaded more than this many days ago',
+        },
+        filename: {
+          type: 'string',
+          description: 'Optional: Filename substring, or a glob like "import-*.jpg" (case-insensitive)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of assets to find (default: 100, max: 5000)',
+        },
+        cleanup: {
+          type: 'boolean',
+          description: 'Delete the unused assets that were found (default: false)',
+        },
+        batchSize: {
+          type: 'number',
+          description: 'Assets deleted per transaction during cleanup (default: 50, max: 200)',
+        },
+      },
+    },
+  },
+  {
+    name: 'sanity_import_html',
+    description:
+      'Convert HTML (e.g. an imported article) into Portable Text blocks: headings, paragraphs, quotes, lists, marks, links, code blocks and images. Embedded images are uploaded as Sanity assets. Optionally writes the result into a document field. Requires write token to upload images or write.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        html: {
+          type: 'string',
+          description: 'The HTML to convert',
+        },
+        id: {
+          type: 'string',
+          description: 'Optional: Document ID to write the blocks to (requires field)',
+        },
+        field: {
+          type: 'string',
+          description: 'Optional: Field to set to the blocks, e.g. "body"',
+        },
+        styles: {
+          type: 'object',
+          description: 'Optional: Block tags mapped to block styles, merged over the defaults (e.g. {"h1": "h2", "aside": "blockquote"})',
+          additionalProperties: { type: 'string' },
+        },
+        decorators: {
+          type: 'object',
+          description: 'Optional: Inline tags mapped to decorator marks, merged over the defaults (e.g. {"mark": "highlight"})',
+          additionalProperties: { type: 'string' },
+        },
+        ignore: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: Extra tags to drop together with their content (script, style, iframe and similar are always dropped)',
+        },
+        baseUrl: {
+          type: 'string',
+          description: 'Optional: URL of the original page, for resolving relative links and images',
+        },
+        uploadImages: {
+          type: 'boolean',
+          description: 'Upload images that are not Sanity assets yet (default: true). Images that are not uploaded become links. Remote images are downloaded only from hosts the server allows (none over HTTP unless imageHosts is configured).',
+        },
+      },
+      required: ['html'],
+    },
+  },
+  {
+    name: 'sanity_export',
+    description:
+      'Export documents to an NDJSON file on the server, optionally with asset files, for backups and seed data.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output: {
+          type: 'string',
+          description: 'Output .ndjson file, or a directory when assets is true, inside the server backup directory',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional: Only export these document types',
+        },
+        drafts: {
+          type: 'boolean',
+          description: 'Include drafts (default: true)',
+        },
+        assets: {
+          type: 'boolean',
+          description: 'Download referenced image/file assets into images/ and files/ next to data.ndjson (default: false)',
+        },
+      },
+      required: ['output'],
+    },
+  },
+  {
+    name: 'sanity_import',
+    description:
+      'Import an NDJSON export (file, or directory with assets) in chunked transactions. Assets are re-uploaded and references remapped. Requires write token.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input: {
+          type: 'string',
+          description: 'NDJSON file or export directory inside the server backup directory',
+        },
+        mode: {
+          type: 'string',
+          enum: ['createOrReplace', 'createIfNotExists', 'create'],
+          description: 'How documents are written (default: createOrReplace). create fails if a document exists.',
+        },
+        batchSize: {
+          type: 'number',
+          description: 'Documents per transaction (default: 100, max: 500)',
+        },
+        assets: {
+          type: 'boolean',
+          description: 'Re-upload assets from the export directory (default: true)',
+        },
+      },
+      required: ['input'],
+    },
+  },
+  {
+    name: 'sanity_list_profiles',
+    description: 'List the configured Sanity profiles (project, dataset, API version) that tools can target via the profile/dataset arguments. Tokens are redacted.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+const TOOLS: Tool[] = TOOL_DEFINITIONS.map(withTargetProperties);
+
+class SanityMCPServer {
+  private clients: ClientPool;
+  private access: ToolAccessConfig;
+  private tools: Tool[];
+  private validator: DocumentValidator;
+  private draftFirst: boolean;
+  private schedule: ScheduleStore;
+  private scheduleInterval: number;
+  private embedder: Embedder;
+  private indexDirectory: string;
+  private semanticIndexes = new Map<string, SemanticIndex>();
+  private searchConfig: SearchConfig;
+  private uploadDir?: string;
+  private imageHosts?: string[];
+  private backupDir: string;
+  private httpMode = false;
+
+  constructor() {
+    const config = loadConfig();
+    this.clients = new ClientPool(config);
+    this.access = config.access || {};
+    this.tools = TOOLS.filter((tool) => isToolEnabled(tool.name, this.access));
+    this.validator = new DocumentValidator(config.validation || { mode: 'off' });
+    this.draftFirst = config.draftFirst ?? false;
+    this.schedule = new ScheduleStore(config.schedule?.file || DEFAULT_SCHEDULE_FILE);
+    this.scheduleInterval = config.schedule?.interval || 0;
+    this.embedder = createEmbedder(config.semanticSearch?.embedder);
+    this.indexDirectory = config.semanticSearch?.directory || DEFAULT_INDEX_DIRECTORY;
+    this.searchConfig = config.search || {};
+    this.uploadDir = config.uploadDir;
+    this.imageHosts = config.imageHosts;
+    this.backupDir = config.backupDir || resolve(DEFAULT_BACKUP_DIRECTORY);
+  }
+
+  /**
+   * Create an MCP server bound to the shared client pool.
+   * Each transport connection (stdio, or one per HTTP session) gets its own instance.
+   */
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'sanity-mcp',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      }
+    );
+
+    this.setupHandlers(server);
+    return server;
+  }
+
+  private setupHandlers(server: Server): void {
+    // List available tools
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools,
+    }));
+
+    // Documents, type listings and queries as resources
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await listResources(this.clients, this.access),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: resourceTemplates(this.access),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      readResource(this.clients, request.params.uri, this.access)
+    );
+
+    // Workflow prompts with live dataset context
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS,
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(this.clients, request.params.name, request.params.arguments)
+    );
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        if (!isToolEnabled(name, this.access)) {
+          throw new Error(`Tool "${name}" is disabled by the server configuration`);
+        }
+
+        const client = this.clients.getClient(args as ClientTarget | undefined);
+
+        switch (name) {
+          case 'sanity_query':
+            return await this.handleQuery(
+              client,
+              args as {
+                query: string;
+                params?: Record<string, unknown>;
+                perspective?: Perspective;
+                pageSize?: number;
+                cursor?: string;
+              }
+            );
+
+          case 'sanity_get_document':
+            return await this.handleGetDocument(
+              client,
+              args as { id: string; format?: ContentFormat; markdownFields?: string[] }
+            );
+
+          case 'sanity_list_documents':
+            return await this.handleListDocuments(
+              client,
+              args as { type: string; limit?: number; cursor?: string; offset?: number; order?: string }
+            );
+
+          case 'sanity_search':
+            return await this.handleSearch(
+              client,
               args as { searchTerm: string; types?: string[]; limit?: number }
             );
 
+          case 'sanity_semantic_search':
+            return await this.handleSemanticSearch(
+              client,
+              args as { query: string; types?: string[]; limit?: number; refresh?: boolean; rebuild?: boolean }
+            );
+
           case 'sanity_get_types':
-            return await this.handleGetTypes();
+            return await this.handleGetTypes(client);
 
           case 'sanity_get_type_info':
-            return await this.handleGetTypeInfo(args as { type: string });
+            return await this.handleGetTypeInfo(
+              client,
+              args as { type: string; sampleSize?: number; all?: boolean }
+            );
 
           case 'sanity_count':
             return await this.handleCount(
+              client,
               args as { filter: string; params?: Record<string, unknown> }
             );
 
           case 'sanity_create':
             return await this.handleCreate(
-              args as { _type: string; _id?: string; document: Record<string, unknown> }
+              client,
+              args as {
+                _type: string;
+                _id?: string;
+                document: Record<string, unknown>;
+                format?: ContentFormat;
+                markdownFields?: string[];
+              }
             );
 
           case 'sanity_update':
             return await this.handleUpdate(
-              args as { id: string; document: Record<string, unknown> }
+              client,
+              args as { id: string; document: Record<string, unknown>; ifRevision?: string }
             );
 
           case 'sanity_patch':
-            return await this.handlePatch(
-              args as {
-                id: string;
-                set?: Record<string, unknown>;
-                unset?: string[];
-                inc?: Record<string, number>;
-                dec?: Record<string, number>;
-              }
-            );
+            return await this.handlePatch(client, args as unknown as PatchArgs);
 
           case 'sanity_delete':
-            return await this.handleDelete(args as { id: string });
+            return await this.handleDelete(
+              client,
+              args as { id: string; strategy?: DeleteStrategy; includeDraft?: boolean; dryRun?: boolean }
+            );
 
           case 'sanity_publish':
-            return await this.handlePublish(args as { id: string });
+            return await this.handlePublish(
+              client,
+              args as { id?: string; ids?: string[]; ifRevision?: string; skipReferenceCheck?: boolean; dryRun?: boolean }
+            );
 
           case 'sanity_unpublish':
-            return await this.handleUnpublish(args as { id: string });
+            return await this.handleUnpublish(client, args as { id: string });
+
+          case 'sanity_discard_draft':
+            return await this.handleDiscardDraft(client, args as { id: string; ifRevision?: string });
 
           case 'sanity_references':
-            return await this.handleReferences(args as { id: string; limit?: number });
+            return await this.handleReferences(client, args as { id: string; limit?: number });
 
           case 'sanity_history':
-            return await this.handleHistory(args as { id: string; limit?: number });
+            return await this.handleHistory(client, args as { id: string; limit?: number });
+
+          case 'sanity_get_revision':
+            return await this.handleGetRevision(
+              client,
+              args as { id: string; revision?: string; time?: string; diff?: boolean }
+            );
+
+          case 'sanity_restore':
+            return await this.handleRestore(
+              client,
+              args as { id: string; revision?: string; time?: string; target?: 'draft' | 'published'; dryRun?: boolean }
+            );
 
           case 'sanity_diff':
-            return await this.handleDiff(args as { idA: string; idB: string });
+            return await this.handleDiff(
+              client,
+              args as { idA: string; idB: string; format?: DiffFormat; ignoreSystemFields?: boolean }
+            );
+
+          case 'sanity_apply_diff':
+            return await this.handleApplyDiff(
+              client,
+              args as { from: string; to: string; target?: string; paths?: string[]; dryRun?: boolean }
+            );
 
           case 'sanity_bulk':
-            return await this.handleBulk(args as { operations: BulkOperation[]; dryRun?: boolean });
+            return await this.handleBulk(client, args as { operations: BulkOperation[]; dryRun?: boolean });
 
           case 'sanity_draft_status':
-            return await this.handleDraftStatus(args as { id: string });
+            return await this.handleDraftStatus(client, args as { id: string });
+
+          case 'sanity_release':
+            return await this.handleRelease(client, args as unknown as ReleaseArgs);
+
+          case 'sanity_schedule':
+            return await this.handleSchedule(
+              client,
+              args as {
+                operation: 'create' | 'list' | 'cancel';
+                action?: ScheduleAction;
+                id?: string;
+                at?: string;
+                jobId?: string;
+                status?: JobStatus;
+                profile?: string;
+              }
+            );
+
+          case 'sanity_upload_asset':
+            return await this.handleUploadAsset(client, args as UploadAssetArgs);
+
+          case 'sanity_unused_assets':
+            return await this.handleUnusedAssets(
+              client,
+              args as UnusedAssetsArgs,
+              (progress) => {
+                const progressToken = request.params._meta?.progressToken;
+                if (progressToken === undefined) return;
+                void extra.sendNotification({
+                  method: 'notifications/progress',
+                  params: {
+                    progressToken,
+                    progress: progress.processed,
+                    total: progress.total,
+                    message: `Batch ${progress.batch}/${progress.batches}: ${progress.deleted} deleted`,
+                  },
+                });
+              }
+            );
+
+          case 'sanity_import_html':
+            return await this.handleImportHtml(
+              client,
+              args as {
+                html: string;
+                id?: string;
+                field?: string;
+                styles?: Record<string, string>;
+                decorators?: Record<string, string>;
+                ignore?: string[];
+                baseUrl?: string;
+                uploadImages?: boolean;
+              }
+            );
+
+          case 'sanity_export':
+            return await this.handleExport(
+              client,
+              args as { output: string; types?: string[]; drafts?: boolean; assets?: boolean }
+            );
+
+          case 'sanity_import':
+            return await this.handleImport(
+              client,
+              args as { input: string; mode?: ImportMode; batchSize?: number; assets?: boolean }
+            );
+
+          case 'sanity_list_profiles':
+            return this.handleListProfiles();
 
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
       } catch (error) {
+        if (error instanceof RevisionConflictError) {
+          const { documentId, expectedRevision, currentRevision, message } = error;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  { error: 'revisionConflict', message, documentId, expectedRevision, currentRevision },
+                  null,
+                  2
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
         const message = error instanceof Error ? error.message : String(error);
         return {
           content: [{ type: 'text', text: `Error: ${message}` }],
@@ -469,39 +1408,68 @@ class SanityMCPServer {
     });
   }
 
-  private async handleQuery(args: { query: string; params?: Record<string, unknown> }) {
-    const result = await this.client.query(args.query, args.params);
+  private async handleQuery(
+    client: SanityClient,
+    args: {
+      query: string;
+      params?: Record<string, unknown>;
+      perspective?: Perspective;
+      pageSize?: number;
+      cursor?: string;
+    }
+  ) {
+    const page = await client.queryPage(args.query, args.params, {
+      perspective: args.perspective,
+      pageSize: Math.min(args.pageSize || 100, MAX_QUERY_PAGE_SIZE),
+      cursor: args.cursor,
+      timeout: QUERY_TIMEOUT_MS,
+    });
+    const output = Array.isArray(page.result)
+      ? { count: page.result.length, nextCursor: page.nextCursor, result: page.result }
+      : page.result;
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result.result, null, 2),
+          text: JSON.stringify(output, null, 2),
         },
       ],
     };
   }
 
-  private async handleGetDocument(args: { id: string }) {
-    const doc = await this.client.getDocument(args.id);
+  private async handleGetDocument(client: SanityClient, args: {
+    id: string;
+    format?: ContentFormat;
+    markdownFields?: string[];
+  }) {
+    const doc = await client.getDocument(args.id);
     if (!doc) {
       return {
         content: [{ type: 'text', text: `Document with ID "${args.id}" not found` }],
       };
     }
+    const output = args.format === 'markdown'
+      ? renderPortableTextFields(doc, args.markdownFields, {
+          projectId: client.projectId,
+          dataset: client.dataset,
+        })
+      : doc;
     return {
-      content: [{ type: 'text', text: JSON.stringify(doc, null, 2) }],
+      content: [{ type: 'text', text: JSON.stringify(output, null, 2) }],
     };
   }
 
-  private async handleListDocuments(args: {
+  private async handleListDocuments(client: SanityClient, args: {
     type: string;
     limit?: number;
+    cursor?: string;
     offset?: number;
     order?: string;
   }) {
     const limit = Math.min(args.limit || 20, 100);
-    const docs = await this.client.getDocumentsByType(args.type, {
+    const page = await client.listDocuments(args.type, {
       limit,
+      cursor: args.cursor,
       offset: args.offset,
       order: args.order,
     });
@@ -512,8 +1480,9 @@ class SanityMCPServer {
           text: JSON.stringify(
             {
               type: args.type,
-              count: docs.length,
-              documents: docs,
+              count: page.items.length,
+              nextCursor: page.nextCursor,
+              documents: page.items,
             },
             null,
             2
@@ -523,10 +1492,11 @@ class SanityMCPServer {
     };
   }
 
-  private async handleSearch(args: { searchTerm: string; types?: string[]; limit?: number }) {
-    const results = await this.client.search(args.searchTerm, {
+  private async handleSearch(client: SanityClient, args: { searchTerm: string; types?: string[]; limit?: number }) {
+    const results = await client.search(args.searchTerm, {
       types: args.types,
       limit: args.limit,
+      config: this.searchConfig,
     });
     return {
       content: [
@@ -546,8 +1516,42 @@ class SanityMCPServer {
     };
   }
 
-  private async handleGetTypes() {
-    const types = await this.client.getDocumentTypes();
+  private async handleSemanticSearch(
+    client: SanityClient,
+    args: { query: string; types?: string[]; limit?: number; refresh?: boolean; rebuild?: boolean }
+  ) {
+    const file = SemanticIndex.fileFor(this.indexDirectory, client);
+    let index = this.semanticIndexes.get(file);
+    if (!index) {
+      index = new SemanticIndex(file, this.embedder);
+      this.semanticIndexes.set(file, index);
+    }
+
+    const refreshed = args.refresh === false && !args.rebuild
+      ? undefined
+      : await index.refresh(client, { rebuild: args.rebuild });
+    const results = await index.search(args.query, { types: args.types, limit: args.limit });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              query: args.query,
+              count: results.length,
+              results,
+              index: { documents: index.size, ...(refreshed && { indexed: refreshed.indexed, removed: refreshed.removed }) },
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleGetTypes(client: SanityClient) {
+    const types = await client.getDocumentTypes();
     return {
       content: [
         {
@@ -558,8 +1562,14 @@ class SanityMCPServer {
     };
   }
 
-  private async handleGetTypeInfo(args: { type: string }) {
-    const info = await this.client.getTypeSchema(args.type);
+  private async handleGetTypeInfo(
+    client: SanityClient,
+    args: { type: string; sampleSize?: number; all?: boolean }
+  ) {
+    const info = await client.getTypeSchema(args.type, {
+      sampleSize: args.sampleSize,
+      all: args.all,
+    });
     return {
       content: [
         {
@@ -577,8 +1587,8 @@ class SanityMCPServer {
     };
   }
 
-  private async handleCount(args: { filter: string; params?: Record<string, unknown> }) {
-    const count = await this.client.count(args.filter, args.params);
+  private async handleCount(client: SanityClient, args: { filter: string; params?: Record<string, unknown> }) {
+    const count = await client.count(args.filter, args.params);
     return {
       content: [
         {
@@ -589,17 +1599,20 @@ class SanityMCPServer {
     };
   }
 
-  private async handleCreate(args: {
+  private async handleCreate(client: SanityClient, args: {
     _type: string;
     _id?: string;
     document: Record<string, unknown>;
+    format?: ContentFormat;
+    markdownFields?: string[];
   }) {
     const doc = {
       _type: args._type,
       ...(args._id && { _id: args._id }),
-      ...args.document,
+      ...fromMarkdown(args.document, args),
     };
-    const result = await this.client.createDocument(doc);
+    const warnings = this.validator.enforce(await this.validator.validateDocument(client, doc));
+    const result = await client.createDocument(doc, { draft: this.draftFirst });
     return {
       content: [
         {
@@ -609,6 +1622,8 @@ class SanityMCPServer {
               success: true,
               transactionId: result.transactionId,
               created: result.results,
+              ...draftNotice(result, 'created'),
+              ...(warnings && { validationWarnings: warnings }),
             },
             null,
             2
@@ -618,8 +1633,17 @@ class SanityMCPServer {
     };
   }
 
-  private async handleUpdate(args: { id: string; document: Record<string, unknown> }) {
-    const result = await this.client.updateDocument(args.id, args.document);
+  private async handleUpdate(
+    client: SanityClient,
+    args: { id: string; document: Record<string, unknown>; ifRevision?: string }
+  ) {
+    const warnings = this.validator.enforce(
+      await this.validator.validateDocument(client, { _id: args.id, ...args.document })
+    );
+    const result = await client.updateDocument(args.id, args.document, {
+      ifRevision: args.ifRevision,
+      draft: this.draftFirst,
+    });
     return {
       content: [
         {
@@ -629,6 +1653,8 @@ class SanityMCPServer {
               success: true,
               transactionId: result.transactionId,
               updated: result.results,
+              ...draftNotice(result),
+              ...(warnings && { validationWarnings: warnings }),
             },
             null,
             2
@@ -638,26 +1664,27 @@ class SanityMCPServer {
     };
   }
 
-  private async handlePatch(args: {
-    id: string;
-    set?: Record<string, unknown>;
-    unset?: string[];
-    inc?: Record<string, number>;
-    dec?: Record<string, number>;
-  }) {
-    const patches: {
-      set?: Record<string, unknown>;
-      unset?: string[];
-      inc?: Record<string, number>;
-      dec?: Record<string, number>;
-    } = {};
-    
-    if (args.set) patches.set = args.set;
-    if (args.unset) patches.unset = args.unset;
-    if (args.inc) patches.inc = args.inc;
-    if (args.dec) patches.dec = args.dec;
-
-    const result = await this.client.patchDocument(args.id, patches);
+  private async handlePatch(client: SanityClient, args: PatchArgs) {
+    const { id, steps, ifRevision } = args;
+    const operations = pickPatchOperations(args);
+    const patches: PatchOperations[] = (Object.keys(operations).length ? [operations] : [])
+      .concat(steps || [])
+      .map((step) => ({
+        ...step,
+        ...(step.set && { set: fromMarkdown(step.set, args) }),
+        ...(step.setIfMissing && { setIfMissing: fromMarkdown(step.setIfMissing, args) }),
+      }));
+    if (!patches.length) {
+      throw new Error('Nothing to patch: give set, setIfMissing, unset, inc, dec, insert, diffMatchPatch or steps');
+    }
+    patches.forEach((patch, i) =>
+      assertValidPatch({ ...patch }, patches.length > 1 ? `patch step ${i + 1}` : 'patch', [])
+    );
+
+    const warnings = this.validator.enforce(
+      (await Promise.all(patches.map((patch) => this.validator.validatePatch(client, id, patch)))).flat()
+    );
+    const result = await client.patchDocument(id, patches, { ifRevision, draft: this.draftFirst });
     return {
       content: [
         {
@@ -667,6 +1694,8 @@ class SanityMCPServer {
               success: true,
               transactionId: result.transactionId,
               patched: result.results,
+              ...draftNotice(result),
+              ...(warnings && { validationWarnings: warnings }),
             },
             null,
             2
@@ -676,8 +1705,23 @@ class SanityMCPServer {
     };
   }
 
-  private async handleDelete(args: { id: string }) {
-    const result = await this.client.deleteDocument(args.id);
+  private async handleDelete(client: SanityClient, args: {
+    id: string;
+    strategy?: DeleteStrategy;
+    includeDraft?: boolean;
+    dryRun?: boolean;
+  }) {
+    if (this.draftFirst && !args.dryRun) {
+      throw new Error(
+        'Draft-first mode is on: sanity_delete removes published documents. Use sanity_discard_draft for drafts, or dryRun to see the plan'
+      );
+    }
+    const { plan, result } = await client.safeDelete(args.id, args);
+    if (!result) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ dryRun: true, ...plan }, null, 2) }],
+      };
+    }
     return {
       content: [
         {
@@ -686,7 +1730,13 @@ class SanityMCPServer {
             {
               success: true,
               transactionId: result.transactionId,
-              deleted: result.results,
+              deleted: [...plan.targets, ...plan.cascade],
+              ...(plan.strategy === 'unlink' && {
+                unlinked: plan.referencedBy.map((doc) => ({
+                  id: doc._id,
+                  paths: doc.references.map((ref) => ref.path),
+                })),
+              }),
             },
             null,
             2
@@ -696,9 +1746,29 @@ class SanityMCPServer {
     };
   }
 
-  private async handlePublish(args: { id: string }) {
-    const draftId = args.id.startsWith('drafts.') ? args.id : `drafts.${args.id}`;
-    const result = await this.client.publishDocument(draftId);
+  private async handlePublish(
+    client: SanityClient,
+    args: { id?: string; ids?: string[]; ifRevision?: string; skipReferenceCheck?: boolean; dryRun?: boolean }
+  ) {
+    const ids = [...(args.id ? [args.id] : []), ...(args.ids || [])];
+    if (!ids.length) {
+      throw new Error('Give id or ids to publish');
+    }
+    if (args.ifRevision && ids.length > 1) {
+      throw new Error('ifRevision applies to a single id; publish several documents without it');
+    }
+
+    if (args.dryRun) {
+      const plan = await client.planPublish(ids);
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ dryRun: true, ...plan }, null, 2) }],
+      };
+    }
+
+    const result = await client.publishDocuments(ids, {
+      ifRevisions: args.ifRevision ? { [ids[0]]: args.ifRevision } : undefined,
+      skipReferenceCheck: args.skipReferenceCheck,
+    });
     return {
       content: [
         {
@@ -717,9 +1787,8 @@ class SanityMCPServer {
     };
   }
 
-  private async handleUnpublish(args: { id: string }) {
-    const publishedId = args.id.startsWith('drafts.') ? args.id.replace('drafts.', '') : args.id;
-    const result = await this.client.unpublishDocument(publishedId);
+  private async handleUnpublish(client: SanityClient, args: { id: string }) {
+    const result = await client.unpublishDocument(args.id);
     return {
       content: [
         {
@@ -738,8 +1807,28 @@ class SanityMCPServer {
     };
   }
 
-  private async handleReferences(args: { id: string; limit?: number }) {
-    const references = await this.client.findReferences(args.id, { limit: args.limit });
+  private async handleDiscardDraft(client: SanityClient, args: { id: string; ifRevision?: string }) {
+    const result = await client.discardDraft(args.id, args);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              transactionId: result.transactionId,
+              discarded: result.results,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleReferences(client: SanityClient, args: { id: string; limit?: number }) {
+    const references = await client.findReferences(args.id, { limit: args.limit });
     return {
       content: [
         {
@@ -758,8 +1847,8 @@ class SanityMCPServer {
     };
   }
 
-  private async handleHistory(args: { id: string; limit?: number }) {
-    const history = await this.client.getHistory(args.id, { limit: args.limit });
+  private async handleHistory(client: SanityClient, args: { id: string; limit?: number }) {
+    const history = await client.getHistory(args.id, { limit: args.limit });
     return {
       content: [
         {
@@ -778,8 +1867,88 @@ class SanityMCPServer {
     };
   }
 
-  private async handleDiff(args: { idA: string; idB: string }) {
-    const diff = await this.client.compareDocuments(args.idA, args.idB);
+  private async handleGetRevision(
+    client: SanityClient,
+    args: { id: string; revision?: string; time?: string; diff?: boolean }
+  ) {
+    const document = await client.getDocumentAt(args.id, args);
+    if (!document) {
+      throw new Error(`No version of ${args.id} found at ${args.revision || args.time}`);
+    }
+    let changes: DiffChange[] | undefined;
+    if (args.diff) {
+      const current = await client.getDocument(args.id);
+      changes = diffDocuments(document, current || {});
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ document, ...(changes && { changesSince: changes }) }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRestore(
+    client: SanityClient,
+    args: { id: string; revision?: string; time?: string; target?: 'draft' | 'published'; dryRun?: boolean }
+  ) {
+    if (this.draftFirst && args.target === 'published') {
+      throw new Error('Draft-first mode is on: restore to the draft, then publish it with sanity_publish');
+    }
+    const plan = await client.planRestore(args.id, args);
+    const warnings = this.validator.enforce(
+      await this.validator.validateDocument(client, { _id: plan.target, ...plan.document })
+    );
+    if (args.dryRun) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ dryRun: true, ...plan, ...(warnings && { validationWarnings: warnings }) }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await client.updateDocument(plan.target, plan.document);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              transactionId: result.transactionId,
+              restoredFrom: plan.source,
+              target: plan.target,
+              changes: plan.changes.map((change) => `${change.op} ${change.path}`),
+              ...(plan.target.startsWith('drafts.') && {
+                next: `Review the draft and publish it with sanity_publish id="${plan.target.slice(7)}"`,
+              }),
+              ...(warnings && { validationWarnings: warnings }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleDiff(
+    client: SanityClient,
+    args: { idA: string; idB: string; format?: DiffFormat; ignoreSystemFields?: boolean }
+  ) {
+    const { changes, ...fields } = await client.compareDocuments(args.idA, args.idB, {
+      ignoreSystemFields: args.ignoreSystemFields,
+    });
+    if (args.format === 'unified') {
+      return {
+        content: [{ type: 'text', text: formatUnified(changes, { a: args.idA, b: args.idB }) }],
+      };
+    }
     return {
       content: [
         {
@@ -788,12 +1957,14 @@ class SanityMCPServer {
             {
               comparing: { a: args.idA, b: args.idB },
               summary: {
-                added: diff.added.length,
-                removed: diff.removed.length,
-                changed: diff.changed.length,
-                unchanged: diff.unchanged.length,
+                added: fields.added.length,
+                removed: fields.removed.length,
+                changed: fields.changed.length,
+                unchanged: fields.unchanged.length,
+                changes: changes.length,
               },
-              diff,
+              diff: fields,
+              ...(args.format === 'jsonPatch' ? { patch: toJsonPatch(changes) } : { changes }),
             },
             null,
             2
@@ -803,8 +1974,61 @@ class SanityMCPServer {
     };
   }
 
-  private async handleBulk(args: { operations: BulkOperation[]; dryRun?: boolean }) {
-    const result = await this.client.bulkMutate(args.operations, { dryRun: args.dryRun });
+  private async handleApplyDiff(
+    client: SanityClient,
+    args: { from: string; to: string; target?: string; paths?: string[]; dryRun?: boolean }
+  ) {
+    const plan = await client.planApplyDiff(args.from, args.to, args);
+    const warnings = this.validator.enforce(
+      (
+        await Promise.all(
+          plan.patches
+            .filter((patch) => patch.set || patch.unset)
+            .map((patch) => this.validator.validatePatch(client, plan.target, patch))
+        )
+      ).flat()
+    );
+    if (args.dryRun || !plan.patches.length) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { dryRun: Boolean(args.dryRun), ...plan, ...(warnings && { validationWarnings: warnings }) },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const result = await client.applyDiffPlan(plan, { draft: this.draftFirst });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              transactionId: result.transactionId,
+              target: plan.target,
+              applied: plan.changes.map((change) => `${change.op} ${change.path}`),
+              patches: plan.patches,
+              ...(plan.unmatchedPaths.length && { unmatchedPaths: plan.unmatchedPaths }),
+              ...draftNotice(result),
+              ...(warnings && { validationWarnings: warnings }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleBulk(client: SanityClient, args: { operations: BulkOperation[]; dryRun?: boolean }) {
+    const result = await client.bulkMutate(args.operations, { dryRun: args.dryRun, draft: this.draftFirst });
     return {
       content: [
         {
@@ -816,6 +2040,7 @@ class SanityMCPServer {
               transactionId: result.transactionId,
               operationsExecuted: result.results.length,
               results: result.results,
+              ...draftNotice(result),
             },
             null,
             2
@@ -825,8 +2050,8 @@ class SanityMCPServer {
     };
   }
 
-  private async handleDraftStatus(args: { id: string }) {
-    const status = await this.client.getDraftStatus(args.id);
+  private async handleDraftStatus(client: SanityClient, args: { id: string }) {
+    const status = await client.getDraftStatus(args.id);
     return {
       content: [
         {
@@ -847,13 +2072,394 @@ class SanityMCPServer {
     };
   }
 
-  async run(): Promise<void> {
+  private async handleRelease(client: SanityClient, args: ReleaseArgs) {
+    if (this.access.readOnly && args.operation !== 'list' && args.operation !== 'contents') {
+      throw new Error(`Release operation "${args.operation}" is disabled in read-only mode`);
+    }
+    const requireRelease = (): string => {
+      if (!args.releaseId) throw new Error(`${args.operation} needs releaseId`);
+      return args.releaseId;
+    };
+
+    let result: Record<string, unknown>;
+    switch (args.operation) {
+      case 'create': {
+        if (!args.title) throw new Error('create needs a title');
+        const created = await client.createRelease(
+          {
+            title: args.title,
+            ...(args.description && { description: args.description }),
+            ...(args.releaseType && { releaseType: args.releaseType }),
+            ...(args.intendedPublishAt && { intendedPublishAt: args.intendedPublishAt }),
+          },
+          args.releaseId
+        );
+        result = {
+          success: true,
+          ...created,
+          next: `Add documents with sanity_release operation="add" releaseId="${created.releaseId}"`,
+        };
+        break;
+      }
+      case 'list': {
+        const releases = await client.listReleases({ all: args.all });
+        result = { count: releases.length, releases };
+        break;
+      }
+      case 'add': {
+        const releaseId = requireRelease();
+        if (!args.id) throw new Error('add needs id');
+        const warnings = args.document
+          ? this.validator.enforce(await this.validator.validateDocument(client, { _id: args.id, ...args.document }))
+          : undefined;
+        const added = await client.addToRelease(releaseId, args.id, args.document);
+        result = {
+          success: true,
+          transactionId: added.transactionId,
+          version: added.results[0].id,
+          next: `Edit the version with sanity_patch id="${added.results[0].id}"`,
+          ...(warnings && { validationWarnings: warnings }),
+        };
+        break;
+      }
+      case 'remove': {
+        const releaseId = requireRelease();
+        if (!args.id) throw new Error('remove needs id');
+        const removed = await client.removeFromRelease(releaseId, args.id);
+        result = { success: true, transactionId: removed.transactionId, discarded: removed.results[0].id };
+        break;
+      }
+      case 'contents': {
+        const contents = await client.getReleaseContents(requireRelease());
+        result = { ...contents, count: contents.documents.length };
+        break;
+      }
+      case 'publish': {
+        const releaseId = requireRelease();
+        result = { success: true, releaseId, published: true, ...(await client.publishRelease(releaseId)) };
+        break;
+      }
+      case 'archive': {
+        const releaseId = requireRelease();
+        result = { success: true, releaseId, archived: true, ...(await client.archiveRelease(releaseId)) };
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown release operation "${String(args.operation)}". Use create, list, add, remove, contents, publish or archive`
+        );
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  private async handleSchedule(
+    client: SanityClient,
+    args: {
+      operation: 'create' | 'list' | 'cancel';
+      action?: ScheduleAction;
+      id?: string;
+      at?: string;
+      jobId?: string;
+      status?: JobStatus;
+      profile?: string;
+    }
+  ) {
+    if (this.access.readOnly && args.operation !== 'list') {
+      throw new Error(`Schedule operation "${args.operation}" is disabled in read-only mode`);
+    }
+
+    let result: Record<string, unknown>;
+    if (args.operation === 'create') {
+      if (!args.action || !args.id || !args.at) {
+        throw new Error('create needs action, id and at');
+      }
+      if (!isToolEnabled(`sanity_${args.action}`, this.access)) {
+        throw new Error(`Cannot schedule ${args.action}: sanity_${args.action} is disabled on this server`);
+      }
+      const job = await this.schedule.add({
+        action: args.action,
+        documentId: args.id,
+        runAt: args.at,
+        profile: this.clients.resolveTarget(args).profile,
+        dataset: client.dataset,
+      });
+      result = {
+        scheduled: job,
+        runner: this.scheduleInterval
+          ? `The server checks for due jobs every ${this.scheduleInterval} seconds`
+          : 'Due jobs run when `sanity-mcp run-due` is called, e.g. from cron',
+      };
+    } else if (args.operation === 'list') {
+      const jobs = await this.schedule.list({ status: args.status, documentId: args.id });
+      result = { count: jobs.length, jobs };
+    } else if (args.operation === 'cancel') {
+      if (!args.jobId) {
+        throw new Error('cancel needs jobId');
+      }
+      result = { cancelled: await this.schedule.cancel(args.jobId) };
+    } else {
+      throw new Error(`Unknown schedule operation "${String(args.operation)}". Use create, list or cancel`);
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  private async handleUploadAsset(client: SanityClient, args: UploadAssetArgs) {
+    if (Boolean(args.documentId) !== Boolean(args.field)) {
+      throw new Error('documentId and field must be given together');
+    }
+
+    // Over HTTP, local paths are only read from a configured upload directory
+    const payload = await loadAssetSource(args, this.uploadDir ?? (this.httpMode ? undefined : process.cwd()));
+    const kind = args.assetType || assetKindForType(payload.contentType);
+    const asset = await client.uploadAsset(payload.buffer, {
+      kind,
+      filename: payload.filename,
+      contentType: payload.contentType,
+      title: args.title,
+      description: args.description,
+      altText: args.alt,
+      source: args.source,
+    });
+
+    let attached: Record<string, unknown> | undefined;
+    let warnings: ValidationIssue[] | undefined;
+    if (args.documentId && args.field) {
+      const value = kind === 'image'
+        ? { ...client.createImageReference(asset._id), ...(args.alt && { alt: args.alt }) }
+        : client.createFileReference(asset._id);
+      const patch = { set: { [args.field]: value } };
+      warnings = this.validator.enforce(await this.validator.validatePatch(client, args.documentId, patch));
+      const result = await client.patchDocument(args.documentId, patch, { draft: this.draftFirst });
+      attached = {
+        documentId: args.documentId,
+        field: args.field,
+        transactionId: result.transactionId,
+        ...draftNotice(result),
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              asset: {
+                _id: asset._id,
+                _type: asset._type,
+                url: asset.url,
+                originalFilename: asset.originalFilename,
+                mimeType: asset.mimeType || payload.contentType,
+                size: asset.size ?? payload.buffer.length,
+              },
+              ...(attached && { attached }),
+              ...(warnings && { validationWarnings: warnings }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleUnusedAssets(
+    client: SanityClient,
+    args: UnusedAssetsArgs,
+    onProgress: (progress: AssetCleanupProgress) => void
+  ) {
+    if (args.cleanup && this.access.readOnly) {
+      throw new Error('Asset cleanup is disabled in read-only mode');
+    }
+
+    const { assetType, cleanup, batchSize, ...filter } = args;
+    const found = await client.findUnusedAssets({
+      ...filter,
+      kind: assetType,
+      limit: Math.min(args.limit || 100, 5000),
+    });
+
+    if (!cleanup) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(found, null, 2) }],
+      };
+    }
+
+    const result = await client.deleteUnusedAssets(
+      found.assets.map((asset) => asset._id),
+      { batchSize: Math.min(batchSize || 50, 200), onProgress }
+    );
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: result.failed.length === 0,
+              found: found.count,
+              truncated: found.truncated,
+              ...result,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleImportHtml(client: SanityClient, args: {
+    html: string;
+    id?: string;
+    field?: string;
+    styles?: Record<string, string>;
+    decorators?: Record<string, string>;
+    ignore?: string[];
+    baseUrl?: string;
+    uploadImages?: boolean;
+  }) {
+    if (Boolean(args.id) !== Boolean(args.field)) {
+      throw new Error('id and field must be given together');
+    }
+
+    const { html, id, field, ...options } = args;
+    // Over HTTP, remote images are only downloaded from configured hosts
+    const result = await client.importHtml(html, {
+      ...options,
+      imageHosts: this.imageHosts ?? (this.httpMode ? [] : undefined),
+    });
+
+    if (!id || !field) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    const patch = { set: { [field]: result.blocks } };
+    const warnings = this.validator.enforce(await this.validator.validatePatch(client, id, patch));
+    const mutation = await client.patchDocument(id, patch, { draft: this.draftFirst });
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              transactionId: mutation.transactionId,
+              documentId: id,
+              field,
+              blocks: result.blocks.length,
+              uploaded: result.uploaded,
+              skipped: result.skipped,
+              ...draftNotice(mutation),
+              ...(warnings && { validationWarnings: warnings }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async handleExport(client: SanityClient, args: {
+    output: string;
+    types?: string[];
+    drafts?: boolean;
+    assets?: boolean;
+  }) {
+    await mkdir(this.backupDir, { recursive: true });
+    const output = await resolveInside(this.backupDir, args.output);
+    const result = await exportDataset(client, { ...args, output });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...result }, null, 2) }],
+    };
+  }
+
+  private async handleImport(client: SanityClient, args: {
+    input: string;
+    mode?: ImportMode;
+    batchSize?: number;
+    assets?: boolean;
+  }) {
+    if (this.draftFirst) {
+      throw new Error('Draft-first mode is on: sanity_import writes published documents; run `sanity-mcp import` instead');
+    }
+    if (!existsSync(this.backupDir)) {
+      throw new Error(`Backup directory not found: ${this.backupDir}`);
+    }
+    const result = await importDataset(client, {
+      ...args,
+      input: await resolveInside(this.backupDir, args.input),
+      batchSize: Math.min(args.batchSize || 100, 500),
+    });
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...result }, null, 2) }],
+    };
+  }
+
+  private handleListProfiles() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              defaultProfile: this.clients.defaultProfile,
+              profiles: this.clients.listProfiles(),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  async run(config: TransportConfig): Promise<void> {
+    this.httpMode = config.mode === 'http';
+    if (this.scheduleInterval && !canRunScheduledJobs(this.access)) {
+      console.error('Not running scheduled jobs: sanity_publish and sanity_unpublish are disabled on this server');
+    } else if (this.scheduleInterval) {
+      startScheduler(this.schedule, this.clients, this.scheduleInterval, this.access);
+      console.error(`Running scheduled jobs from ${this.schedule.file} every ${this.scheduleInterval}s`);
+    }
+
+    if (config.mode === 'http') {
+      const handle = await startHttpServer(() => this.createServer(), config.http);
+      console.error(`Sanity MCP server listening on http://${handle.host}:${handle.port}/mcp`);
+      if (!config.http.authToken) {
+        console.error('Warning: MCP_AUTH_TOKEN is not set; HTTP clients are not authenticated');
+      }
+
+      const shutdown = async (signal: string) => {
+        console.error(`Received ${signal}, closing ${handle.sessionCount()} session(s)...`);
+        await handle.close();
+        process.exit(0);
+      };
+      process.once('SIGINT', () => void shutdown('SIGINT'));
+      process.once('SIGTERM', () => void shutdown('SIGTERM'));
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('Sanity MCP server running on stdio');
   }
 }
 
-// Run the server
-const server = new SanityMCPServer();
-server.run().catch(console.error);
+// Run a CLI command, or the server
+const argv = process.argv.slice(2);
+if (isCliCommand(argv[0])) {
+  runCli(argv).then((code) => process.exit(code));
+} else {
+  const server = new SanityMCPServer();
+  server.run(resolveTransportConfig(argv)).catch(console.error);
+}
@@ -0,0 +1,169 @@
+/**
+ * Cursor pagination
+ * Opaque cursors for document listings (keyset on the sort keys and `_id`) and
+ * for arbitrary GROQ queries (offset bound to the query), plus a size budget so
+ * a page never grows past what a model can take in
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface SortKey {
+  /** GROQ expression, e.g. `_createdAt` or `lower(title)` */
+  expression: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Where the next page of a type listing starts: the sort key values of the last document
+ */
+export interface KeysetCursor {
+  kind: 'keyset';
+  type: string;
+  order: string;
+  values: unknown[];
+}
+
+/**
+ * Where the next page of a query starts
+ */
+export interface OffsetCursor {
+  kind: 'offset';
+  /** Hash of the query, params and perspective the cursor belongs to */
+  query: string;
+  offset: number;
+}
+
+export type Cursor = KeysetCursor | OffsetCursor;
+
+/**
+ * One page of results
+ */
+export interface Page<T> {
+  items: T[];
+  /** Pass back as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_ORDER = '_createdAt desc';
+/** Largest page of a result as indented JSON, in characters (roughly 50k tokens) */
+export const MAX_RESULT_CHARS = 200_000;
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Split an order clause into sort keys, always ending with `_id` so the order is total
+ */
+export function parseOrder(order: string): SortKey[] {
+  const keys: SortKey[] = [];
+  let depth = 0;
+  let start = 0;
+  const parts: string[] = [];
+  for (let i = 0; i <= order.length; i++) {
+    const char = order[i];
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if ((char === ',' && depth === 0) || i === order.length) {
+      parts.push(order.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  for (const part of parts) {
+    const match = /^(.+?)(?:\s+(asc|desc))?$/i.exec(part);
+    if (!match) {
+      throw new Error(`Invalid order "${order}": use e.g. "_createdAt desc, title asc"`);
+    }
+    keys.push({ expression: match[1], direction: (match[2]?.toLowerCase() as 'asc' | 'desc') || 'asc' });
+  }
+
+  if (!keys.some((key) => key.expression === '_id')) {
+    keys.push({ expression: '_id', direction: 'asc' });
+  }
+  return keys;
+}
+
+/**
+ * The GROQ order clause for sort keys
+ */
+export function orderClause(keys: SortKey[]): string {
+  return keys.map((key) => `${key.expression} ${key.direction}`).join(', ');
+}
+
+/**
+ * Filter for documents after the one with the given sort key values.
+ * GROQ sorts null (a missing field) after every other value, so it comes last
+ * in ascending and first in descending order.
+ */
+export function keysetFilter(keys: SortKey[], values: unknown[]): { filter: string; params: Record<string, unknown> } {
+  const params: Record<string, unknown> = {};
+
+  const after = (i: number): string | null => {
+    const { expression, direction } = keys[i];
+    const value = values[i] ?? null;
+    const param = `$cursor${i}`;
+    if (value !== null) params[`cursor${i}`] = value;
+
+    // Every document has an `_id`
+    const nullable = expression !== '_id';
+    const strict =
+      value === null
+        ? direction === 'desc' ? `${expression} != null` : null
+        : direction === 'desc'
+          ? `${expression} < ${param}`
+          : nullable ? `(${expression} > ${param} || ${expression} == null)` : `${expression} > ${param}`;
+    const rest = i + 1 < keys.length ? after(i + 1) : null;
+    const tie = rest && `(${expression} == ${value === null ? 'null' : param} && ${rest})`;
+    const branches = [strict, tie].filter(Boolean);
+    return branches.length ? `(${branches.join(' || ')})` : null;
+  };
+
+  return { filter: after(0) ?? 'false', params };
+}
+
+/**
+ * Fingerprint of a query, so its cursor cannot be used with another one
+ */
+export function queryFingerprint(query: string, params?: Record<string, unknown>, perspective?: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify([query, params ?? {}, perspective ?? null]))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...cursor })).toString('base64url');
+}
+
+export function decodeCursor(value: string): Cursor {
+  let cursor: (Cursor & { v?: number }) | undefined;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    cursor = undefined;
+  }
+  if (!cursor || cursor.v !== CURSOR_VERSION || (cursor.kind !== 'keyset' && cursor.kind !== 'offset')) {
+    throw new Error('Invalid cursor: pass the nextCursor of a previous page unchanged');
+  }
+  delete cursor.v;
+  return cursor;
+}
+
+/**
+ * How many items, from the start, fit in `maxChars` of JSON. Throws when not even
+ * the first one does.
+ */
+export function fitToBudget(items: unknown[], maxChars: number = MAX_RESULT_CHARS): number {
+  let size = 2;
+  for (let i = 0; i < items.length; i++) {
+    size += JSON.stringify(items[i] ?? null, null, 2).length + 2;
+    if (size > maxChars) {
+      if (i === 0) {
+        throw new Error(
+          `A single result is over ${maxChars} characters; project fewer fields (e.g. { _id, title }) to read it`
+        );
+      }
+      return i;
+    }
+  }
+  return items.length;
+}
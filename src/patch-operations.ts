@@ -0,0 +1,150 @@
+/**
+ * Patch operations
+ * The Sanity patch vocabulary and structural checks for patches, so malformed
+ * operations are reported before anything is sent
+ */
+
+export interface InsertOperation {
+  /** Exactly one of before/after/replace: a path to an array item, e.g. `tags[-1]` */
+  before?: string;
+  after?: string;
+  replace?: string;
+  items: unknown[];
+}
+
+/**
+ * Operations of one Sanity patch. Sanity applies them in its own fixed order,
+ * not in the order given; use several patch steps when the order matters.
+ */
+export interface PatchOperations {
+  set?: Record<string, unknown>;
+  setIfMissing?: Record<string, unknown>;
+  unset?: string[];
+  inc?: Record<string, number>;
+  dec?: Record<string, number>;
+  insert?: InsertOperation;
+  /** Text patches in diff-match-patch format, keyed by path */
+  diffMatchPatch?: Record<string, string>;
+}
+
+export const PATCH_OPERATIONS = ['set', 'setIfMissing', 'unset', 'inc', 'dec', 'insert', 'diffMatchPatch'];
+
+// Keys that can sit next to the operations in a bulk patch
+export const PATCH_META_KEYS = ['id', 'ifRevision'];
+
+// A field name, or a bracketed selector: [0], [-1], [2:4], [_key=="x"], [*] ...
+const FIELD = String.raw`[A-Za-z_$][\w$-]*`;
+const SELECTOR = String.raw`\[(?:"[^"]*"|'[^']*'|[^\]"'])+\]`;
+const PATH = new RegExp(String.raw`^(?:${FIELD}|${SELECTOR})(?:\.${FIELD}|${SELECTOR})*$`);
+
+/**
+ * Check that a string is a JSONMatch path such as `items[_key=="x"].title`
+ */
+export function isValidPath(path: unknown): path is string {
+  return typeof path === 'string' && PATH.test(path);
+}
+
+/**
+ * The patch operations among other arguments
+ */
+export function pickPatchOperations(args: object): PatchOperations {
+  return Object.fromEntries(
+    Object.entries(args).filter(([key, value]) => PATCH_OPERATIONS.includes(key) && value !== undefined)
+  ) as PatchOperations;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * List what is wrong with a patch: unknown keys, malformed values and invalid paths.
+ * `metaKeys` are the keys allowed next to the operations.
+ */
+export function patchProblems(
+  patch: Record<string, unknown>,
+  metaKeys: readonly string[] = PATCH_META_KEYS
+): string[] {
+  const problems: string[] = [];
+  const badPath = (op: string, path: unknown) => problems.push(`${op}: invalid path ${JSON.stringify(path)}`);
+
+  const operations = Object.keys(patch).filter((key) => !metaKeys.includes(key));
+  for (const key of operations) {
+    if (!PATCH_OPERATIONS.includes(key)) {
+      problems.push(`Unknown patch key "${key}". Use ${[...metaKeys, ...PATCH_OPERATIONS].join(', ')}`);
+    }
+  }
+  if (!operations.length) {
+    problems.push('Patch has no operations');
+  }
+
+  for (const op of ['set', 'setIfMissing', 'inc', 'dec', 'diffMatchPatch']) {
+    const values = patch[op];
+    if (values === undefined) continue;
+    if (!isRecord(values)) {
+      problems.push(`${op} must be an object of path: value`);
+      continue;
+    }
+    for (const [path, value] of Object.entries(values)) {
+      if (!isValidPath(path)) badPath(op, path);
+      if ((op === 'inc' || op === 'dec') && typeof value !== 'number') {
+        problems.push(`${op}: ${path} must be a number`);
+      }
+      if (op === 'diffMatchPatch' && (typeof value !== 'string' || !value.startsWith('@@'))) {
+        problems.push(`diffMatchPatch: ${path} must be a patch string starting with "@@"`);
+      }
+    }
+  }
+
+  if (patch.unset !== undefined) {
+    if (!Array.isArray(patch.unset)) {
+      problems.push('unset must be an array of paths');
+    } else {
+      for (const path of patch.unset) if (!isValidPath(path)) badPath('unset', path);
+    }
+  }
+
+  if (patch.insert !== undefined) {
+    const insert = patch.insert;
+    if (!isRecord(insert)) {
+      problems.push('insert must be an object with before, after or replace, and items');
+    } else {
+      const positions = ['before', 'after', 'replace'].filter((key) => insert[key] !== undefined);
+      if (positions.length !== 1) {
+        problems.push('insert needs exactly one of before, after or replace');
+      }
+      for (const key of positions) {
+        const path = insert[key];
+        if (!isValidPath(path)) badPath(`insert.${key}`, path);
+        else if (!path.endsWith(']')) problems.push(`insert.${key} must point at an array item, e.g. "${path}[-1]"`);
+      }
+      if (!Array.isArray(insert.items) || insert.items.length === 0) {
+        problems.push('insert.items must be a non-empty array');
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Throw if a patch is malformed
+ */
+export function assertValidPatch(
+  patch: Record<string, unknown>,
+  label: string = 'patch',
+  metaKeys: readonly string[] = PATCH_META_KEYS
+): void {
+  const problems = patchProblems(patch, metaKeys);
+  if (problems.length) {
+    throw new Error(`Invalid ${label}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * The array an insert position points into: `tags[_key=="a"]` → `tags`
+ */
+export function insertArrayPath(insert: InsertOperation): string | undefined {
+  const position = insert.before ?? insert.after ?? insert.replace;
+  return position?.replace(/\[[^\]]*\]$/, '');
+}
@@ -0,0 +1,31 @@
+/**
+ * Path confinement
+ * Keeps file paths from tool arguments inside a configured directory, so a
+ * remote client cannot read or write other files on the server
+ */
+
+import { existsSync } from 'node:fs';
+import { realpath } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+
+/**
+ * Resolve `path` against `root` and check it stays inside it. Symlinks are
+ * followed (through the nearest existing parent for paths not created yet),
+ * so a link inside the root cannot point out of it.
+ */
+export async function resolveInside(root: string, path: string): Promise<string> {
+  const realRoot = await realpath(root);
+  const target = resolve(realRoot, path);
+
+  let existing = target;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+  const real = join(await realpath(existing), relative(existing, target));
+
+  const inside = relative(realRoot, real);
+  if (inside.startsWith('..') || isAbsolute(inside)) {
+    throw new Error(`Path "${path}" is outside ${root}`);
+  }
+  return real;
+}
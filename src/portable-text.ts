@@ -0,0 +1,541 @@
+/**
+ * Markdown ⇄ Portable Text conversion
+ * Handles headings, paragraphs, blockquotes, bullet/numbered lists (nested),
+ * strong/em/code/strike-through marks, links (as annotations), code blocks
+ * and image blocks
+ */
+
+import { randomBytes } from 'node:crypto';
+
+export interface PortableTextSpan {
+  _type: 'span';
+  _key: string;
+  text: string;
+  marks: string[];
+}
+
+export interface PortableTextMarkDef {
+  _type: string;
+  _key: string;
+  [key: string]: unknown;
+}
+
+export interface PortableTextBlock {
+  _type: 'block';
+  _key: string;
+  style: string;
+  markDefs: PortableTextMarkDef[];
+  children: PortableTextSpan[];
+  listItem?: 'bullet' | 'number';
+  level?: number;
+}
+
+export interface PortableTextObject {
+  _type: string;
+  _key: string;
+  [key: string]: unknown;
+}
+
+export type PortableTextItem = PortableTextBlock | PortableTextObject;
+
+export interface MarkdownToPortableTextOptions {
+  /** Generates `_key` values (default: random 12-character hex) */
+  keyGenerator?: () => string;
+}
+
+export interface PortableTextToMarkdownOptions {
+  /** Used to build CDN URLs for image assets */
+  projectId?: string;
+  dataset?: string;
+}
+
+const DECORATORS: Array<{ delimiter: string; mark: string }> = [
+  { delimiter: '**', mark: 'strong' },
+  { delimiter: '__', mark: 'strong' },
+  { delimiter: '~~', mark: 'strike-through' },
+  { delimiter: '*', mark: 'em' },
+  { delimiter: '_', mark: 'em' },
+];
+
+const MARK_SYNTAX: Record<string, string> = {
+  strong: '**',
+  em: '_',
+  'strike-through': '~~',
+};
+
+const SANITY_CDN_IMAGE = /^https:\/\/cdn\.sanity\.io\/images\/[^/]+\/[^/]+\/([a-f0-9]+)-(\d+x\d+)\.(\w+)/;
+const IMAGE_ASSET_ID = /^image-([a-f0-9]+)-(\d+x\d+)-(\w+)$/;
+
+/**
+ * Generate a random `_key` for Portable Text arrays
+ */
+export function generateKey(): string {
+  return randomBytes(6).toString('hex');
+}
+
+/**
+ * Check whether a value looks like a Portable Text array
+ */
+export function isPortableText(value: unknown): value is PortableTextItem[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.some((item) => item && typeof item === 'object' && (item as { _type?: unknown })._type === 'block')
+  );
+}
+
+/**
+ * Turn an image URL or asset ID into a Sanity image asset ID, if it points at a Sanity asset
+ */
+export function imageAssetIdFromUrl(url: string): string | undefined {
+  if (IMAGE_ASSET_ID.test(url)) return url;
+  const match = SANITY_CDN_IMAGE.exec(url);
+  return match ? `image-${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+/**
+ * Build a CDN URL for an image asset ID
+ */
+export function imageUrlFromAssetId(assetId: string, projectId: string, dataset: string): string | undefined {
+  const match = IMAGE_ASSET_ID.exec(assetId);
+  return match
+    ? `https://cdn.sanity.io/images/${projectId}/${dataset}/${match[1]}-${match[2]}.${match[3]}`
+    : undefined;
+}
+
+/**
+ * Convert Markdown to Portable Text blocks.
+ *
+ * Images pointing at Sanity assets (CDN URLs or `image-…` asset IDs) become image
+ * blocks; other images become a link, since they have no asset to reference.
+ */
+export function markdownToPortableText(
+  markdown: string,
+  options: MarkdownToPortableTextOptions = {}
+): PortableTextItem[] {
+  const key = options.keyGenerator || generateKey;
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: PortableTextItem[] = [];
+  let paragraph: string[] = [];
+
+  const textBlock = (text: string, style = 'normal', list?: { listItem: 'bullet' | 'number'; level: number }) => {
+    const markDefs: PortableTextMarkDef[] = [];
+    const children = parseInline(text, [], markDefs, key);
+    const block: PortableTextBlock = {
+      _type: 'block',
+      _key: key(),
+      style,
+      markDefs,
+      children: children.length ? children : [{ _type: 'span', _key: key(), text: '', marks: [] }],
+    };
+    if (list) {
+      block.listItem = list.listItem;
+      block.level = list.level;
+    }
+    return block;
+  };
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push(textBlock(paragraph.join('').replace(/\n$/, '')));
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^\s*(```|~~~)\s*([\w+-]*)\s*$/.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      blocks.push({
+        _type: 'code',
+        _key: key(),
+        code: code.join('\n'),
+        ...(fence[2] && { language: fence[2] }),
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      // Horizontal rules have no Portable Text equivalent
+      flushParagraph();
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push(textBlock(heading[2], `h${heading[1].length}`));
+      continue;
+    }
+
+    const quote = /^\s*>\s?(.*)$/.exec(line);
+    if (quote) {
+      flushParagraph();
+      const quoted = [quote[1]];
+      while (i + 1 < lines.length && /^\s*>/.test(lines[i + 1])) {
+        quoted.push(lines[++i].replace(/^\s*>\s?/, ''));
+      }
+      blocks.push(textBlock(quoted.join(' '), 'blockquote'));
+      continue;
+    }
+
+    const listItem = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (listItem) {
+      flushParagraph();
+      const indent = listItem[1].replace(/\t/g, '    ').length;
+      blocks.push(
+        textBlock(listItem[3], 'normal', {
+          listItem: /\d/.test(listItem[2]) ? 'number' : 'bullet',
+          level: Math.floor(indent / 2) + 1,
+        })
+      );
+      continue;
+    }
+
+    const image = /^\s*!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)\s*$/.exec(line);
+    if (image) {
+      flushParagraph();
+      const assetId = imageAssetIdFromUrl(image[2]);
+      if (assetId) {
+        blocks.push({
+          _type: 'image',
+          _key: key(),
+          asset: { _type: 'reference', _ref: assetId },
+          ...(image[1] && { alt: image[1] }),
+        });
+      } else {
+        blocks.push(textBlock(`[${image[1] || image[2]}](${image[2]})`));
+      }
+      continue;
+    }
+
+    // Two trailing spaces mark a hard line break
+    const hardBreak = / {2,}$/.test(line);
+    const text = line.trim();
+    if (paragraph.length && !paragraph[paragraph.length - 1].endsWith('\n')) {
+      paragraph.push(' ');
+    }
+    paragraph.push(hardBreak ? `${text}\n` : text);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Parse inline Markdown into spans, collecting link annotations in `markDefs`
+ */
+function parseInline(
+  text: string,
+  marks: string[],
+  markDefs: PortableTextMarkDef[],
+  key: () => string
+): PortableTextSpan[] {
+  const spans: PortableTextSpan[] = [];
+  let buffer = '';
+
+  const pushText = (value: string, spanMarks: string[]) => {
+    if (!value) return;
+    const last = spans[spans.length - 1];
+    if (last && sameMarks(last.marks, spanMarks)) {
+      last.text += value;
+    } else {
+      spans.push({ _type: 'span', _key: key(), text: value, marks: spanMarks });
+    }
+  };
+  const flush = () => {
+    pushText(buffer, marks);
+    buffer = '';
+  };
+
+  let i = 0;
+  outer: while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_[\]()~#>!+.-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i) {
+        flush();
+        pushText(text.slice(i + 1, end), [...marks, 'code']);
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = /^\[((?:\\.|[^\]\\])*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/.exec(text.slice(i));
+      if (link) {
+        flush();
+        const markDef: PortableTextMarkDef = { _type: 'link', _key: key(), href: link[2] };
+        markDefs.push(markDef);
+        for (const span of parseInline(link[1], [...marks, markDef._key], markDefs, key)) {
+          pushText(span.text, span.marks);
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    for (const { delimiter, mark } of DECORATORS) {
+      if (!text.startsWith(delimiter, i)) continue;
+      // Underscores inside words (snake_case) are not emphasis
+      if (delimiter[0] === '_' && i > 0 && /\w/.test(text[i - 1])) continue;
+      // An opener is followed by text, not whitespace (`a * b`) or the rest of
+      // a longer run (`**` that found no closer stays literal)
+      const next = text[i + delimiter.length];
+      if (!next || /\s/.test(next) || (delimiter.length === 1 && next === delimiter)) continue;
+
+      const end = findClosing(text, delimiter, i + delimiter.length);
+      if (end > i + delimiter.length) {
+        flush();
+        for (const span of parseInline(text.slice(i + delimiter.length, end), [...marks, mark], markDefs, key)) {
+          pushText(span.text, span.marks);
+        }
+        i = end + delimiter.length;
+        continue outer;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return spans;
+}
+
+/**
+ * Index of the delimiter closing an opener that ends at `from`, or -1. Delimiters
+ * are read in runs (`*`, `**`, `***`); a closer follows text, not whitespace.
+ */
+function findClosing(text: string, delimiter: string, from: number): number {
+  const char = delimiter[0];
+  let start = text.indexOf(char, from);
+  while (start !== -1) {
+    let end = start;
+    while (text[end] === char) end++;
+    const run = end - start;
+
+    const escaped = text[start - 1] === '\\';
+    const afterText = start > from && !/\s/.test(text[start - 1]);
+    const wordAfter = char === '_' && /\w/.test(text[end] || '');
+    // In a run like `***`, the closing delimiter is the last one; a single `*`
+    // does not close on a `**` pair
+    const fits = run === delimiter.length || (run > delimiter.length && !(delimiter.length === 1 && run === 2));
+    if (!escaped && afterText && !wordAfter && fits) return end - delimiter.length;
+    start = text.indexOf(char, end);
+  }
+  return -1;
+}
+
+/**
+ * Whether two spans carry the same marks in the same order
+ */
+export function sameMarks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((mark, i) => mark === b[i]);
+}
+
+/**
+ * Plain text of Portable Text blocks, like GROQ's `pt::text()`: the text of each
+ * block's spans, with blocks separated by blank lines. Non-block items are skipped.
+ */
+export function portableTextToPlainText(blocks: unknown[]): string {
+  return blocks
+    .filter((item): item is PortableTextBlock =>
+      Boolean(item) && typeof item === 'object' && (item as { _type?: unknown })._type === 'block'
+    )
+    .map((block) =>
+      (block.children || []).map((child) => (typeof child.text === 'string' ? child.text : '')).join('')
+    )
+    .filter((text) => text.trim())
+    .join('\n\n');
+}
+
+/**
+ * Convert Portable Text blocks to Markdown
+ */
+export function portableTextToMarkdown(
+  blocks: unknown[],
+  options: PortableTextToMarkdownOptions = {}
+): string {
+  const parts: string[] = [];
+  let previousList: string | undefined;
+
+  for (const item of blocks) {
+    if (!item || typeof item !== 'object') continue;
+    const block = item as PortableTextObject;
+    let rendered: string;
+    let list: string | undefined;
+
+    if (block._type === 'block') {
+      const textBlock = block as unknown as PortableTextBlock;
+      const text = renderSpans(textBlock.children || [], textBlock.markDefs || []);
+
+      if (textBlock.listItem) {
+        list = textBlock.level && textBlock.level > 1 ? previousList ?? textBlock.listItem : textBlock.listItem;
+        const indent = '  '.repeat(Math.max((textBlock.level || 1) - 1, 0));
+        rendered = `${indent}${textBlock.listItem === 'number' ? '1.' : '-'} ${text}`;
+      } else if (/^h[1-6]$/.test(textBlock.style)) {
+        rendered = `${'#'.repeat(Number(textBlock.style[1]))} ${text}`;
+      } else if (textBlock.style === 'blockquote') {
+        rendered = text
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n');
+      } else {
+        rendered = escapeBlockStart(text).replace(/\n/g, '  \n');
+      }
+    } else if (block._type === 'code') {
+      rendered = `\`\`\`${typeof block.language === 'string' ? block.language : ''}\n${String(block.code ?? '')}\n\`\`\``;
+    } else if (block._type === 'image') {
+      rendered = `![${escapeMarkdown(String(block.alt ?? ''))}](${imageUrl(block, options)})`;
+    } else {
+      rendered = `<!-- unsupported block: ${block._type} -->`;
+    }
+
+    if (parts.length) {
+      // Items of the same list stay together; a new list needs a blank line
+      parts.push(list && list === previousList ? '\n' : '\n\n');
+    }
+    parts.push(rendered);
+    previousList = list;
+  }
+
+  return parts.join('');
+}
+
+function renderSpans(children: PortableTextSpan[], markDefs: PortableTextMarkDef[]): string {
+  const annotations = new Map(markDefs.map((def) => [def._key, def]));
+  const output: string[] = [];
+
+  let i = 0;
+  while (i < children.length) {
+    const span = children[i];
+    const linkKey = (span.marks || []).find((mark) => annotations.has(mark));
+
+    if (!linkKey) {
+      output.push(renderSpan(span, annotations));
+      i++;
+      continue;
+    }
+
+    // Group consecutive spans under the same link annotation
+    const group: string[] = [];
+    while (i < children.length && (children[i].marks || []).includes(linkKey)) {
+      group.push(renderSpan(children[i], annotations));
+      i++;
+    }
+    const href = annotations.get(linkKey)?.href;
+    output.push(typeof href === 'string' ? `[${group.join('')}](${href})` : group.join(''));
+  }
+
+  return output.join('');
+}
+
+function renderSpan(span: PortableTextSpan, annotations: Map<string, PortableTextMarkDef>): string {
+  const marks = (span.marks || []).filter((mark) => !annotations.has(mark));
+  const text = span.text || '';
+  if (!text) return '';
+
+  if (marks.includes('code')) {
+    return wrapPreservingWhitespace(`\`${text}\``, marks.filter((m) => m !== 'code'));
+  }
+  return wrapPreservingWhitespace(escapeMarkdown(text), marks);
+}
+
+/**
+ * Wrap text in mark syntax, keeping leading/trailing whitespace outside the delimiters
+ */
+function wrapPreservingWhitespace(text: string, marks: string[]): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) as RegExpExecArray;
+  let core = match[2];
+  if (!core) return text;
+  for (const mark of marks) {
+    const syntax = MARK_SYNTAX[mark];
+    if (syntax) core = `${syntax}${core}${syntax}`;
+  }
+  return `${match[1]}${core}${match[3]}`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*[\]~]/g, (char, index: number) =>
+      // A `*` between spaces (`a * b`) can neither open nor close emphasis
+      char === '*' && /\s/.test(text[index - 1] ?? '') && /\s/.test(text[index + 1] ?? '') ? char : `\\${char}`
+    )
+    .replace(/(^|\W)_|_(?=\W|$)/g, (m) => m.replace('_', '\\_'));
+}
+
+/**
+ * Escape text that would otherwise be read back as a heading, quote or list item
+ */
+function escapeBlockStart(text: string): string {
+  return text.replace(/^(#|>|[-+] )/, '\\$1').replace(/^(\d+)\. /, '$1\\. ');
+}
+
+function imageUrl(block: PortableTextObject, options: PortableTextToMarkdownOptions): string {
+  const asset = block.asset as { _ref?: string; url?: string } | undefined;
+  if (asset?.url) return asset.url;
+  if (!asset?._ref) return '';
+  if (options.projectId && options.dataset) {
+    return imageUrlFromAssetId(asset._ref, options.projectId, options.dataset) || asset._ref;
+  }
+  return asset._ref;
+}
+
+/**
+ * Replace the given fields (or every Portable Text field when none are given)
+ * with their Markdown rendering
+ */
+export function renderPortableTextFields<T extends Record<string, unknown>>(
+  doc: T,
+  fields: string[] | undefined,
+  options: PortableTextToMarkdownOptions = {}
+): T {
+  const result: Record<string, unknown> = { ...doc };
+  const targets = fields?.length ? fields : Object.keys(doc).filter((key) => isPortableText(doc[key]));
+  for (const field of targets) {
+    const value = doc[field];
+    if (Array.isArray(value)) {
+      result[field] = portableTextToMarkdown(value, options);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Convert Markdown strings in the given fields to Portable Text
+ */
+export function convertMarkdownFields<T extends Record<string, unknown>>(
+  values: T,
+  fields: string[],
+  options: MarkdownToPortableTextOptions = {}
+): T {
+  const result: Record<string, unknown> = { ...values };
+  for (const field of fields) {
+    const value = values[field];
+    if (typeof value === 'string') {
+      result[field] = markdownToPortableText(value, options);
+    } else if (value !== undefined) {
+      throw new Error(`Field "${field}" must be a Markdown string when format is "markdown"`);
+    }
+  }
+  return result as T;
+}
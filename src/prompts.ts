@@ -0,0 +1,189 @@
+/**
+ * MCP prompts for common content workflows
+ * Each prompt pulls live context from the dataset (types, fields, draft state,
+ * references) into its messages so the model doesn't have to chain tools first
+ */
+
+import { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { ClientPool } from './config.js';
+import { SanityClient } from './sanity-client.js';
+
+const TARGET_ARGUMENTS: PromptArgument[] = [
+  { name: 'profile', description: 'Optional: Named profile from the server config', required: false },
+  { name: 'dataset', description: "Optional: Dataset to use instead of the profile's default", required: false },
+];
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'sanity_write_groq_query',
+    description: 'Write a GROQ query for a document type, using the fields that actually exist in the dataset',
+    arguments: [
+      { name: 'type', description: 'The document type to query (e.g., "post")', required: true },
+      { name: 'goal', description: 'What the query should return (e.g., "the 10 newest posts with author names")', required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: 'sanity_review_before_publish',
+    description: 'Review the draft of a document against its published version before publishing',
+    arguments: [
+      { name: 'id', description: 'The document ID (with or without "drafts." prefix)', required: true },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: 'sanity_audit_references',
+    description: 'Audit which documents reference a document before deleting it',
+    arguments: [
+      { name: 'id', description: 'The document ID you plan to delete', required: true },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+  {
+    name: 'sanity_draft_new_document',
+    description: 'Draft a new document of a type, following the shape of existing documents',
+    arguments: [
+      { name: 'type', description: 'The document type to create (e.g., "post")', required: true },
+      { name: 'topic', description: 'What the new document should be about', required: false },
+      ...TARGET_ARGUMENTS,
+    ],
+  },
+];
+
+type PromptArgs = Record<string, string | undefined>;
+
+/**
+ * Build the messages for a prompt, fetching live context from Sanity
+ */
+export async function getPrompt(
+  clients: ClientPool,
+  name: string,
+  args: PromptArgs = {}
+): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const arg of prompt.arguments || []) {
+    if (arg.required && !args[arg.name]) {
+      throw new Error(`Prompt "${name}" requires the "${arg.name}" argument`);
+    }
+  }
+
+  const client = clients.getClient({ profile: args.profile, dataset: args.dataset });
+
+  let text: string;
+  switch (name) {
+    case 'sanity_write_groq_query':
+      text = await buildGroqQueryPrompt(client, args.type as string, args.goal);
+      break;
+    case 'sanity_review_before_publish':
+      text = await buildReviewPrompt(client, args.id as string);
+      break;
+    case 'sanity_audit_references':
+      text = await buildReferenceAuditPrompt(client, args.id as string);
+      break;
+    case 'sanity_draft_new_document':
+      text = await buildDraftDocumentPrompt(client, args.type as string, args.topic);
+      break;
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+async function buildGroqQueryPrompt(client: SanityClient, type: string, goal?: string): Promise<string> {
+  const [types, schema] = await Promise.all([client.getDocumentTypes(), client.getTypeSchema(type)]);
+
+  return [
+    `Write a GROQ query for documents of type "${type}".`,
+    goal ? `Goal: ${goal}` : 'Goal: return the most useful fields for this type.',
+    '',
+    `Document types in this dataset: ${types.join(', ') || '(none)'}`,
+    `"${type}" has ${schema.count} document(s) with these fields: ${schema.fields.join(', ') || '(no sample document found)'}`,
+    '',
+    'Only use fields that exist. Exclude drafts with `!(_id in path("drafts.**"))` unless asked otherwise,',
+    'follow references with `->`, and keep projections small. Run the query with `sanity_query` to check it.',
+  ].join('\n');
+}
+
+async function buildReviewPrompt(client: SanityClient, id: string): Promise<string> {
+  const status = await client.getDraftStatus(id);
+
+  const lines = [
+    `Review the pending changes to document "${id}" before it is published.`,
+    '',
+    `Status: ${status.status}${status.hasUnpublishedChanges ? ' (has unpublished changes)' : ''}`,
+  ];
+
+  if (!status.draft) {
+    lines.push('', 'There is no draft, so there is nothing to publish. Say so and stop.');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '',
+    'Draft version:',
+    '```json',
+    JSON.stringify(status.draft, null, 2),
+    '```',
+    '',
+    status.published ? 'Published version:' : 'There is no published version yet; this would be the first publish.'
+  );
+  if (status.published) {
+    lines.push('```json', JSON.stringify(status.published, null, 2), '```');
+  }
+
+  lines.push(
+    '',
+    'Summarize what changed field by field, flag anything that looks accidental (empty required-looking fields,',
+    'broken references, placeholder text), and recommend whether to publish with `sanity_publish`.'
+  );
+  return lines.join('\n');
+}
+
+async function buildReferenceAuditPrompt(client: SanityClient, id: string): Promise<string> {
+  const [doc, references] = await Promise.all([client.getDocument(id), client.findReferences(id)]);
+
+  const lines = [`Audit the references to document "${id}" before it is deleted.`, ''];
+
+  if (!doc) {
+    lines.push(`Document "${id}" was not found.`);
+  } else {
+    lines.push(`Document: ${doc._type} "${String(doc.title ?? doc.name ?? doc._id)}"`);
+  }
+
+  if (references.length === 0) {
+    lines.push('', 'No documents reference it. It can be deleted without leaving broken references.');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '',
+    `${references.length} document(s) reference it:`,
+    ...references.map((ref) => `- ${ref._id} (${ref._type})`),
+    '',
+    'For each referencing document, explain what breaks if this document is deleted and suggest whether to',
+    'remove the reference, point it at a replacement, or keep the document. Do not delete anything yet.'
+  );
+  return lines.join('\n');
+}
+
+async function buildDraftDocumentPrompt(client: SanityClient, type: string, topic?: string): Promise<string> {
+  const schema = await client.getTypeSchema(type);
+
+  return [
+    `Draft a new "${type}" document${topic ? ` about: ${topic}` : ''}.`,
+    '',
+    `Existing "${type}" documents (${schema.count}) use these fields: ${schema.fields.join(', ') || '(no sample document found)'}`,
+    '',
+    'Fill in every field that makes sense, keep values in the same shape as existing documents',
+    '(use `sanity_query` to look at one if unsure), and create it as a draft with `sanity_create`',
+    'using an _id starting with "drafts." so an editor can review it before publishing.',
+  ].join('\n');
+}
@@ -0,0 +1,104 @@
+/**
+ * Content Releases
+ * Release and version document IDs, and the shapes returned by the release tools.
+ * A release groups document versions (`versions.<releaseId>.<documentId>`) that
+ * are published together.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { DiffChange } from './document-diff.js';
+
+export type ReleaseType = 'asap' | 'scheduled' | 'undecided';
+
+export interface ReleaseMetadata {
+  title: string;
+  description?: string;
+  /** Default: undecided */
+  releaseType?: ReleaseType;
+  /** ISO 8601 time the release is meant to go out, for scheduled releases */
+  intendedPublishAt?: string;
+}
+
+export interface ReleaseSummary {
+  releaseId: string;
+  state: string;
+  title?: string;
+  description?: string;
+  releaseType?: ReleaseType;
+  intendedPublishAt?: string;
+  publishAt?: string;
+  _createdAt?: string;
+  _updatedAt?: string;
+}
+
+/**
+ * A document version in a release, compared with the published document
+ */
+export interface ReleaseEntry {
+  documentId: string;
+  versionId: string;
+  _type: string;
+  /** new: not published yet; changed/unchanged: compared with published; unpublish: removed by the release */
+  status: 'new' | 'changed' | 'unchanged' | 'unpublish';
+  changes: DiffChange[];
+}
+
+const RELEASE_ID = /^[A-Za-z0-9][\w-]*$/;
+
+/**
+ * Generate a release ID in the Studio's format, e.g. `rK3a9xQ2m`
+ */
+export function newReleaseId(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  return `r${Array.from(randomBytes(8), (byte) => alphabet[byte % alphabet.length]).join('')}`;
+}
+
+/**
+ * Check a release ID before it is used in document IDs
+ */
+export function assertReleaseId(releaseId: string): void {
+  if (!RELEASE_ID.test(releaseId)) {
+    throw new Error(`Invalid release ID "${releaseId}": use letters, digits, "_" and "-"`);
+  }
+}
+
+/**
+ * ID of the system document that holds a release
+ */
+export function releaseDocumentId(releaseId: string): string {
+  return `_.releases.${releaseId}`;
+}
+
+/**
+ * ID of a document's version in a release
+ */
+export function versionId(releaseId: string, documentId: string): string {
+  return `versions.${releaseId}.${documentId.replace(/^(drafts|versions\.[^.]+)\./, '')}`;
+}
+
+/**
+ * Split a version ID into its release and published document ID
+ */
+export function parseVersionId(id: string): { releaseId: string; documentId: string } | undefined {
+  const match = /^versions\.([^.]+)\.(.+)$/.exec(id);
+  return match ? { releaseId: match[1], documentId: match[2] } : undefined;
+}
+
+/**
+ * Flatten a `system.release` document
+ */
+export function summarizeRelease(doc: Record<string, unknown>): ReleaseSummary {
+  const metadata = (doc.metadata || {}) as Partial<ReleaseMetadata>;
+  const releaseId = typeof doc.name === 'string' ? doc.name : String(doc._id).replace(/^_\.releases\./, '');
+  return {
+    releaseId,
+    state: String(doc.state ?? 'active'),
+    ...(metadata.title && { title: metadata.title }),
+    ...(metadata.description && { description: metadata.description }),
+    ...(metadata.releaseType && { releaseType: metadata.releaseType }),
+    ...(metadata.intendedPublishAt && { intendedPublishAt: metadata.intendedPublishAt }),
+    ...(typeof doc.publishAt === 'string' && { publishAt: doc.publishAt }),
+    ...(typeof doc._createdAt === 'string' && { _createdAt: doc._createdAt }),
+    ...(typeof doc._updatedAt === 'string' && { _updatedAt: doc._updatedAt }),
+  };
+}
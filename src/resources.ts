@@ -0,0 +1,223 @@
+/**
+ * MCP resources for Sanity content
+ * Exposes documents, type listings and GROQ queries under `sanity://` URIs:
+ *
+ *   sanity://<dataset>/doc/<id>
+ *   sanity://<dataset>/type/<type>?limit=<n>&cursor=<nextCursor>
+ *   sanity://<dataset>/query?groq=<query>&limit=<n>&cursor=<nextCursor>
+ *
+ * An optional `profile` query parameter selects a configured profile. Each kind
+ * is available only while its tool is enabled (see RESOURCE_TOOLS).
+ */
+
+import { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ClientPool } from './config.js';
+import { isToolEnabled, ToolAccessConfig } from './tool-access.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'sanity://{dataset}/doc/{id}',
+    name: 'Sanity document',
+    description: 'A single document by ID (drafts use the "drafts." prefix)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'sanity://{dataset}/type/{type}{?limit,cursor}',
+    name: 'Sanity documents by type',
+    description: `Paginated listing of documents of one type (default limit ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE}); follow \`next\` for the next page`,
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'sanity://{dataset}/query{?groq,limit,cursor}',
+    name: 'GROQ query result',
+    description: `The result of a URL-encoded GROQ query; array results are paged (default limit ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE}) with a \`next\` link`,
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * The tool whose access settings also govern each resource kind
+ */
+export const RESOURCE_TOOLS: Record<ParsedResourceUri['kind'], string> = {
+  doc: 'sanity_get_document',
+  type: 'sanity_list_documents',
+  query: 'sanity_query',
+};
+
+export type ParsedResourceUri =
+  | { kind: 'doc'; dataset: string; profile?: string; id: string }
+  | {
+      kind: 'type';
+      dataset: string;
+      profile?: string;
+      type: string;
+      limit: number;
+      cursor?: string;
+      /** Deprecated: skips documents before the first page; use cursor */
+      offset: number;
+    }
+  | { kind: 'query'; dataset: string; profile?: string; groq: string; limit: number; cursor?: string };
+
+/**
+ * Parse a `sanity://` resource URI
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+
+  if (url.protocol !== 'sanity:' || !url.hostname) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const dataset = decodeURIComponent(url.hostname);
+  const profile = url.searchParams.get('profile') || undefined;
+  const [kind, ...rest] = url.pathname.replace(/^\//, '').split('/');
+  const value = decodeURIComponent(rest.join('/'));
+  const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const cursor = url.searchParams.get('cursor') || undefined;
+
+  switch (kind) {
+    case 'doc':
+      if (!value) throw new Error(`Missing document ID in resource URI: ${uri}`);
+      return { kind, dataset, profile, id: value };
+
+    case 'type': {
+      if (!value) throw new Error(`Missing document type in resource URI: ${uri}`);
+      const offset = Math.max(Number(url.searchParams.get('offset')) || 0, 0);
+      return { kind, dataset, profile, type: value, limit, cursor, offset };
+    }
+
+    case 'query': {
+      const groq = url.searchParams.get('groq');
+      if (!groq) throw new Error(`Missing groq parameter in resource URI: ${uri}`);
+      return { kind, dataset, profile, groq, limit, cursor };
+    }
+
+    default:
+      throw new Error(`Unknown resource kind "${kind}" in URI: ${uri}`);
+  }
+}
+
+/**
+ * Build a `sanity://` URI for a document
+ */
+export function documentUri(dataset: string, id: string): string {
+  return `sanity://${dataset}/doc/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Build a `sanity://` URI for a page of documents of a type
+ */
+export function typeUri(dataset: string, type: string, page?: { limit: number; cursor: string }): string {
+  const base = `sanity://${dataset}/type/${encodeURIComponent(type)}`;
+  return page ? `${base}?limit=${page.limit}&cursor=${encodeURIComponent(page.cursor)}` : base;
+}
+
+/**
+ * Build a `sanity://` URI for a query, or for one page of its result
+ */
+export function queryUri(dataset: string, groq: string, page?: { limit: number; cursor: string }): string {
+  const base = `sanity://${dataset}/query?groq=${encodeURIComponent(groq)}`;
+  return page ? `${base}&limit=${page.limit}&cursor=${encodeURIComponent(page.cursor)}` : base;
+}
+
+/**
+ * Resource templates whose tools are enabled
+ */
+export function resourceTemplates(access: ToolAccessConfig = {}): ResourceTemplate[] {
+  return RESOURCE_TEMPLATES.filter((template) => {
+    const kind = /^sanity:\/\/\{dataset\}\/(\w+)/.exec(template.uriTemplate)![1] as ParsedResourceUri['kind'];
+    return isToolEnabled(RESOURCE_TOOLS[kind], access);
+  });
+}
+
+/**
+ * List one resource per document type in the default profile's dataset
+ */
+export async function listResources(clients: ClientPool, access: ToolAccessConfig = {}): Promise<Resource[]> {
+  if (!isToolEnabled(RESOURCE_TOOLS.type, access)) return [];
+  const { config } = clients.resolveTarget();
+  const types = await clients.getClient().getDocumentTypes();
+
+  return types.map((type) => ({
+    uri: typeUri(config.dataset, type),
+    name: `${type} documents`,
+    description: `Documents of type "${type}" in dataset "${config.dataset}"`,
+    mimeType: 'application/json',
+  }));
+}
+
+/**
+ * Read a `sanity://` resource
+ */
+export async function readResource(
+  clients: ClientPool,
+  uri: string,
+  access: ToolAccessConfig = {}
+): Promise<ReadResourceResult> {
+  const parsed = parseResourceUri(uri);
+  if (!isToolEnabled(RESOURCE_TOOLS[parsed.kind], access)) {
+    throw new Error(`${parsed.kind} resources are disabled on this server (${RESOURCE_TOOLS[parsed.kind]} is not enabled)`);
+  }
+  const client = clients.getClient({ profile: parsed.profile, dataset: parsed.dataset });
+  const profileParam = parsed.profile ? `&profile=${encodeURIComponent(parsed.profile)}` : '';
+
+  let data: unknown;
+  switch (parsed.kind) {
+    case 'doc': {
+      const doc = await client.getDocument(parsed.id);
+      if (!doc) throw new Error(`Document with ID "${parsed.id}" not found`);
+      data = doc;
+      break;
+    }
+
+    case 'type': {
+      const page = await client.listDocuments(parsed.type, {
+        limit: parsed.limit,
+        cursor: parsed.cursor,
+        offset: parsed.offset,
+      });
+      data = {
+        type: parsed.type,
+        limit: parsed.limit,
+        count: page.items.length,
+        next: page.nextCursor
+          ? typeUri(parsed.dataset, parsed.type, { limit: parsed.limit, cursor: page.nextCursor }) + profileParam
+          : null,
+        documents: page.items,
+      };
+      break;
+    }
+
+    case 'query': {
+      const page = await client.queryPage(parsed.groq, undefined, { pageSize: parsed.limit, cursor: parsed.cursor });
+      data = Array.isArray(page.result)
+        ? {
+            count: page.result.length,
+            next: page.nextCursor
+              ? queryUri(parsed.dataset, parsed.groq, { limit: parsed.limit, cursor: page.nextCursor }) + profileParam
+              : null,
+            result: page.result,
+          }
+        : page.result;
+      break;
+    }
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Reference-aware deletion
+ * Locates references inside documents and builds the mutations for the
+ * refuse, unlink and cascade delete strategies
+ */
+
+export type DeleteStrategy = 'refuse' | 'unlink' | 'cascade';
+
+/**
+ * A reference found inside a document
+ */
+export interface ReferencePath {
+  /** Patch path of the value to remove, e.g. `author` or `tags[_key=="a1"]` */
+  path: string;
+  /** The referenced document ID */
+  ref: string;
+  weak: boolean;
+}
+
+export interface ReferencingDocument {
+  _id: string;
+  _type: string;
+  _rev?: string;
+  references: ReferencePath[];
+}
+
+export interface DeletePlan {
+  strategy: DeleteStrategy;
+  /** The requested document and, when it exists, its draft/published twin */
+  targets: string[];
+  /** Documents outside the deletion set that reference a deleted document */
+  referencedBy: ReferencingDocument[];
+  /** Dependents deleted by the cascade strategy */
+  cascade: string[];
+  /** True when the refuse strategy found references; nothing will be deleted */
+  blocked: boolean;
+  /** Mutations that perform the delete in one transaction */
+  mutations: Array<Record<string, unknown>>;
+}
+
+/**
+ * Find references to any of `ids` inside a document, as patch paths.
+ * A reference in an array is removed with its array item; an asset reference is
+ * removed with the image/file object that holds it.
+ */
+export function findReferencePaths(doc: Record<string, unknown>, ids: string[]): ReferencePath[] {
+  const targets = new Set(ids);
+  const found: ReferencePath[] = [];
+
+  const visit = (value: unknown, path: string, parentPath: string, key: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const itemKey = item && typeof item === 'object' ? (item as { _key?: unknown })._key : undefined;
+        const itemPath = typeof itemKey === 'string' ? `${path}[_key=="${itemKey}"]` : `${path}[${index}]`;
+        visit(item, itemPath, path, '');
+      });
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const obj = value as Record<string, unknown>;
+    if (typeof obj._ref === 'string' && targets.has(obj._ref)) {
+      found.push({
+        path: key === 'asset' && parentPath ? parentPath : path,
+        ref: obj._ref,
+        weak: obj._weak === true,
+      });
+      return;
+    }
+    for (const [childKey, child] of Object.entries(obj)) {
+      if (childKey.startsWith('_')) continue;
+      visit(child, path ? `${path}.${childKey}` : childKey, path, childKey);
+    }
+  };
+
+  visit(doc, '', '', '');
+  return found;
+}
+
+/**
+ * Build the mutations for a delete plan: unlink patches first (guarded by the
+ * referencing document's revision), then the deletes
+ */
+export function buildDeleteMutations(
+  strategy: DeleteStrategy,
+  targets: string[],
+  referencedBy: ReferencingDocument[],
+  cascade: string[]
+): Array<Record<string, unknown>> {
+  if (strategy === 'refuse' && referencedBy.length) return [];
+
+  const mutations: Array<Record<string, unknown>> = [];
+  if (strategy === 'unlink') {
+    for (const doc of referencedBy) {
+      mutations.push({
+        patch: {
+          id: doc._id,
+          unset: Array.from(new Set(doc.references.map((ref) => ref.path))),
+          ...(doc._rev && { ifRevisionID: doc._rev }),
+        },
+      });
+    }
+  }
+  for (const id of [...cascade, ...targets]) {
+    mutations.push({ delete: { id } });
+  }
+  return mutations;
+}
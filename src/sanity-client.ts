@@ -3,6 +3,65 @@
  * Handles all communication with the Sanity Content Lake API
  */
 
+import { randomUUID } from 'node:crypto';
+import { InferredField, SchemaInferrer } from './schema-inference.js';
+import {
+  HtmlToPortableTextOptions,
+  htmlToPortableText,
+  imageToLinkBlock,
+} from './html-to-portable-text.js';
+import { PortableTextItem } from './portable-text.js';
+import { AssetKind, defaultFilename, parseDataUrl } from './assets.js';
+import {
+  buildDeleteMutations,
+  DeletePlan,
+  DeleteStrategy,
+  findReferencePaths,
+  ReferencingDocument,
+} from './safe-delete.js';
+import {
+  DiffChange,
+  diffDocuments,
+  DiffOptions,
+  DiffPatchPlan,
+  selectChanges,
+  toSanityPatches,
+} from './document-diff.js';
+import { assertValidPatch, PatchOperations } from './patch-operations.js';
+import {
+  assertReleaseId,
+  newReleaseId,
+  parseVersionId,
+  releaseDocumentId,
+  ReleaseEntry,
+  ReleaseMetadata,
+  ReleaseSummary,
+  summarizeRelease,
+  versionId,
+} from './releases.js';
+import {
+  decodeCursor,
+  DEFAULT_ORDER,
+  encodeCursor,
+  fitToBudget,
+  keysetFilter,
+  orderClause,
+  Page,
+  parseOrder,
+  queryFingerprint,
+} from './pagination.js';
+import {
+  buildSearchQuery,
+  DEFAULT_TYPE_SEARCH,
+  finishSearchHits,
+  parseSearchQuery,
+  SearchConfig,
+  searchConfigFromSchema,
+  SearchGroup,
+  SearchHit,
+  TypeSearchConfig,
+} from './search.js';
+
 export interface SanityConfig {
   projectId: string;
   dataset: string;
@@ -32,6 +91,28 @@ export interface MutationResult {
     id: string;
     operation: string;
   }>;
+  /** Set for writes made with `draft: true` */
+  drafts?: DraftWrite;
+}
+
+/**
+ * Drafts written in draft-first mode
+ */
+export interface DraftWrite {
+  /** Draft IDs that were created or changed */
+  ids: string[];
+  /** Published IDs whose draft was first created from the published version */
+  seededFromPublished: string[];
+}
+
+/**
+ * Options for writes that can go to drafts
+ */
+export interface WriteOptions {
+  /** Fail if the document is at another revision */
+  ifRevision?: string;
+  /** Write to `drafts.<id>`, seeding the draft from the published version (copy-on-write) */
+  draft?: boolean;
 }
 
 export interface AssetDocument {
@@ -41,14 +122,50 @@ export interface AssetDocument {
   originalFilename?: string;
   mimeType?: string;
   size?: number;
+  title?: string;
+  description?: string;
+  altText?: string;
+}
+
+export interface AssetUploadOptions {
+  /** `image` creates a `sanity.imageAsset`, `file` a `sanity.fileAsset` (default: image) */
+  kind?: AssetKind;
+  filename: string;
+  contentType: string;
+  title?: string;
+  description?: string;
+  /** Stored as the asset's `altText` (images only) */
+  altText?: string;
+  /** Where the asset came from, e.g. `{ name: 'unsplash', id: 'abc', url: 'https://…' }` */
+  source?: { name: string; id?: string; url?: string };
+}
+
+export interface HtmlImportOptions extends HtmlToPortableTextOptions {
+  /** Upload images that are not Sanity assets yet (default: true). Skipped images become links. */
+  uploadImages?: boolean;
+  /**
+   * Hosts remote images may be downloaded from (`*.example.com` also matches
+   * subdomains). Any host when unset; none when empty, leaving only data URLs.
+   */
+  imageHosts?: string[];
+}
+
+export interface HtmlImportResult {
+  blocks: PortableTextItem[];
+  /** Images uploaded during the import */
+  uploaded: Array<{ src: string; assetId: string }>;
+  /** Images left as links, with the reason */
+  skipped: Array<{ src: string; reason: string }>;
 }
 
 export class SanityClient {
-  private projectId: string;
-  private dataset: string;
+  readonly projectId: string;
+  readonly dataset: string;
   private apiVersion: string;
   private token?: string;
   private useCdn: boolean;
+  /** Search fields inferred per type; undefined when a type has no text fields */
+  private inferredSearch = new Map<string, TypeSearchConfig | undefined>();
 
   constructor(config: SanityConfig) {
     this.projectId = config.projectId;
@@ -79,12 +196,21 @@ export class SanityClient {
    */
   async query<T = unknown>(
     groqQuery: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options?: QueryOptions
   ): Promise<QueryResult<T>> {
-    const url = new URL(`${this.baseUrl}/data/query/${this.dataset}`);
+    // Perspectives other than the API version's default need the releases-aware API
+    const baseUrl = options?.perspective
+      ? this.baseUrl.replace(/\/v[^/]+$/, `/v${this.versionAtLeast(ACTIONS_API_VERSION)}`)
+      : this.baseUrl;
+    const url = new URL(`${baseUrl}/data/query/${this.dataset}`);
+    if (options?.perspective) {
+      const perspective = Array.isArray(options.perspective) ? options.perspective : [options.perspective];
+      url.searchParams.set('perspective', perspective.join(','));
+    }
     
-    // For short queries, use GET; for long queries, use POST
-    const queryString = encodeURIComponent(groqQuery);
+    // For short queries, use GET; for long queries (or large params, e.g. ID lists), use POST
+    const queryString = encodeURIComponent(groqQuery) + encodeURIComponent(JSON.stringify(params || {}));
     const isShortQuery = queryString.length < 10000;
 
     if (isShortQuery) {
@@ -95,10 +221,7 @@ export class SanityClient {
         }
       }
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: this.headers,
-      });
+      const response = await this.fetchQuery(url, { method: 'GET', headers: this.headers }, options?.timeout);
 
       if (!response.ok) {
         const error = await response.text();
@@ -113,11 +236,11 @@ export class SanityClient {
         body.params = params;
       }
 
-      const response = await fetch(`${this.baseUrl}/data/query/${this.dataset}`, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(body),
-      });
+      const response = await this.fetchQuery(
+        url,
+        { method: 'POST', headers: this.headers, body: JSON.stringify(body) },
+        options?.timeout
+      );
 
       if (!response.ok) {
         const error = await response.text();
@@ -128,6 +251,62 @@ export class SanityClient {
     }
   }
 
+  private async fetchQuery(url: URL, init: RequestInit, timeout?: number): Promise<Response> {
+    try {
+      return await fetch(url.toString(), timeout ? { ...init, signal: AbortSignal.timeout(timeout) } : init);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(
+          `Query timed out after ${timeout! / 1000}s; narrow the filter, project fewer fields or use a smaller pageSize`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a query and return one page of its result. Array results are sliced on the
+   * server, so only the page is fetched; `nextCursor` continues the same query.
+   * Other results come back whole, from the same request. Pages are cut short to
+   * stay within `maxChars`.
+   */
+  async queryPage(
+    groqQuery: string,
+    params?: Record<string, unknown>,
+    options?: QueryOptions & { pageSize?: number; cursor?: string; maxChars?: number }
+  ): Promise<{ result: unknown; nextCursor: string | null }> {
+    const pageSize = options?.pageSize || DEFAULT_QUERY_PAGE_SIZE;
+    const fingerprint = queryFingerprint(groqQuery, params, options?.perspective);
+    let offset = 0;
+    if (options?.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      if (cursor.kind !== 'offset' || cursor.query !== fingerprint) {
+        throw new Error('Cursor belongs to another query: repeat the same query, params and perspective with it');
+      }
+      offset = cursor.offset;
+    }
+
+    const queryOptions: QueryOptions = { perspective: options?.perspective, timeout: options?.timeout };
+    // The newline keeps a trailing `//` comment from swallowing the parenthesis.
+    // Slicing a non-array gives null, so only arrays are sliced and the rest is
+    // returned as it is.
+    const wrapped = `(${groqQuery}\n)`;
+    const paged =
+      `select(defined(${wrapped}[0...0]) => ${wrapped}[${offset}...${offset + pageSize + 1}], ${wrapped})`;
+    const items = (await this.query<unknown>(paged, params, queryOptions)).result;
+    if (!Array.isArray(items)) {
+      fitToBudget([items], options?.maxChars);
+      return { result: items, nextCursor: null };
+    }
+
+    const count = Math.min(pageSize, fitToBudget(items.slice(0, pageSize), options?.maxChars));
+    return {
+      result: items.slice(0, count),
+      nextCursor:
+        items.length > count ? encodeCursor({ kind: 'offset', query: fingerprint, offset: offset + count }) : null,
+    };
+  }
+
   /**
    * Get a single document by ID
    */
@@ -159,38 +338,99 @@ export class SanityClient {
   }
 
   /**
-   * Search documents using full-text search
+   * List documents of a type a page at a time, with keyset pagination on the sort
+   * keys and `_id`: each page starts after the last document of the previous one,
+   * so deep pages stay fast and inserts do not shift them. Pass a page's
+   * `nextCursor` as `cursor` to get the next one. `offset` skips documents
+   * before the first page only.
+   */
+  async listDocuments<T extends SanityDocument = SanityDocument>(
+    type: string,
+    options?: { limit?: number; order?: string; cursor?: string; offset?: number; maxChars?: number }
+  ): Promise<Page<T>> {
+    if (options?.cursor && options.offset) {
+      throw new Error('offset cannot be combined with cursor: the cursor already says where the page starts');
+    }
+    const limit = options?.limit || 100;
+    const offset = options?.offset || 0;
+    let order = options?.order || DEFAULT_ORDER;
+    let after: unknown[] | undefined;
+    if (options?.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      if (cursor.kind !== 'keyset' || cursor.type !== type) {
+        throw new Error(`Cursor is not for a listing of ${type}`);
+      }
+      if (options.order && options.order !== cursor.order) {
+        throw new Error(`Cursor continues the order "${cursor.order}"; leave out order or start without a cursor`);
+      }
+      order = cursor.order;
+      after = cursor.values;
+    }
+
+    const keys = parseOrder(order);
+    const keyset = after && keysetFilter(keys, after);
+    const query =
+      `*[_type == $type${keyset ? ` && ${keyset.filter}` : ''}] | order(${orderClause(keys)}) [${offset}...${offset + limit + 1}] ` +
+      `{ ..., "_cursor": [${keys.map((key) => key.expression).join(', ')}] }`;
+    const rows = (await this.query<Array<T & { _cursor: unknown[] }>>(query, { ...keyset?.params, type })).result;
+
+    const count = Math.min(limit, fitToBudget(rows.slice(0, limit), options?.maxChars));
+    const page = rows.slice(0, count);
+    return {
+      items: page.map(({ _cursor, ...doc }) => doc as unknown as T),
+      nextCursor:
+        rows.length > count ? encodeCursor({ kind: 'keyset', type, order, values: page[count - 1]._cursor }) : null,
+    };
+  }
+
+  /**
+   * Search documents using full-text search.
+   * Supports `"exact phrases"`, `prefix*` and `-excluded` terms; other words must match
+   * whole words. Fields and boosts come from `config` per type; with `inferFields`, types
+   * named in `types` without settings are searched on fields from their inferred schema.
    */
-  async search<T extends SanityDocument = SanityDocument>(
+  async search(
     searchTerm: string,
     options?: {
       types?: string[];
       limit?: number;
+      config?: SearchConfig;
     }
-  ): Promise<T[]> {
+  ): Promise<SearchHit[]> {
     const limit = options?.limit || 20;
-    const typeFilter = options?.types?.length
-      ? `&& _type in ${JSON.stringify(options.types)}`
-      : '';
-
-    const query = `*[_type != "sanity.imageAsset" && _type != "sanity.fileAsset" ${typeFilter}] | score(
-      boost(title match $searchTerm, 3),
-      boost(name match $searchTerm, 3),
-      boost(description match $searchTerm, 2),
-      boost(body match $searchTerm, 1),
-      boost(pt::text(body) match $searchTerm, 1)
-    ) | order(_score desc) [0...${limit}] {
-      _id,
-      _type,
-      _score,
-      title,
-      name,
-      slug,
-      description
-    }`;
+    const terms = parseSearchQuery(searchTerm);
+    const groups = await this.searchGroups(options?.types, options?.config);
 
-    const result = await this.query<T[]>(query, { searchTerm: `*${searchTerm}*` });
-    return result.result;
+    const { query, params } = buildSearchQuery(terms, groups, { types: options?.types, limit });
+    const result = await this.query<Array<Record<string, unknown>>>(query, params);
+    return finishSearchHits(result.result, terms, groups, limit);
+  }
+
+  /**
+   * Search settings for each type, falling back to the default fields
+   */
+  private async searchGroups(types: string[] = [], config: SearchConfig = {}): Promise<SearchGroup[]> {
+    const groups: SearchGroup[] = [];
+    for (const type of Object.keys(config.types || {})) {
+      if (!types.length || types.includes(type)) groups.push({ types: [type], config: config.types![type] });
+    }
+
+    if (config.inferFields) {
+      for (const type of types.filter((name) => !config.types?.[name])) {
+        let inferred = this.inferredSearch.get(type);
+        if (!this.inferredSearch.has(type)) {
+          inferred = searchConfigFromSchema(await this.getTypeSchema(type, { sampleSize: SEARCH_SAMPLE_SIZE }));
+          this.inferredSearch.set(type, inferred);
+        }
+        if (inferred) groups.push({ types: [type], config: inferred });
+      }
+    }
+
+    const covered = new Set(groups.flatMap((group) => group.types || []));
+    if (!types.length || types.some((type) => !covered.has(type))) {
+      groups.push({ config: config.default || DEFAULT_TYPE_SEARCH });
+    }
+    return groups;
   }
 
   /**
@@ -214,25 +454,63 @@ export class SanityClient {
   }
 
   /**
-   * Get schema information for a document type
+   * Infer the schema of a document type by sampling its documents.
+   * Samples the most recently updated `sampleSize` documents (default 100,
+   * clamped to 1-MAX_SCHEMA_SAMPLE_SIZE), or every document when `all` is set
+   * (paged by `_id`).
    */
-  async getTypeSchema(type: string): Promise<{ fields: string[]; count: number }> {
-    // Get a sample document and extract field names
-    const sampleQuery = `*[_type == $type][0]`;
-    const countQuery = `count(*[_type == $type])`;
+  async getTypeSchema(
+    type: string,
+    options?: { sampleSize?: number; all?: boolean }
+  ): Promise<TypeSchema> {
+    const requested = Math.trunc(Number(options?.sampleSize ?? DEFAULT_SCHEMA_SAMPLE_SIZE));
+    const sampleSize = Number.isNaN(requested)
+      ? DEFAULT_SCHEMA_SAMPLE_SIZE
+      : Math.min(Math.max(requested, 1), MAX_SCHEMA_SAMPLE_SIZE);
+    const inferrer = new SchemaInferrer();
+
+    const sample = async (): Promise<number> => {
+      if (!options?.all) {
+        const query = `*[_type == $type] | order(_updatedAt desc) [0...${sampleSize}]`;
+        const result = await this.query<SanityDocument[]>(query, { type });
+        result.result.forEach((doc) => inferrer.addDocument(doc));
+        return result.result.length;
+      }
+
+      let sampled = 0;
+      let lastId = '';
+      for (;;) {
+        const query = `*[_type == $type && _id > $lastId] | order(_id) [0...${SCHEMA_PAGE_SIZE}]`;
+        const page = (await this.query<SanityDocument[]>(query, { type, lastId })).result;
+        page.forEach((doc) => inferrer.addDocument(doc));
+        sampled += page.length;
+        if (page.length < SCHEMA_PAGE_SIZE) return sampled;
+        lastId = page[page.length - 1]._id;
+      }
+    };
 
-    const [sample, countResult] = await Promise.all([
-      this.query<SanityDocument | null>(sampleQuery, { type }),
-      this.query<number>(countQuery, { type }),
+    const [sampled, countResult] = await Promise.all([
+      sample(),
+      this.query<number>(`count(*[_type == $type])`, { type }),
     ]);
 
-    const fields = sample.result
-      ? Object.keys(sample.result).filter((k) => !k.startsWith('_'))
-      : [];
+    // Resolve the document types of referenced IDs (asset IDs are resolved from their prefix)
+    const referenceIds = inferrer
+      .referenceIds()
+      .filter((id) => !id.startsWith('image-') && !id.startsWith('file-'))
+      .slice(0, 1000);
+    const referenceTypes: Record<string, string> = {};
+    if (referenceIds.length) {
+      const refs = await this.query<DocumentReference[]>(`*[_id in $ids]{ _id, _type }`, {
+        ids: referenceIds,
+      });
+      for (const ref of refs.result) referenceTypes[ref._id] = ref._type;
+    }
 
     return {
-      fields,
+      ...inferrer.toSchema(referenceTypes),
       count: countResult.result,
+      sampled,
     };
   }
 
@@ -244,10 +522,54 @@ export class SanityClient {
   }
 
   /**
-   * Get the assets API URL
+   * Get the Actions API URL. Actions need a newer API version than the default.
+   */
+  private get actionsUrl(): string {
+    return `https://${this.projectId}.api.sanity.io/v${this.versionAtLeast(ACTIONS_API_VERSION)}/data/actions/${this.dataset}`;
+  }
+
+  /**
+   * The configured API version, or `minimum` when that is newer
+   */
+  private versionAtLeast(minimum: string): string {
+    return this.apiVersion >= minimum ? this.apiVersion : minimum;
+  }
+
+  /**
+   * Stream every document in the dataset from the export endpoint, optionally
+   * limited to some types. Documents are yielded as they arrive.
+   */
+  async *exportDocuments(options?: { types?: string[] }): AsyncGenerator<SanityDocument> {
+    const url = new URL(`https://${this.projectId}.api.sanity.io/v${this.apiVersion}/data/export/${this.dataset}`);
+    if (options?.types?.length) {
+      url.searchParams.set('types', options.types.join(','));
+    }
+
+    const response = await fetch(url.toString(), { headers: this.headers });
+    if (!response.ok || !response.body) {
+      const error = await response.text();
+      throw new Error(`Sanity export failed: ${response.status} - ${error}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of response.body) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() as string;
+      for (const line of lines) {
+        if (line.trim()) yield parseExportLine(line);
+      }
+    }
+    buffered += decoder.decode();
+    if (buffered.trim()) yield parseExportLine(buffered);
+  }
+
+  /**
+   * Get the assets API URL for images or files
    */
-  private get assetsUrl(): string {
-    return `https://${this.projectId}.api.sanity.io/v${this.apiVersion}/assets/images/${this.dataset}`;
+  private assetsUrl(kind: AssetKind): string {
+    return `https://${this.projectId}.api.sanity.io/v${this.apiVersion}/assets/${kind}s/${this.dataset}`;
   }
 
   /**
@@ -272,68 +594,184 @@ export class SanityClient {
 
     if (!response.ok) {
       const error = await response.text();
+      const conflict = response.status === 409 ? await this.findRevisionConflict(mutationGuards(mutations)) : undefined;
+      if (conflict) throw conflict;
       throw new Error(`Sanity mutation failed: ${response.status} - ${error}`);
     }
 
     return response.json() as Promise<MutationResult>;
   }
 
+  /**
+   * Run document and release actions in one transaction
+   */
+  private async action(actions: ContentAction[]): Promise<{ transactionId: string }> {
+    if (!this.token) {
+      throw new Error('Write operations require a Sanity API token');
+    }
+
+    const response = await fetch(this.actionsUrl, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({ actions }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      const guards = new Map<string, string>();
+      for (const action of actions) {
+        if (typeof action.draftId === 'string' && typeof action.ifDraftRevisionId === 'string') {
+          guards.set(action.draftId, action.ifDraftRevisionId);
+        }
+      }
+      const conflict = response.status === 409 ? await this.findRevisionConflict(guards) : undefined;
+      if (conflict) throw conflict;
+      throw new Error(`Sanity action failed: ${response.status} - ${error}`);
+    }
+
+    return response.json() as Promise<{ transactionId: string }>;
+  }
+
+  /**
+   * Run mutations, rewritten to target drafts when `draft` is set
+   */
+  private async write(mutations: Array<Record<string, unknown>>, draft?: boolean): Promise<MutationResult> {
+    if (!draft) return this.mutate(mutations);
+    const drafted = await this.toDraftMutations(mutations);
+    const result = await this.mutate(drafted.mutations);
+    return { ...result, drafts: { ids: drafted.ids, seededFromPublished: drafted.seeded } };
+  }
+
+  /**
+   * Rewrite mutations for draft-first editing. Creates and replaces go to
+   * `drafts.<id>`. Patches go to the draft, which is first created from the
+   * published document when there is no draft yet (copy-on-write). A patch's
+   * revision guard stays on the document ID it names, i.e. the one that was read.
+   */
+  private async toDraftMutations(
+    mutations: Array<Record<string, unknown>>
+  ): Promise<{ mutations: Array<Record<string, unknown>>; ids: string[]; seeded: string[] }> {
+    const patched = mutations
+      .filter((mutation) => mutation.patch && !isRevisionGuard(mutation))
+      .map((mutation) => publishedIdOf((mutation.patch as { id: string }).id));
+    const existing = new Set<string>();
+    const published = new Map<string, SanityDocument>();
+    if (patched.length) {
+      const ids = Array.from(new Set(patched)).flatMap((id) => [id, `drafts.${id}`]);
+      const found = await this.query<SanityDocument[]>(`*[_id in $ids]`, { ids });
+      for (const doc of found.result) {
+        existing.add(doc._id);
+        if (!doc._id.startsWith('drafts.')) published.set(doc._id, doc);
+      }
+    }
+
+    const rewritten: Array<Record<string, unknown>> = [];
+    const ids = new Set<string>();
+    const seeded = new Set<string>();
+    for (const mutation of mutations) {
+      const [kind, body] = Object.entries(mutation)[0] as [string, Record<string, unknown>];
+      if (kind === 'create' || kind === 'createOrReplace' || kind === 'createIfNotExists') {
+        const draftId = `drafts.${publishedIdOf(typeof body._id === 'string' ? body._id : randomUUID())}`;
+        rewritten.push({ [kind]: { ...body, _id: draftId } });
+        ids.add(draftId);
+      } else if (kind === 'patch' && !isRevisionGuard(mutation)) {
+        const { id, ifRevisionID, ...patch } = body as { id: string; ifRevisionID?: string };
+        const publishedId = publishedIdOf(id);
+        const draftId = `drafts.${publishedId}`;
+        if (ifRevisionID && id !== draftId) rewritten.push(revisionGuard(id, ifRevisionID));
+        const source = published.get(publishedId);
+        if (!existing.has(draftId) && source && !seeded.has(publishedId)) {
+          const { _rev, _updatedAt, ...content } = source;
+          rewritten.push({ createIfNotExists: { ...content, _id: draftId } });
+          seeded.add(publishedId);
+        }
+        rewritten.push({ patch: { id: draftId, ...patch, ...(ifRevisionID && id === draftId && { ifRevisionID }) } });
+        ids.add(draftId);
+      } else {
+        rewritten.push(mutation);
+      }
+    }
+    return { mutations: rewritten, ids: Array.from(ids), seeded: Array.from(seeded) };
+  }
+
+  /**
+   * After a failed transaction, find a guarded document (ID → expected revision)
+   * that has moved on to another revision
+   */
+  private async findRevisionConflict(guards: Map<string, string>): Promise<RevisionConflictError | undefined> {
+    if (!guards.size) return undefined;
+
+    const current = await this.query<Array<{ _id: string; _rev: string }>>(`*[_id in $ids]{ _id, _rev }`, {
+      ids: Array.from(guards.keys()),
+    });
+    for (const [id, expected] of guards) {
+      const rev = current.result.find((doc) => doc._id === id)?._rev ?? null;
+      if (rev !== expected) return new RevisionConflictError(id, expected, rev);
+    }
+    return undefined;
+  }
+
   /**
    * Create a new document
    */
   async createDocument<T extends Omit<SanityDocument, '_id' | '_rev' | '_createdAt' | '_updatedAt'>>(
-    document: T & { _type: string; _id?: string }
+    document: T & { _type: string; _id?: string },
+    options?: Pick<WriteOptions, 'draft'>
   ): Promise<MutationResult> {
     const mutation = document._id
       ? { createOrReplace: document }
       : { create: document };
     
-    return this.mutate([mutation]);
+    return this.write([mutation], options?.draft);
   }
 
   /**
-   * Update an existing document (replaces the entire document)
+   * Update an existing document (replaces the entire document).
+   * With `ifRevision`, the write fails if the document is at another revision.
    */
   async updateDocument(
     id: string,
-    document: Record<string, unknown>
+    document: Record<string, unknown>,
+    options?: WriteOptions
   ): Promise<MutationResult> {
-    return this.mutate([
+    return this.write([
+      ...(options?.ifRevision ? [revisionGuard(id, options.ifRevision)] : []),
       {
         createOrReplace: {
           _id: id,
           ...document,
         },
       },
-    ]);
+    ], options?.draft);
   }
 
   /**
-   * Patch a document (partial update)
+   * Patch a document (partial update). Several patch steps are applied in order
+   * in one transaction.
+   * With `ifRevision`, the patch fails if the document is at another revision.
    */
   async patchDocument(
     id: string,
-    patches: {
-      set?: Record<string, unknown>;
-      unset?: string[];
-      inc?: Record<string, number>;
-      dec?: Record<string, number>;
-      insert?: {
-        before?: string;
-        after?: string;
-        replace?: string;
-        items: unknown[];
-      };
-    }
+    patches: PatchOperations | PatchOperations[],
+    options?: WriteOptions
   ): Promise<MutationResult> {
-    return this.mutate([
-      {
+    const steps = Array.isArray(patches) ? patches : [patches];
+    if (!steps.length) {
+      throw new Error('Invalid patch: no patch steps');
+    }
+    // The ID and revision guard belong to the whole patch, not to a step
+    steps.forEach((step, i) => assertValidPatch({ ...step }, steps.length > 1 ? `patch step ${i + 1}` : 'patch', []));
+
+    return this.write(
+      steps.map((step, i) => ({
         patch: {
           id,
-          ...patches,
+          ...step,
+          ...(i === 0 && options?.ifRevision && { ifRevisionID: options.ifRevision }),
         },
-      },
-    ]);
+      })),
+      options?.draft
+    );
   }
 
   /**
@@ -343,6 +781,101 @@ export class SanityClient {
     return this.mutate([{ delete: { id } }]);
   }
 
+  /**
+   * Plan a reference-aware delete without changing anything.
+   *
+   * References to the document and its draft/published twin are looked up first.
+   * `refuse` (default) blocks the delete when any exist, `unlink` removes the
+   * references in the same transaction, and `cascade` also deletes every document
+   * that (transitively) references it.
+   */
+  async planDelete(
+    id: string,
+    options?: { strategy?: DeleteStrategy; includeDraft?: boolean; maxDepth?: number }
+  ): Promise<DeletePlan> {
+    const strategy = options?.strategy || 'refuse';
+    const maxDepth = options?.maxDepth ?? 5;
+    const publishedId = id.replace(/^drafts\./, '');
+    const candidates = options?.includeDraft === false ? [id] : [publishedId, `drafts.${publishedId}`];
+
+    const existing = (await this.query<string[]>(`*[_id in $ids]._id`, { ids: candidates })).result;
+    const targets = candidates.filter((candidate) => existing.includes(candidate));
+    if (!targets.length) {
+      throw new Error(`Document not found: ${id}`);
+    }
+
+    const deleting = new Set(targets);
+    const cascade: string[] = [];
+    let referencedBy: ReferencingDocument[] = [];
+    let frontier = targets;
+
+    for (let depth = 1; frontier.length; depth++) {
+      const referrers = await this.findReferencingDocuments(frontier, Array.from(deleting));
+      if (depth === 1) referencedBy = referrers;
+      if (strategy !== 'cascade' || !referrers.length) break;
+
+      if (depth > maxDepth) {
+        throw new Error(`Cascade delete of ${id} goes deeper than ${maxDepth} levels; delete dependents first`);
+      }
+      frontier = referrers.map((doc) => doc._id);
+      for (const dependent of frontier) {
+        deleting.add(dependent);
+        cascade.push(dependent);
+      }
+    }
+
+    return {
+      strategy,
+      targets,
+      referencedBy,
+      cascade,
+      blocked: strategy === 'refuse' && referencedBy.length > 0,
+      mutations: buildDeleteMutations(strategy, targets, referencedBy, cascade),
+    };
+  }
+
+  /**
+   * Delete a document using a reference-aware strategy (see `planDelete`).
+   * With `dryRun`, only the plan is returned.
+   */
+  async safeDelete(
+    id: string,
+    options?: { strategy?: DeleteStrategy; includeDraft?: boolean; maxDepth?: number; dryRun?: boolean }
+  ): Promise<{ plan: DeletePlan; result?: MutationResult }> {
+    const plan = await this.planDelete(id, options);
+    if (options?.dryRun) {
+      return { plan };
+    }
+    if (plan.blocked) {
+      const list = plan.referencedBy.map((doc) => `${doc._id} (${doc._type})`).join(', ');
+      throw new Error(
+        `Cannot delete ${id}: referenced by ${list}. Use strategy "unlink" or "cascade", or remove the references first`
+      );
+    }
+    return { plan, result: await this.mutate(plan.mutations) };
+  }
+
+  /**
+   * Documents (outside `exclude`) that reference any of `ids`, with the paths of those references
+   */
+  private async findReferencingDocuments(ids: string[], exclude: string[]): Promise<ReferencingDocument[]> {
+    const docs = (
+      await this.query<SanityDocument[]>(
+        `*[references($ids) && !(_id in $exclude)][0...${REFERRER_LIMIT + 1}]`,
+        { ids, exclude }
+      )
+    ).result;
+    if (docs.length > REFERRER_LIMIT) {
+      throw new Error(`More than ${REFERRER_LIMIT} documents reference ${ids.join(', ')}`);
+    }
+    return docs.map((doc) => ({
+      _id: doc._id,
+      _type: doc._type,
+      ...(doc._rev && { _rev: doc._rev }),
+      references: findReferencePaths(doc, ids),
+    }));
+  }
+
   /**
    * Upload an image asset
    */
@@ -351,27 +884,48 @@ export class SanityClient {
     filename: string,
     contentType: string = 'image/jpeg'
   ): Promise<AssetDocument> {
+    return this.uploadAsset(imageBuffer, { kind: 'image', filename, contentType });
+  }
+
+  /**
+   * Upload an image or file asset with optional metadata
+   */
+  async uploadAsset(buffer: Buffer, options: AssetUploadOptions): Promise<AssetDocument> {
+    const kind = options.kind || 'image';
+    const label = kind === 'image' ? 'Image' : 'File';
     if (!this.token) {
-      throw new Error('Image upload requires a Sanity API token');
+      throw new Error(`${label} upload requires a Sanity API token`);
     }
 
-    const url = `${this.assetsUrl}?filename=${encodeURIComponent(filename)}`;
-    
-    const response = await fetch(url, {
+    const params = new URLSearchParams({ filename: options.filename });
+    if (options.title) params.set('title', options.title);
+    if (options.description) params.set('description', options.description);
+    if (options.source) {
+      params.set('sourceName', options.source.name);
+      if (options.source.id) params.set('sourceId', options.source.id);
+      if (options.source.url) params.set('sourceUrl', options.source.url);
+    }
+
+    const response = await fetch(`${this.assetsUrl(kind)}?${params}`, {
       method: 'POST',
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': options.contentType,
         'Authorization': `Bearer ${this.token}`,
       },
-      body: imageBuffer,
+      body: buffer,
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Image upload failed: ${response.status} - ${error}`);
+      throw new Error(`${label} upload failed: ${response.status} - ${error}`);
     }
 
     const result = await response.json() as { document: AssetDocument };
+    // Alt text isn't accepted by the upload endpoint, so it is set on the asset document
+    if (options.altText && kind === 'image') {
+      await this.patchDocument(result.document._id, { set: { altText: options.altText } });
+      result.document.altText = options.altText;
+    }
     return result.document;
   }
 
@@ -389,101 +943,435 @@ export class SanityClient {
   }
 
   /**
-   * Publish a draft document (remove drafts. prefix)
+   * Create a file reference from an asset ID
    */
-  async publishDocument(draftId: string): Promise<MutationResult> {
-    // Get the draft document
-    const draft = await this.getDocument(draftId);
-    if (!draft) {
-      throw new Error(`Draft document not found: ${draftId}`);
-    }
-
-    // Determine the published ID
-    const publishedId = draftId.startsWith('drafts.')
-      ? draftId.replace('drafts.', '')
-      : draftId;
-
-    // Create the published version and delete the draft
-    const { _id, _rev, ...documentData } = draft;
-    
-    return this.mutate([
-      {
-        createOrReplace: {
-          _id: publishedId,
-          ...documentData,
-        },
-      },
-      {
-        delete: {
-          id: draftId,
-        },
+  createFileReference(assetId: string): { _type: 'file'; asset: { _type: 'reference'; _ref: string } } {
+    return {
+      _type: 'file',
+      asset: {
+        _type: 'reference',
+        _ref: assetId,
       },
-    ]);
+    };
   }
 
   /**
-   * Unpublish a document (move to drafts)
+   * Convert HTML to Portable Text, uploading embedded images as Sanity assets.
+   * Images are fetched from http(s) or read from data URLs; each distinct source
+   * is uploaded once. Images that can't be uploaded are kept as links.
    */
-  async unpublishDocument(publishedId: string): Promise<MutationResult> {
-    // Get the published document
-    const published = await this.getDocument(publishedId);
-    if (!published) {
-      throw new Error(`Published document not found: ${publishedId}`);
-    }
+  async importHtml(html: string, options: HtmlImportOptions = {}): Promise<HtmlImportResult> {
+    const { blocks, images } = htmlToPortableText(html, options);
+    const uploaded: HtmlImportResult['uploaded'] = [];
+    const skipped: HtmlImportResult['skipped'] = [];
+    const assetIds = new Map<string, string>();
+    const pending = new Map(images.map((image) => [image.key, image]));
 
-    // Determine the draft ID
-    const draftId = publishedId.startsWith('drafts.')
-      ? publishedId
-      : `drafts.${publishedId}`;
+    for (const image of images) {
+      if (assetIds.has(image.src) || skipped.some((entry) => entry.src === image.src)) continue;
+      if (options.uploadImages === false) {
+        skipped.push({ src: image.src, reason: 'Image upload disabled' });
+        continue;
+      }
+      try {
+        const { buffer, contentType, filename } = await this.fetchImage(image.src, options.imageHosts);
+        const asset = await this.uploadImage(buffer, filename, contentType);
+        assetIds.set(image.src, asset._id);
+        uploaded.push({ src: image.src, assetId: asset._id });
+      } catch (error) {
+        skipped.push({ src: image.src, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
 
-    // Create the draft version and delete the published
-    const { _id, _rev, ...documentData } = published;
-    
-    return this.mutate([
-      {
-        createOrReplace: {
-          _id: draftId,
-          ...documentData,
-        },
-      },
-      {
-        delete: {
-          id: publishedId,
-        },
-      },
-    ]);
+    return {
+      blocks: blocks.map((block) => {
+        const image = pending.get(block._key);
+        if (!image) return block;
+        const assetId = assetIds.get(image.src);
+        return assetId
+          ? { ...block, ...this.createImageReference(assetId) }
+          : imageToLinkBlock(image, options.keyGenerator);
+      }),
+      uploaded,
+      skipped,
+    };
   }
 
   /**
-   * Find all documents that reference a given document
+   * Load an image referenced from imported content. Downloads follow redirects
+   * only to allowed hosts, time out, and stop at MAX_IMAGE_BYTES.
    */
-  async findReferences(
-    documentId: string,
-    options?: { limit?: number }
-  ): Promise<DocumentReference[]> {
-    const limit = options?.limit || 100;
-    
-    // GROQ query to find all documents that reference this document
-    const query = `*[references($id)][0...${limit}] {
-      _id,
-      _type
-    }`;
-    
-    const result = await this.query<DocumentReference[]>(query, { id: documentId });
-    return result.result;
+  private async fetchImage(
+    src: string,
+    imageHosts?: string[]
+  ): Promise<{ buffer: Buffer; contentType: string; filename: string }> {
+    const dataUrl = parseDataUrl(src);
+    if (dataUrl) {
+      const contentType = dataUrl.contentType || 'application/octet-stream';
+      return { buffer: dataUrl.buffer, contentType, filename: defaultFilename(contentType, 'image') };
+    }
+
+    if (!/^https?:\/\//.test(src)) {
+      throw new Error(`Unsupported image source: ${src.slice(0, 100)}`);
+    }
+
+    const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS);
+    let url = new URL(src);
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      if (imageHosts && !imageHosts.some((host) => matchesHost(url.hostname, host))) {
+        throw new Error(
+          imageHosts.length
+            ? `Image host ${url.hostname} is not allowed; allowed hosts: ${imageHosts.join(', ')}`
+            : 'Downloading remote images is disabled on this server'
+        );
+      }
+      response = await fetch(url, { signal, redirect: 'manual' });
+      const location = response.status >= 300 && response.status < 400 && response.headers.get('location');
+      if (!location) break;
+      if (redirects >= MAX_IMAGE_REDIRECTS) {
+        throw new Error(`Image download failed: more than ${MAX_IMAGE_REDIRECTS} redirects`);
+      }
+      url = new URL(location, url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported image redirect: ${url.protocol}`);
+      }
+    }
+
+    if (!response.ok) {
+      throw new Error(`Image download failed: ${response.status}`);
+    }
+    const contentType = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+    if (!contentType.startsWith('image/')) {
+      throw new Error(`Not an image: ${contentType}`);
+    }
+    const filename = decodeURIComponent(new URL(src).pathname.split('/').pop() || '') || 'image';
+    return { buffer: await readLimited(response, MAX_IMAGE_BYTES), contentType, filename };
   }
 
   /**
-   * Get revision history for a document
+   * Work out what publishing some documents would do: the draft of each, and
+   * strong references in those drafts to documents that are not published and
+   * are not part of the batch (publishing would fail or leave them dangling)
    */
-  async getHistory(
-    documentId: string,
-    options?: { limit?: number }
-  ): Promise<HistoryEntry[]> {
-    if (!this.token) {
-      throw new Error('History access requires a Sanity API token');
+  async planPublish(ids: string[]): Promise<PublishPlan> {
+    const publishedIds = Array.from(new Set(ids.map(publishedIdOf)));
+    const found = await this.query<SanityDocument[]>(`*[_id in $ids]`, {
+      ids: publishedIds.flatMap((id) => [id, `drafts.${id}`]),
+    });
+    const byId = new Map(found.result.map((doc) => [doc._id, doc]));
+
+    const missing = publishedIds.filter((id) => !byId.has(`drafts.${id}`));
+    if (missing.length) {
+      throw new Error(
+        missing.length === 1 && ids.length === 1
+          ? `Draft document not found: drafts.${missing[0]}`
+          : `Draft documents not found: ${missing.map((id) => `drafts.${id}`).join(', ')}`
+      );
     }
-    
+
+    const documents = publishedIds.map((publishedId) => {
+      const draft = byId.get(`drafts.${publishedId}`) as SanityDocument;
+      return {
+        draftId: draft._id,
+        publishedId,
+        draftRevision: draft._rev,
+        isNew: !byId.has(publishedId),
+      };
+    });
+
+    const batch = new Set(publishedIds);
+    const references = publishedIds.flatMap((publishedId) =>
+      strongReferences(byId.get(`drafts.${publishedId}`)).map((reference) => ({ documentId: publishedId, ...reference }))
+    );
+    const outside = Array.from(new Set(references.map((reference) => reference.ref).filter((ref) => !batch.has(ref))));
+    const existing = new Set<string>();
+    if (outside.length) {
+      const targets = await this.query<string[]>(`*[_id in $ids]._id`, {
+        ids: outside.flatMap((id) => [id, `drafts.${id}`]),
+      });
+      targets.result.forEach((id) => existing.add(id));
+    }
+    const unpublishedReferences = references
+      .filter(({ ref }) => !batch.has(ref) && !existing.has(ref))
+      .map((reference) => ({
+        ...reference,
+        status: existing.has(`drafts.${reference.ref}`) ? ('draftOnly' as const) : ('missing' as const),
+      }));
+
+    return { documents, unpublishedReferences };
+  }
+
+  /**
+   * Publish the drafts of one or more documents in a single atomic action.
+   * The published `_createdAt` is kept. Fails if any draft changed after it was
+   * read, or (unless `skipReferenceCheck`) if a draft strongly references a
+   * document that is only a draft or doesn't exist.
+   */
+  async publishDocuments(
+    ids: string[],
+    options?: { ifRevisions?: Record<string, string>; skipReferenceCheck?: boolean }
+  ): Promise<MutationResult> {
+    if (!ids.length) {
+      throw new Error('Nothing to publish: no document IDs given');
+    }
+    const plan = await this.planPublish(ids);
+
+    const expected = new Map(
+      Object.entries(options?.ifRevisions || {}).map(([id, rev]) => [publishedIdOf(id), rev])
+    );
+    for (const document of plan.documents) {
+      const rev = expected.get(document.publishedId);
+      if (rev && document.draftRevision !== rev) {
+        throw new RevisionConflictError(document.draftId, rev, document.draftRevision ?? null);
+      }
+    }
+
+    if (plan.unpublishedReferences.length && !options?.skipReferenceCheck) {
+      const problems = plan.unpublishedReferences.map(
+        ({ documentId, path, ref, status }) =>
+          `${documentId} references ${ref} at ${path} (${status === 'draftOnly' ? 'only a draft exists' : 'not found'})`
+      );
+      throw new Error(
+        `Cannot publish: ${problems.join('; ')}. Publish the referenced documents first or in the same batch.`
+      );
+    }
+
+    const { transactionId } = await this.action(
+      plan.documents.map(({ draftId, publishedId, draftRevision }) => ({
+        actionType: 'sanity.action.document.publish',
+        draftId,
+        publishedId,
+        ...(draftRevision && { ifDraftRevisionId: draftRevision }),
+      }))
+    );
+    return {
+      transactionId,
+      results: plan.documents.map(({ publishedId }) => ({ id: publishedId, operation: 'publish' })),
+    };
+  }
+
+  /**
+   * Publish a draft document (with or without the drafts. prefix)
+   */
+  async publishDocument(
+    id: string,
+    options?: { ifRevision?: string; skipReferenceCheck?: boolean }
+  ): Promise<MutationResult> {
+    return this.publishDocuments([id], {
+      ifRevisions: options?.ifRevision ? { [id]: options.ifRevision } : undefined,
+      skipReferenceCheck: options?.skipReferenceCheck,
+    });
+  }
+
+  /**
+   * Unpublish a document. The published version becomes the draft unless a
+   * draft already exists, in which case the draft is kept.
+   */
+  async unpublishDocument(id: string): Promise<MutationResult> {
+    const publishedId = publishedIdOf(id);
+    const published = await this.getDocument(publishedId);
+    if (!published) {
+      throw new Error(`Published document not found: ${publishedId}`);
+    }
+
+    const draftId = `drafts.${publishedId}`;
+    const { transactionId } = await this.action([
+      { actionType: 'sanity.action.document.unpublish', draftId, publishedId },
+    ]);
+    return { transactionId, results: [{ id: publishedId, operation: 'unpublish' }] };
+  }
+
+  /**
+   * Discard the draft of a document, leaving the published version as it is
+   */
+  async discardDraft(id: string, options?: { ifRevision?: string }): Promise<MutationResult> {
+    const draftId = `drafts.${publishedIdOf(id)}`;
+    const draft = await this.getDocument(draftId);
+    if (!draft) {
+      throw new Error(`Draft document not found: ${draftId}`);
+    }
+    if (options?.ifRevision && draft._rev !== options.ifRevision) {
+      throw new RevisionConflictError(draftId, options.ifRevision, draft._rev ?? null);
+    }
+
+    const { transactionId } = await this.action([{ actionType: 'sanity.action.document.discard', draftId }]);
+    return { transactionId, results: [{ id: draftId, operation: 'discard' }] };
+  }
+
+  /**
+   * Create a Content Release
+   */
+  async createRelease(
+    metadata: ReleaseMetadata,
+    releaseId: string = newReleaseId()
+  ): Promise<{ transactionId: string; releaseId: string }> {
+    assertReleaseId(releaseId);
+    if (metadata.intendedPublishAt && Number.isNaN(new Date(metadata.intendedPublishAt).getTime())) {
+      throw new Error(`Invalid time: ${metadata.intendedPublishAt}`);
+    }
+    const { transactionId } = await this.action([
+      {
+        actionType: 'sanity.action.release.create',
+        releaseId,
+        metadata: { releaseType: 'undecided', ...metadata },
+      },
+    ]);
+    return { transactionId, releaseId };
+  }
+
+  /**
+   * List releases, newest first. Archived and published releases are left out unless asked for.
+   */
+  async listReleases(options?: { all?: boolean }): Promise<ReleaseSummary[]> {
+    const result = await this.query<Array<Record<string, unknown>>>(
+      `*[_type == "system.release"${options?.all ? '' : ' && !(state in ["archived", "published"])'}] | order(_createdAt desc)`,
+      {},
+      { perspective: 'raw' }
+    );
+    return result.result.map(summarizeRelease);
+  }
+
+  /**
+   * Add a document to a release. The version starts from `document` when given,
+   * otherwise from the current draft, or the published document when there is no draft.
+   */
+  async addToRelease(
+    releaseId: string,
+    documentId: string,
+    document?: Record<string, unknown>
+  ): Promise<MutationResult> {
+    assertReleaseId(releaseId);
+    const publishedId = documentId.replace(/^(drafts|versions\.[^.]+)\./, '');
+    const found = await this.query<{ release: Record<string, unknown> | null; docs: SanityDocument[] }>(
+      `{ "release": *[_id == $releaseId][0], "docs": *[_id in $ids] }`,
+      { releaseId: releaseDocumentId(releaseId), ids: [`drafts.${publishedId}`, publishedId] },
+      { perspective: 'raw' }
+    );
+    const release = found.result.release;
+    if (!release) {
+      throw new Error(`Release not found: ${releaseId}`);
+    }
+    if (release.state !== undefined && release.state !== 'active') {
+      throw new Error(`Release ${releaseId} is ${String(release.state)}; only active releases can be changed`);
+    }
+
+    const base =
+      document ??
+      found.result.docs.find((doc) => doc._id.startsWith('drafts.')) ??
+      found.result.docs.find((doc) => doc._id === publishedId);
+    if (!base) {
+      throw new Error(`Document not found: ${publishedId}. Pass document to add a new document to the release`);
+    }
+    if (typeof base._type !== 'string') {
+      throw new Error('The document for the release needs a _type');
+    }
+
+    const { _rev, _createdAt, _updatedAt, ...content } = base;
+    const id = versionId(releaseId, publishedId);
+    const { transactionId } = await this.action([
+      { actionType: 'sanity.action.document.version.create', publishedId, document: { ...content, _id: id } },
+    ]);
+    return { transactionId, results: [{ id, operation: 'createVersion' }] };
+  }
+
+  /**
+   * Take a document out of a release by discarding its version
+   */
+  async removeFromRelease(releaseId: string, documentId: string): Promise<MutationResult> {
+    assertReleaseId(releaseId);
+    const id = versionId(releaseId, documentId);
+    const { transactionId } = await this.action([
+      { actionType: 'sanity.action.document.version.discard', versionId: id },
+    ]);
+    return { transactionId, results: [{ id, operation: 'discardVersion' }] };
+  }
+
+  /**
+   * The release and its document versions, each diffed against the published document
+   */
+  async getReleaseContents(
+    releaseId: string,
+    options: DiffOptions = {}
+  ): Promise<{ release: ReleaseSummary; documents: ReleaseEntry[] }> {
+    assertReleaseId(releaseId);
+    const found = await this.query<{ release: Record<string, unknown> | null; versions: SanityDocument[] }>(
+      `{ "release": *[_id == $releaseId][0], "versions": *[_id in path($versions)] | order(_id) }`,
+      { releaseId: releaseDocumentId(releaseId), versions: `versions.${releaseId}.**` },
+      { perspective: 'raw' }
+    );
+    if (!found.result.release) {
+      throw new Error(`Release not found: ${releaseId}`);
+    }
+
+    const versions = found.result.versions;
+    const publishedIds = versions.map((version) => parseVersionId(version._id)?.documentId ?? version._id);
+    const published = publishedIds.length
+      ? (await this.query<SanityDocument[]>(`*[_id in $ids]`, { ids: publishedIds }, { perspective: 'raw' })).result
+      : [];
+    const byId = new Map(published.map((doc) => [doc._id, doc]));
+
+    const documents = versions.map((version, i): ReleaseEntry => {
+      const current = byId.get(publishedIds[i]);
+      const system = (version as { _system?: { delete?: boolean } })._system;
+      const changes = current ? diffDocuments(current, version, options) : [];
+      return {
+        documentId: publishedIds[i],
+        versionId: version._id,
+        _type: version._type,
+        status: system?.delete ? 'unpublish' : !current ? 'new' : changes.length ? 'changed' : 'unchanged',
+        changes,
+      };
+    });
+    return { release: summarizeRelease(found.result.release), documents };
+  }
+
+  /**
+   * Publish every document in a release in one transaction
+   */
+  async publishRelease(releaseId: string): Promise<{ transactionId: string }> {
+    assertReleaseId(releaseId);
+    return this.action([{ actionType: 'sanity.action.release.publish', releaseId }]);
+  }
+
+  /**
+   * Archive a release without publishing it
+   */
+  async archiveRelease(releaseId: string): Promise<{ transactionId: string }> {
+    assertReleaseId(releaseId);
+    return this.action([{ actionType: 'sanity.action.release.archive', releaseId }]);
+  }
+
+  /**
+   * Find all documents that reference a given document
+   */
+  async findReferences(
+    documentId: string,
+    options?: { limit?: number }
+  ): Promise<DocumentReference[]> {
+    const limit = options?.limit || 100;
+    
+    // GROQ query to find all documents that reference this document
+    const query = `*[references($id)][0...${limit}] {
+      _id,
+      _type
+    }`;
+    
+    const result = await this.query<DocumentReference[]>(query, { id: documentId });
+    return result.result;
+  }
+
+  /**
+   * Get revision history for a document
+   */
+  async getHistory(
+    documentId: string,
+    options?: { limit?: number }
+  ): Promise<HistoryEntry[]> {
+    if (!this.token) {
+      throw new Error('History access requires a Sanity API token');
+    }
+    
     const limit = options?.limit || 25;
     
     // Use the history API
@@ -512,16 +1400,85 @@ export class SanityClient {
   }
 
   /**
-   * Compare two documents and return the differences
+   * Get a document as it was at a revision or point in time.
+   * Returns null if the document didn't exist then.
+   */
+  async getDocumentAt(
+    documentId: string,
+    at: { revision?: string; time?: string }
+  ): Promise<SanityDocument | null> {
+    if (!this.token) {
+      throw new Error('History access requires a Sanity API token');
+    }
+    if (Boolean(at.revision) === Boolean(at.time)) {
+      throw new Error('Provide either revision or time');
+    }
+    if (at.time && Number.isNaN(Date.parse(at.time))) {
+      throw new Error(`Invalid time: ${at.time}`);
+    }
+
+    const url = new URL(
+      `https://${this.projectId}.api.sanity.io/v${this.apiVersion}/data/history/${this.dataset}/documents/${documentId}`
+    );
+    if (at.revision) url.searchParams.set('revision', at.revision);
+    if (at.time) url.searchParams.set('time', new Date(at.time).toISOString());
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: this.headers,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Sanity history lookup failed: ${response.status} - ${error}`);
+    }
+
+    const result = await response.json() as { documents?: SanityDocument[] };
+    return result.documents?.[0] || null;
+  }
+
+  /**
+   * Plan restoring a document to an earlier revision or point in time, without
+   * writing anything. The restored content goes to the draft by default, so it
+   * can be reviewed before publishing; `changes` is the diff from the current
+   * target document to the restored one.
+   */
+  async planRestore(
+    documentId: string,
+    options: { revision?: string; time?: string; target?: 'draft' | 'published' }
+  ): Promise<RestorePlan> {
+    const previous = await this.getDocumentAt(documentId, options);
+    if (!previous) {
+      throw new Error(`No version of ${documentId} found at ${options.revision || options.time}`);
+    }
+
+    const publishedId = documentId.replace(/^drafts\./, '');
+    const target = options.target === 'published' ? publishedId : `drafts.${publishedId}`;
+    const { _id, _rev, _createdAt, _updatedAt, ...content } = previous;
+    const current = await this.getDocument(target);
+
+    return {
+      source: { _id, _rev, _updatedAt },
+      target,
+      document: content,
+      changes: diffDocuments(current || {}, { _id: target, ...content }),
+    };
+  }
+
+  /**
+   * Compare two documents. `added`/`removed`/`changed`/`unchanged` list top-level
+   * fields; `changes` is the path-level diff that turns A into B.
    */
   async compareDocuments(
     idA: string,
-    idB: string
+    idB: string,
+    options: DiffOptions = {}
   ): Promise<{
     added: string[];
     removed: string[];
     changed: string[];
     unchanged: string[];
+    changes: DiffChange[];
   }> {
     const [docA, docB] = await Promise.all([
       this.getDocument(idA),
@@ -560,7 +1517,53 @@ export class SanityClient {
       }
     }
     
-    return { added, removed, changed, unchanged };
+    return { added, removed, changed, unchanged, changes: diffDocuments(docA, docB, options) };
+  }
+
+  /**
+   * Plan a patch that applies the changes turning `fromId` into `toId` to a
+   * target document (default: `fromId`), optionally only at or below `paths`.
+   *
+   * When the target is `fromId` itself, the patch is guarded by the revision the
+   * diff was made against, so a concurrent edit fails the transaction instead of
+   * being overwritten.
+   */
+  async planApplyDiff(
+    fromId: string,
+    toId: string,
+    options?: { target?: string; paths?: string[] }
+  ): Promise<DiffPatchPlan> {
+    const target = options?.target || fromId;
+    const [from, to] = await Promise.all([this.getDocument(fromId), this.getDocument(toId)]);
+    if (!from) throw new Error(`Document not found: ${fromId}`);
+    if (!to) throw new Error(`Document not found: ${toId}`);
+
+    const all = diffDocuments(from, to);
+    const { changes, unmatched } = options?.paths
+      ? selectChanges(all, options.paths)
+      : { changes: all, unmatched: [] };
+    return {
+      target,
+      changes,
+      patches: toSanityPatches(changes),
+      unmatchedPaths: unmatched,
+      ...(target === fromId && from._rev && { ifRevisionID: from._rev }),
+    };
+  }
+
+  /**
+   * Apply a plan from `planApplyDiff` in one transaction
+   */
+  async applyDiffPlan(plan: DiffPatchPlan, options?: Pick<WriteOptions, 'draft'>): Promise<MutationResult> {
+    if (!plan.patches.length) {
+      throw new Error(`Nothing to apply to ${plan.target}: no changes selected`);
+    }
+    return this.write(
+      plan.patches.map((patch, i) => ({
+        patch: { id: plan.target, ...patch, ...(i === 0 && plan.ifRevisionID && { ifRevisionID: plan.ifRevisionID }) },
+      })),
+      options?.draft
+    );
   }
 
   /**
@@ -568,12 +1571,14 @@ export class SanityClient {
    */
   async bulkMutate(
     operations: BulkOperation[],
-    options?: { dryRun?: boolean }
+    options?: { dryRun?: boolean; draft?: boolean }
   ): Promise<MutationResult> {
     if (!this.token) {
       throw new Error('Bulk operations require a Sanity API token');
     }
     
+    operations.forEach((op, i) => assertValidBulkOperation(op, `operation ${i + 1}`));
+
     if (options?.dryRun) {
       // Validate without executing
       return {
@@ -585,7 +1590,14 @@ export class SanityClient {
       };
     }
     
-    return this.mutate(operations);
+    return this.write(
+      operations.map((op) => {
+        if (!('patch' in op) || !op.patch.ifRevision) return op;
+        const { ifRevision, ...patch } = op.patch;
+        return { patch: { ...patch, ifRevisionID: ifRevision } };
+      }),
+      options?.draft
+    );
   }
 
   /**
@@ -622,6 +1634,273 @@ export class SanityClient {
       status,
     };
   }
+
+  /**
+   * Find image/file assets that no document references
+   */
+  async findUnusedAssets(filter: UnusedAssetFilter = {}): Promise<UnusedAssetsResult> {
+    const limit = filter.limit || 100;
+    const types = filter.kind === 'image'
+      ? ['sanity.imageAsset']
+      : filter.kind === 'file'
+        ? ['sanity.fileAsset']
+        : ['sanity.imageAsset', 'sanity.fileAsset'];
+
+    const conditions = ['_type in $types', '_id > $lastId'];
+    const params: Record<string, unknown> = { types };
+    if (filter.mimeType?.endsWith('/*')) {
+      conditions.push('string::startsWith(mimeType, $mimePrefix)');
+      params.mimePrefix = filter.mimeType.slice(0, -1);
+    } else if (filter.mimeType) {
+      conditions.push('mimeType == $mimeType');
+      params.mimeType = filter.mimeType;
+    }
+    if (filter.minSize !== undefined) {
+      conditions.push('size >= $minSize');
+      params.minSize = filter.minSize;
+    }
+    if (filter.maxSize !== undefined) {
+      conditions.push('size <= $maxSize');
+      params.maxSize = filter.maxSize;
+    }
+    if (filter.olderThanDays !== undefined) {
+      conditions.push('_createdAt < $createdBefore');
+      params.createdBefore = new Date(Date.now() - filter.olderThanDays * 86_400_000).toISOString();
+    }
+    conditions.push('count(*[references(^._id)]) == 0');
+
+    const query = `*[${conditions.join(' && ')}] | order(_id) [0...${ASSET_PAGE_SIZE}] {
+      _id, _type, _createdAt, originalFilename, mimeType, size, url
+    }`;
+    const matchesFilename = filter.filename ? filenameMatcher(filter.filename) : () => true;
+
+    const assets: UnusedAsset[] = [];
+    let lastId = '';
+    let truncated = false;
+    for (;;) {
+      const page = (await this.query<UnusedAsset[]>(query, { ...params, lastId })).result;
+      for (const asset of page) {
+        if (!matchesFilename(asset.originalFilename || '')) continue;
+        if (assets.length === limit) {
+          truncated = true;
+          break;
+        }
+        assets.push(asset);
+      }
+      if (truncated || page.length < ASSET_PAGE_SIZE) break;
+      lastId = page[page.length - 1]._id;
+    }
+
+    return {
+      assets,
+      count: assets.length,
+      totalBytes: assets.reduce((sum, asset) => sum + (asset.size || 0), 0),
+      truncated,
+    };
+  }
+
+  /**
+   * Delete assets in batches. References are re-checked right before each batch is
+   * deleted, so assets that became referenced in the meantime are kept.
+   */
+  async deleteUnusedAssets(
+    ids: string[],
+    options?: { batchSize?: number; onProgress?: (progress: AssetCleanupProgress) => void }
+  ): Promise<AssetCleanupResult> {
+    const batchSize = options?.batchSize || 50;
+    const batches = Math.ceil(ids.length / batchSize);
+    const result: AssetCleanupResult = { deleted: [], deletedBytes: 0, skipped: [], failed: [] };
+
+    for (let batch = 0; batch < batches; batch++) {
+      const batchIds = ids.slice(batch * batchSize, (batch + 1) * batchSize);
+      const current = await this.query<Array<{ _id: string; size?: number; referenced: boolean }>>(
+        `*[_id in $ids]{ _id, size, "referenced": count(*[references(^._id)]) > 0 }`,
+        { ids: batchIds }
+      );
+      const found = new Map(current.result.map((asset) => [asset._id, asset]));
+
+      const deletable: Array<{ _id: string; size?: number }> = [];
+      for (const id of batchIds) {
+        const asset = found.get(id);
+        if (!asset) {
+          result.skipped.push({ id, reason: 'not found' });
+        } else if (asset.referenced) {
+          result.skipped.push({ id, reason: 'now referenced' });
+        } else {
+          deletable.push(asset);
+        }
+      }
+
+      if (deletable.length) {
+        try {
+          await this.mutate(deletable.map((asset) => ({ delete: { id: asset._id } })));
+          for (const asset of deletable) {
+            result.deleted.push(asset._id);
+            result.deletedBytes += asset.size || 0;
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.failed.push({ ids: deletable.map((asset) => asset._id), error: message });
+        }
+      }
+
+      options?.onProgress?.({
+        batch: batch + 1,
+        batches,
+        processed: Math.min((batch + 1) * batchSize, ids.length),
+        total: ids.length,
+        deleted: result.deleted.length,
+      });
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Inferred schema for a document type
+ */
+export interface TypeSchema {
+  /** Top-level field names */
+  fields: string[];
+  /** Every field path with its inferred type, presence and examples */
+  paths: InferredField[];
+  /** Total number of documents of the type */
+  count: number;
+  /** Number of documents the schema was inferred from */
+  sampled: number;
+}
+
+const SCHEMA_PAGE_SIZE = 500;
+const DEFAULT_SCHEMA_SAMPLE_SIZE = 100;
+/** Largest `sampleSize` for getTypeSchema; use `all` to read more */
+export const MAX_SCHEMA_SAMPLE_SIZE = 1000;
+const DEFAULT_QUERY_PAGE_SIZE = 100;
+// Documents sampled to infer a type's search fields
+const SEARCH_SAMPLE_SIZE = 50;
+
+/**
+ * Filters for finding unused assets
+ */
+export interface UnusedAssetFilter {
+  /** Asset kind (default: both) */
+  kind?: AssetKind | 'all';
+  /** Exact MIME type, or a `type/*` wildcard */
+  mimeType?: string;
+  /** Minimum size in bytes */
+  minSize?: number;
+  /** Maximum size in bytes */
+  maxSize?: number;
+  /** Only assets uploaded more than this many days ago */
+  olderThanDays?: number;
+  /** Case-insensitive substring of the original filename, or a glob with `*` */
+  filename?: string;
+  /** Maximum number of assets to return (default: 100) */
+  limit?: number;
+}
+
+export interface UnusedAsset {
+  _id: string;
+  _type: 'sanity.imageAsset' | 'sanity.fileAsset';
+  _createdAt?: string;
+  originalFilename?: string;
+  mimeType?: string;
+  size?: number;
+  url?: string;
+}
+
+export interface UnusedAssetsResult {
+  assets: UnusedAsset[];
+  count: number;
+  totalBytes: number;
+  /** More unused assets match than `limit` */
+  truncated: boolean;
+}
+
+export interface AssetCleanupProgress {
+  batch: number;
+  batches: number;
+  processed: number;
+  total: number;
+  deleted: number;
+}
+
+export interface AssetCleanupResult {
+  deleted: string[];
+  deletedBytes: number;
+  skipped: Array<{ id: string; reason: string }>;
+  failed: Array<{ ids: string[]; error: string }>;
+}
+
+const ASSET_PAGE_SIZE = 500;
+
+// Limits for images downloaded during an HTML import
+const IMAGE_FETCH_TIMEOUT_MS = 30_000;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_IMAGE_REDIRECTS = 5;
+
+// Referencing documents loaded per level when planning a delete
+const REFERRER_LIMIT = 500;
+
+function parseExportLine(line: string): SanityDocument {
+  const doc = JSON.parse(line) as SanityDocument & { error?: string };
+  // The export endpoint reports failures mid-stream as an error object
+  if (doc.error && !doc._id) {
+    throw new Error(`Sanity export failed: ${doc.error}`);
+  }
+  return doc;
+}
+
+/**
+ * Match a hostname against `example.com` or `*.example.com` (the domain and its subdomains)
+ */
+function matchesHost(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const wanted = pattern.toLowerCase();
+  if (wanted.startsWith('*.')) {
+    return host === wanted.slice(2) || host.endsWith(wanted.slice(1));
+  }
+  return host === wanted;
+}
+
+/**
+ * Read a response body, failing as soon as it is larger than `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`Image is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Match filenames by substring, or by glob when the pattern contains `*`
+ */
+function filenameMatcher(pattern: string): (filename: string) => boolean {
+  if (!pattern.includes('*')) {
+    const needle = pattern.toLowerCase();
+    return (filename) => filename.toLowerCase().includes(needle);
+  }
+  const source = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  const regex = new RegExp(`^${source}$`, 'i');
+  return (filename) => regex.test(filename);
 }
 
 /**
@@ -632,6 +1911,131 @@ export interface DocumentReference {
   _type: string;
 }
 
+/**
+ * A write guarded by a revision found the document at another revision
+ * (or deleted), i.e. someone changed it after it was read
+ */
+export class RevisionConflictError extends Error {
+  constructor(
+    readonly documentId: string,
+    readonly expectedRevision: string,
+    readonly currentRevision: string | null
+  ) {
+    super(
+      currentRevision
+        ? `Revision conflict on ${documentId}: expected revision ${expectedRevision}, but it is now at ` +
+            `${currentRevision}. The document changed after it was read; fetch it again and reapply the change.`
+        : `Revision conflict on ${documentId}: expected revision ${expectedRevision}, but the document no longer exists.`
+    );
+    this.name = 'RevisionConflictError';
+  }
+}
+
+// A patch that changes nothing, used to make a transaction depend on a document's revision
+const REVISION_LOCK_FIELD = '_revision_lock_pseudo_field_';
+
+function revisionGuard(id: string, revision: string): Record<string, unknown> {
+  return { patch: { id, ifRevisionID: revision, unset: [REVISION_LOCK_FIELD] } };
+}
+
+function mutationGuards(mutations: Array<Record<string, unknown>>): Map<string, string> {
+  const guards = new Map<string, string>();
+  for (const mutation of mutations) {
+    const patch = mutation.patch as { id?: string; ifRevisionID?: string } | undefined;
+    if (patch?.id && patch.ifRevisionID) guards.set(patch.id, patch.ifRevisionID);
+  }
+  return guards;
+}
+
+function isRevisionGuard(mutation: Record<string, unknown>): boolean {
+  const patch = mutation.patch as { ifRevisionID?: string; unset?: string[] } | undefined;
+  return Boolean(
+    patch?.ifRevisionID &&
+      Object.keys(patch).length === 3 &&
+      patch.unset?.length === 1 &&
+      patch.unset[0] === REVISION_LOCK_FIELD
+  );
+}
+
+function publishedIdOf(id: string): string {
+  return id.replace(/^drafts\./, '');
+}
+
+// Oldest API version with the Actions API, Content Releases and perspectives
+const ACTIONS_API_VERSION = '2025-02-19';
+
+/**
+ * An Actions API action, e.g. `sanity.action.document.publish`. A publish with
+ * `ifDraftRevisionId` fails unless the draft is at that revision.
+ */
+interface ContentAction {
+  actionType: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Read perspective: `raw`, `published`, `drafts`, or release IDs stacked over published
+ */
+export type Perspective = string | string[];
+
+export interface QueryOptions {
+  perspective?: Perspective;
+  /** Abort the query after this many milliseconds */
+  timeout?: number;
+}
+
+/**
+ * What publishing a set of documents would do
+ */
+export interface PublishPlan {
+  documents: Array<{ draftId: string; publishedId: string; draftRevision?: string; isNew: boolean }>;
+  /** Strong references to documents that are neither published nor in the batch */
+  unpublishedReferences: Array<{ documentId: string; path: string; ref: string; status: 'draftOnly' | 'missing' }>;
+}
+
+/**
+ * Strong references in a document, with their paths. Asset references are left
+ * out, since assets are never drafts.
+ */
+function strongReferences(doc: unknown): Array<{ path: string; ref: string }> {
+  const references: Array<{ path: string; ref: string }> = [];
+  const visit = (value: unknown, path: string): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        const key = item && typeof item === 'object' ? (item as { _key?: unknown })._key : undefined;
+        visit(item, typeof key === 'string' ? `${path}[_key=="${key}"]` : `${path}[${index}]`);
+      });
+    } else if (value && typeof value === 'object') {
+      const obj = value as Record<string, unknown>;
+      if (typeof obj._ref === 'string') {
+        if (obj._weak !== true && !obj._ref.startsWith('image-') && !obj._ref.startsWith('file-')) {
+          references.push({ path, ref: obj._ref });
+        }
+        return;
+      }
+      for (const [key, child] of Object.entries(obj)) {
+        if (!key.startsWith('_')) visit(child, path ? `${path}.${key}` : key);
+      }
+    }
+  };
+  visit(doc, '');
+  return references;
+}
+
+/**
+ * A planned restore of an earlier document version
+ */
+export interface RestorePlan {
+  /** The revision that is restored */
+  source: { _id: string; _rev?: string; _updatedAt?: string };
+  /** Document ID that is written with createOrReplace */
+  target: string;
+  /** Restored content, without `_id` and system fields */
+  document: Record<string, unknown>;
+  /** Changes from the current target document to the restored content */
+  changes: DiffChange[];
+}
+
 /**
  * History entry for document revisions
  */
@@ -649,27 +2053,63 @@ export type BulkOperation =
   | { create: Record<string, unknown> }
   | { createOrReplace: Record<string, unknown> }
   | { createIfNotExists: Record<string, unknown> }
-  | { patch: { id: string; set?: Record<string, unknown>; unset?: string[]; inc?: Record<string, number> } }
+  | {
+      patch: PatchOperations & {
+        id: string;
+        /** Fail the transaction unless the document is at this revision */
+        ifRevision?: string;
+      };
+    }
   | { delete: { id: string } };
 
+const BULK_OPERATIONS = ['create', 'createOrReplace', 'createIfNotExists', 'patch', 'delete'];
+
 /**
- * Create a Sanity client from environment variables
+ * Throw unless a bulk operation has exactly one known kind and only known keys,
+ * so a misspelled key is not silently dropped
  */
-export function createClientFromEnv(): SanityClient {
-  const projectId = process.env.SANITY_PROJECT_ID;
-  const dataset = process.env.SANITY_DATASET || 'production';
-  const token = process.env.SANITY_TOKEN;
-  const apiVersion = process.env.SANITY_API_VERSION || '2024-01-20';
+function assertValidBulkOperation(op: BulkOperation, label: string): void {
+  const kinds = Object.keys(op);
+  if (kinds.length !== 1 || !BULK_OPERATIONS.includes(kinds[0])) {
+    throw new Error(
+      `Invalid ${label}: give exactly one of ${BULK_OPERATIONS.join(', ')} (got ${kinds.join(', ') || 'nothing'})`
+    );
+  }
+  if ('patch' in op) {
+    assertValidPatch({ ...op.patch }, `patch in ${label}`);
+  } else if ('delete' in op) {
+    const extra = Object.keys(op.delete).filter((key) => key !== 'id');
+    if (typeof op.delete.id !== 'string' || extra.length) {
+      throw new Error(`Invalid delete in ${label}: give only { id }${extra.length ? ` (got ${extra.join(', ')})` : ''}`);
+    }
+  }
+}
+
+/**
+ * Build a Sanity client config from environment variables
+ */
+export function getConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SanityConfig {
+  const projectId = env.SANITY_PROJECT_ID;
+  const dataset = env.SANITY_DATASET || 'production';
+  const token = env.SANITY_TOKEN;
+  const apiVersion = env.SANITY_API_VERSION || '2024-01-20';
 
   if (!projectId) {
     throw new Error('SANITY_PROJECT_ID environment variable is required');
   }
 
-  return new SanityClient({
+  return {
     projectId,
     dataset,
     apiVersion,
     token,
     useCdn: !token, // Use CDN for public access, API for authenticated
-  });
+  };
 }
+
+/**
+ * Create a Sanity client from environment variables
+ */
+export function createClientFromEnv(): SanityClient {
+  return new SanityClient(getConfigFromEnv());
+}
\ No newline at end of file
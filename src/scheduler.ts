@@ -0,0 +1,333 @@
+/**
+ * Scheduled publishing
+ * Stores publish/unpublish jobs in a local state file and runs the ones that
+ * are due, either from a timer inside the server or from `sanity-mcp run-due`
+ */
+
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { ClientPool } from './config.js';
+import { isToolEnabled, ToolAccessConfig } from './tool-access.js';
+
+export const DEFAULT_SCHEDULE_FILE = 'sanity-mcp.schedule.json';
+
+export type ScheduleAction = 'publish' | 'unpublish';
+
+export const SCHEDULE_ACTIONS: ScheduleAction[] = ['publish', 'unpublish'];
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ScheduleConfig {
+  /** State file holding the jobs */
+  file: string;
+  /** Seconds between due-job checks inside the server; 0 disables the loop */
+  interval: number;
+}
+
+export interface ScheduledJob {
+  id: string;
+  action: ScheduleAction;
+  /** Published document ID */
+  documentId: string;
+  /** When the job should run (ISO 8601) */
+  runAt: string;
+  profile: string;
+  dataset: string;
+  status: JobStatus;
+  createdAt: string;
+  /** When the job last started running */
+  startedAt?: string;
+  finishedAt?: string;
+  transactionId?: string;
+  error?: string;
+}
+
+export interface NewJob {
+  action: ScheduleAction;
+  documentId: string;
+  runAt: string | Date;
+  profile: string;
+  dataset: string;
+}
+
+interface StateFile {
+  jobs: ScheduledJob[];
+}
+
+// A job still marked running after this long was interrupted (e.g. the process exited)
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+// A lock file older than this was left by a process that died while holding it
+const STALE_LOCK_MS = 30 * 1000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Jobs kept in a JSON file. Every change reads the file again and writes it
+ * back through a temporary file, so a crash never leaves it half written.
+ * Changes hold `<file>.lock`, so the server loop and `run-due` can share the
+ * file without claiming the same job twice.
+ */
+export class ScheduleStore {
+  constructor(
+    readonly file: string,
+    private lockTimeout: number = 10 * 1000
+  ) {}
+
+  private async load(): Promise<StateFile> {
+    if (!existsSync(this.file)) return { jobs: [] };
+    try {
+      const state = JSON.parse(await readFile(this.file, 'utf8')) as StateFile;
+      return { jobs: Array.isArray(state.jobs) ? state.jobs : [] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid schedule file ${this.file}: ${message}`);
+    }
+  }
+
+  private async save(state: StateFile): Promise<void> {
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(state, null, 2));
+    await rename(temp, this.file);
+  }
+
+  /**
+   * Create the lock file, waiting while another process holds it. A lock older
+   * than STALE_LOCK_MS is taken over.
+   */
+  private async lock(): Promise<() => Promise<void>> {
+    const lockFile = `${this.file}.lock`;
+    const deadline = Date.now() + this.lockTimeout;
+    for (;;) {
+      try {
+        const handle = await open(lockFile, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return () => rm(lockFile, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const held = await stat(lockFile).catch(() => undefined);
+      if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+        await rm(lockFile, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Schedule file ${this.file} is locked by another process; remove ${lockFile} if none is running`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private async update<T>(change: (state: StateFile) => T): Promise<T> {
+    const unlock = await this.lock();
+    try {
+      const state = await this.load();
+      const result = change(state);
+      await this.save(state);
+      return result;
+    } finally {
+      await unlock();
+    }
+  }
+
+  /**
+   * Schedule a job. The action must be publish or unpublish, and the time valid and in the future.
+   */
+  async add(job: NewJob, now: Date = new Date()): Promise<ScheduledJob> {
+    if (!SCHEDULE_ACTIONS.includes(job.action)) {
+      throw new Error(`Invalid schedule action "${String(job.action)}". Use publish or unpublish`);
+    }
+    const runAt = new Date(job.runAt);
+    if (Number.isNaN(runAt.getTime())) {
+      throw new Error(`Invalid time: ${String(job.runAt)}`);
+    }
+    if (runAt <= now) {
+      throw new Error(`Scheduled time ${runAt.toISOString()} is in the past`);
+    }
+    const documentId = job.documentId.replace(/^drafts\./, '');
+
+    return this.update((state) => {
+      const duplicate = state.jobs.find(
+        (existing) =>
+          existing.status === 'pending' &&
+          existing.action === job.action &&
+          existing.documentId === documentId &&
+          existing.profile === job.profile &&
+          existing.dataset === job.dataset
+      );
+      if (duplicate) {
+        throw new Error(
+          `${documentId} already has a pending ${job.action} job (${duplicate.id}) at ${duplicate.runAt}; cancel it first`
+        );
+      }
+
+      const created: ScheduledJob = {
+        id: randomUUID(),
+        action: job.action,
+        documentId,
+        runAt: runAt.toISOString(),
+        profile: job.profile,
+        dataset: job.dataset,
+        status: 'pending',
+        createdAt: now.toISOString(),
+      };
+      state.jobs.push(created);
+      return created;
+    });
+  }
+
+  /**
+   * Jobs ordered by run time, optionally filtered
+   */
+  async list(filter?: { status?: JobStatus; documentId?: string }): Promise<ScheduledJob[]> {
+    const documentId = filter?.documentId?.replace(/^drafts\./, '');
+    const { jobs } = await this.load();
+    return jobs
+      .filter((job) => !filter?.status || job.status === filter.status)
+      .filter((job) => !documentId || job.documentId === documentId)
+      .sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+
+  /**
+   * Cancel a pending job
+   */
+  async cancel(id: string, now: Date = new Date()): Promise<ScheduledJob> {
+    return this.update((state) => {
+      const job = state.jobs.find((candidate) => candidate.id === id);
+      if (!job) {
+        throw new Error(`Scheduled job not found: ${id}`);
+      }
+      if (job.status !== 'pending') {
+        throw new Error(`Job ${id} is ${job.status} and can no longer be cancelled`);
+      }
+      job.status = 'cancelled';
+      job.finishedAt = now.toISOString();
+      return { ...job };
+    });
+  }
+
+  /**
+   * Mark due jobs as running and return them. Jobs left running by an
+   * interrupted process are picked up again.
+   */
+  async claimDue(now: Date = new Date()): Promise<ScheduledJob[]> {
+    return this.update((state) => {
+      const due = state.jobs.filter(
+        (job) =>
+          (job.status === 'pending' && new Date(job.runAt) <= now) ||
+          (job.status === 'running' &&
+            job.startedAt !== undefined &&
+            now.getTime() - new Date(job.startedAt).getTime() > STALE_RUNNING_MS)
+      );
+      for (const job of due) {
+        job.status = 'running';
+        job.startedAt = now.toISOString();
+      }
+      return due.map((job) => ({ ...job }));
+    });
+  }
+
+  /**
+   * Record how a job ended
+   */
+  async record(
+    id: string,
+    outcome: { status: 'done' | 'failed'; transactionId?: string; error?: string },
+    now: Date = new Date()
+  ): Promise<ScheduledJob> {
+    return this.update((state) => {
+      const job = state.jobs.find((candidate) => candidate.id === id);
+      if (!job) {
+        throw new Error(`Scheduled job not found: ${id}`);
+      }
+      job.status = outcome.status;
+      job.finishedAt = now.toISOString();
+      if (outcome.transactionId) job.transactionId = outcome.transactionId;
+      if (outcome.error) job.error = outcome.error;
+      return { ...job };
+    });
+  }
+}
+
+/**
+ * Whether any scheduled action may run: read-only mode or tool access settings
+ * that hide both sanity_publish and sanity_unpublish stop the scheduler too
+ */
+export function canRunScheduledJobs(access: ToolAccessConfig = {}): boolean {
+  return SCHEDULE_ACTIONS.some((action) => isToolEnabled(`sanity_${action}`, access));
+}
+
+function assertActionEnabled(action: ScheduleAction, access: ToolAccessConfig): void {
+  if (!isToolEnabled(`sanity_${action}`, access)) {
+    throw new Error(`sanity_${action} is disabled on this server (read-only mode or tool access settings)`);
+  }
+}
+
+/**
+ * Run every due job through the client's publish/unpublish and record the outcome.
+ * A failed job is recorded as failed and does not stop the others. Jobs whose
+ * tool is disabled by `access` fail without touching the document.
+ */
+export async function runDueJobs(
+  store: ScheduleStore,
+  pool: ClientPool,
+  now: Date = new Date(),
+  access: ToolAccessConfig = {}
+): Promise<ScheduledJob[]> {
+  const finished: ScheduledJob[] = [];
+  for (const job of await store.claimDue(now)) {
+    try {
+      const client = pool.getClient({ profile: job.profile, dataset: job.dataset });
+      let result: { transactionId: string };
+      switch (job.action) {
+        case 'publish':
+          assertActionEnabled(job.action, access);
+          result = await client.publishDocument(job.documentId);
+          break;
+        case 'unpublish':
+          assertActionEnabled(job.action, access);
+          result = await client.unpublishDocument(job.documentId);
+          break;
+        default:
+          throw new Error(`Unknown scheduled action "${String(job.action)}"`);
+      }
+      finished.push(await store.record(job.id, { status: 'done', transactionId: result.transactionId }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      finished.push(await store.record(job.id, { status: 'failed', error: message }));
+    }
+  }
+  return finished;
+}
+
+/**
+ * Check for due jobs every `interval` seconds, running only the actions `access`
+ * allows. Returns a function that stops the loop.
+ */
+export function startScheduler(
+  store: ScheduleStore,
+  pool: ClientPool,
+  interval: number,
+  access: ToolAccessConfig = {},
+  log: (message: string) => void = console.error
+): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const job of await runDueJobs(store, pool, new Date(), access)) {
+        log(`Scheduled ${job.action} of ${job.documentId}: ${job.status}${job.error ? ` (${job.error})` : ''}`);
+      }
+    } catch (error) {
+      log(`Scheduler error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => void tick(), interval * 1000);
+  timer.unref();
+  void tick();
+  return () => clearInterval(timer);
+}
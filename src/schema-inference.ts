@@ -0,0 +1,230 @@
+/**
+ * Schema inference
+ * Derives the shape of a document type from a sample of its documents:
+ * field paths, value types, presence ratios, array members, references and examples
+ */
+
+export interface InferredField {
+  /** Field path, e.g. `title`, `slug.current`, `body[].children[].text` */
+  path: string;
+  /** Value types seen at this path (string, number, boolean, datetime, date, url, object, array, reference, null, or an object's `_type`) */
+  types: string[];
+  /** Share of parent objects (or documents, for top-level fields) that have this field */
+  presence: number;
+  /** Number of times the field was seen */
+  occurrences: number;
+  /** Types of array members, for array fields */
+  arrayMemberTypes?: string[];
+  /** Document types referenced from this field, for references or arrays of references */
+  referenceTypes?: string[];
+  /** Up to three distinct example values, for primitive fields */
+  examples?: unknown[];
+}
+
+export interface InferredSchema {
+  /** Top-level field names */
+  fields: string[];
+  /** Every field path with its inferred shape */
+  paths: InferredField[];
+}
+
+interface FieldAccumulator {
+  path: string;
+  parentPath: string;
+  occurrences: number;
+  types: Set<string>;
+  arrayMemberTypes: Set<string>;
+  referenceIds: Set<string>;
+  examples: unknown[];
+}
+
+const MAX_DEPTH = 8;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 80;
+
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const URL_PATTERN = /^(https?:\/\/|mailto:)/;
+
+/**
+ * Detect the type of a single value
+ */
+export function detectValueType(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+
+  switch (typeof value) {
+    case 'string':
+      if (DATETIME_PATTERN.test(value)) return 'datetime';
+      if (DATE_PATTERN.test(value)) return 'date';
+      if (URL_PATTERN.test(value)) return 'url';
+      return 'string';
+    case 'number':
+    case 'boolean':
+      return typeof value;
+    case 'object': {
+      const obj = value as Record<string, unknown>;
+      if (typeof obj._ref === 'string') return 'reference';
+      return typeof obj._type === 'string' ? obj._type : 'object';
+    }
+    default:
+      return typeof value;
+  }
+}
+
+/**
+ * Accumulates field statistics across many documents
+ */
+export class SchemaInferrer {
+  private fields = new Map<string, FieldAccumulator>();
+  private containerVisits = new Map<string, number>();
+
+  /**
+   * Add one document to the sample
+   */
+  addDocument(doc: Record<string, unknown>): void {
+    this.visitObject(doc, '', 0);
+  }
+
+  /**
+   * All referenced document IDs, for resolving reference target types
+   */
+  referenceIds(): string[] {
+    const ids = new Set<string>();
+    for (const field of this.fields.values()) {
+      for (const id of field.referenceIds) ids.add(id);
+    }
+    return Array.from(ids);
+  }
+
+  /**
+   * Build the inferred schema. `referenceTypes` maps referenced IDs to their document types.
+   */
+  toSchema(referenceTypes: Record<string, string> = {}): InferredSchema {
+    const paths: InferredField[] = [];
+    for (const field of this.fields.values()) {
+      const parentVisits = this.containerVisits.get(field.parentPath) || 0;
+      const info: InferredField = {
+        path: field.path,
+        types: Array.from(field.types),
+        presence: parentVisits ? Math.round((field.occurrences / parentVisits) * 1000) / 1000 : 0,
+        occurrences: field.occurrences,
+      };
+
+      if (field.arrayMemberTypes.size) {
+        info.arrayMemberTypes = Array.from(field.arrayMemberTypes);
+      }
+      if (field.referenceIds.size) {
+        const targets = new Set<string>();
+        for (const id of field.referenceIds) {
+          const target = referenceTypes[id] || assetTypeFromId(id);
+          if (target) targets.add(target);
+        }
+        info.referenceTypes = Array.from(targets);
+      }
+      if (field.examples.length) {
+        info.examples = field.examples;
+      }
+      paths.push(info);
+    }
+
+    return {
+      fields: paths.filter((p) => !p.path.includes('.') && !p.path.includes('[')).map((p) => p.path),
+      paths,
+    };
+  }
+
+  private visitObject(obj: Record<string, unknown>, path: string, depth: number): void {
+    this.containerVisits.set(path, (this.containerVisits.get(path) || 0) + 1);
+    if (depth >= MAX_DEPTH) return;
+
+    for (const [key, value] of Object.entries(obj)) {
+      if (key.startsWith('_')) continue;
+      this.visitValue(value, path ? `${path}.${key}` : key, path, depth + 1);
+    }
+  }
+
+  private visitValue(value: unknown, path: string, parentPath: string, depth: number): void {
+    const field = this.getField(path, parentPath);
+    const type = detectValueType(value);
+    field.occurrences++;
+    field.types.add(type);
+
+    if (type === 'reference') {
+      field.referenceIds.add((value as { _ref: string })._ref);
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const itemType = detectValueType(item);
+        field.arrayMemberTypes.add(itemType);
+        if (itemType === 'reference') {
+          field.referenceIds.add((item as { _ref: string })._ref);
+        } else if (item && typeof item === 'object' && !Array.isArray(item)) {
+          this.visitObject(item as Record<string, unknown>, `${path}[]`, depth);
+        }
+      }
+      return;
+    }
+
+    if (value && typeof value === 'object') {
+      this.visitObject(value as Record<string, unknown>, path, depth);
+      return;
+    }
+
+    if (value !== null && value !== undefined) {
+      addExample(field, value);
+    }
+  }
+
+  private getField(path: string, parentPath: string): FieldAccumulator {
+    let field = this.fields.get(path);
+    if (!field) {
+      field = {
+        path,
+        parentPath,
+        occurrences: 0,
+        types: new Set(),
+        arrayMemberTypes: new Set(),
+        referenceIds: new Set(),
+        examples: [],
+      };
+      this.fields.set(path, field);
+    }
+    return field;
+  }
+}
+
+/**
+ * Infer a schema from a set of documents
+ */
+export function inferSchema(
+  docs: Array<Record<string, unknown>>,
+  referenceTypes?: Record<string, string>
+): InferredSchema {
+  const inferrer = new SchemaInferrer();
+  for (const doc of docs) inferrer.addDocument(doc);
+  return inferrer.toSchema(referenceTypes);
+}
+
+function addExample(field: FieldAccumulator, value: unknown): void {
+  if (field.examples.length >= MAX_EXAMPLES) return;
+
+  const example =
+    typeof value === 'string' && value.length > MAX_EXAMPLE_LENGTH
+      ? `${value.slice(0, MAX_EXAMPLE_LENGTH)}…`
+      : value;
+  if (!field.examples.includes(example)) {
+    field.examples.push(example);
+  }
+}
+
+/**
+ * Asset IDs encode their type, so they can be resolved without a query
+ */
+function assetTypeFromId(id: string): string | undefined {
+  if (id.startsWith('image-')) return 'sanity.imageAsset';
+  if (id.startsWith('file-')) return 'sanity.fileAsset';
+  return undefined;
+}
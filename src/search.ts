@@ -0,0 +1,331 @@
+/**
+ * Full-text search
+ * Parses search syntax (phrases, prefixes, exclusions), builds the GROQ `score()`
+ * query from per-type field weights, and cuts highlighted snippets from the hits
+ */
+
+import { InferredSchema } from './schema-inference.js';
+import { isPortableText, portableTextToPlainText } from './portable-text.js';
+
+/**
+ * Which fields a document type is searched on and what each hit returns
+ */
+export interface TypeSearchConfig {
+  /**
+   * Field paths and their boost, e.g. `{ "title": 3, "tags": 2, "pt::text(body)": 1 }`.
+   * Wrap Portable Text fields in `pt::text()`.
+   */
+  fields: Record<string, number>;
+  /** Top-level fields returned with each hit (default: title, name, slug, description) */
+  projection?: string[];
+}
+
+export interface SearchConfig {
+  /** Used for types without their own entry */
+  default?: TypeSearchConfig;
+  types?: Record<string, TypeSearchConfig>;
+  /** Derive fields from the inferred schema when searching a type without an entry (default: true) */
+  inferFields?: boolean;
+}
+
+export interface SearchTerm {
+  text: string;
+  /** word: whole word; prefix: `word*`; phrase: `"exact words"` */
+  kind: 'word' | 'prefix' | 'phrase';
+  /** `-word` or `-"phrase"`: documents containing it are left out */
+  exclude: boolean;
+}
+
+export type SearchHit = {
+  _id: string;
+  _type: string;
+  _score: number;
+  /** Matched text with the hits in `**bold**` */
+  snippet?: string;
+  /** Field the snippet comes from */
+  matchedField?: string;
+} & Record<string, unknown>;
+
+/**
+ * A group of types searched with the same fields
+ */
+export interface SearchGroup {
+  /** Types in the group; omitted for the group of all other types */
+  types?: string[];
+  config: TypeSearchConfig;
+}
+
+export const DEFAULT_TYPE_SEARCH: TypeSearchConfig = {
+  fields: { title: 3, name: 3, description: 2, body: 1, 'pt::text(body)': 1 },
+  projection: ['title', 'name', 'slug', 'description'],
+};
+
+const FIELD_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*|\[\])*$/;
+const PROJECTION_PATTERN = /^[A-Za-z_]\w*$/;
+const SNIPPET_LENGTH = 200;
+// Phrases are checked after the query, so fetch extra hits to fill the page
+const PHRASE_OVERFETCH = 4;
+const MAX_FETCH = 200;
+
+const TITLE_FIELDS = ['title', 'name', 'heading', 'label'];
+const SUMMARY_FIELDS = ['description', 'summary', 'excerpt', 'subtitle', 'tagline'];
+// String fields that hold identifiers rather than prose
+const SKIPPED_FIELDS = new Set(['slug', 'url', 'href', 'email', 'color', 'language', 'locale']);
+const MAX_INFERRED_FIELDS = 10;
+const MIN_PRESENCE = 0.1;
+
+/**
+ * Check a search field path or `pt::text(path)` expression before it is put in a query
+ */
+export function assertSearchField(field: string): void {
+  const path = /^pt::text\((.+)\)$/.exec(field)?.[1] ?? field;
+  if (!FIELD_PATTERN.test(path)) {
+    throw new Error(`Invalid search field "${field}": use a field path like "title", "seo.description" or "pt::text(body)"`);
+  }
+}
+
+/**
+ * Check a type's search settings
+ */
+export function assertTypeSearchConfig(config: TypeSearchConfig, label: string): void {
+  const fields = Object.entries(config.fields || {});
+  if (!fields.length) {
+    throw new Error(`Search settings for ${label} need at least one field`);
+  }
+  for (const [field, boost] of fields) {
+    assertSearchField(field);
+    if (typeof boost !== 'number' || !(boost > 0)) {
+      throw new Error(`Invalid boost for search field "${field}" in ${label}: use a positive number`);
+    }
+  }
+  for (const field of config.projection || []) {
+    if (!PROJECTION_PATTERN.test(field)) {
+      throw new Error(`Invalid projection field "${field}" in ${label}: use top-level field names`);
+    }
+  }
+}
+
+/**
+ * Split a search into terms: `"exact phrase"`, `prefix*` and `-excluded` (also `-"phrase"`).
+ * Every other word must appear as a whole word.
+ */
+export function parseSearchQuery(input: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const match of input.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    if (match[3] === undefined) {
+      const text = match[2].trim().replace(/\s+/g, ' ');
+      if (text) terms.push({ text, kind: text.includes(' ') ? 'phrase' : 'word', exclude: match[1] === '-' });
+      continue;
+    }
+
+    let word = match[3];
+    const exclude = word.startsWith('-');
+    if (exclude) word = word.slice(1);
+    const prefix = word.endsWith('*');
+    word = word.replace(/\*+/g, '');
+    if (word) terms.push({ text: word, kind: prefix ? 'prefix' : 'word', exclude });
+  }
+
+  if (!terms.some((term) => !term.exclude)) {
+    throw new Error(`Search "${input}" needs at least one term that is not excluded`);
+  }
+  return terms;
+}
+
+/**
+ * Search settings derived from an inferred schema: title-like fields get boost 3,
+ * summaries 2, other text and Portable Text fields 1
+ */
+export function searchConfigFromSchema(schema: InferredSchema): TypeSearchConfig | undefined {
+  const candidates: Array<{ field: string; name: string; boost: number; presence: number }> = [];
+  for (const path of schema.paths) {
+    const name = path.path.replace(/\[\]$/, '');
+    if (!PROJECTION_PATTERN.test(name) || name.startsWith('_') || SKIPPED_FIELDS.has(name)) continue;
+    if (path.presence < MIN_PRESENCE && !path.path.endsWith('[]')) continue;
+
+    if (path.arrayMemberTypes?.includes('block')) {
+      candidates.push({ field: `pt::text(${name})`, name, boost: 1, presence: path.presence });
+    } else if (path.types.includes('string')) {
+      const boost = TITLE_FIELDS.includes(name) ? 3 : SUMMARY_FIELDS.includes(name) ? 2 : 1;
+      candidates.push({ field: name, name, boost, presence: path.presence });
+    }
+  }
+  if (!candidates.length) return undefined;
+
+  const chosen = candidates
+    .sort((a, b) => b.boost - a.boost || b.presence - a.presence)
+    .slice(0, MAX_INFERRED_FIELDS);
+  const projection = chosen.filter((candidate) => !candidate.field.startsWith('pt::')).map(({ name }) => name);
+  if (schema.fields.includes('slug')) projection.push('slug');
+
+  return {
+    fields: Object.fromEntries(chosen.map(({ field, boost }) => [field, boost])),
+    projection: [...new Set(projection)].slice(0, 6),
+  };
+}
+
+/**
+ * The text of a field value: strings as they are, Portable Text as plain text,
+ * arrays joined
+ */
+export function searchableText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (isPortableText(value)) return portableTextToPlainText(value);
+  if (Array.isArray(value)) return value.map(searchableText).filter(Boolean).join(' ');
+  return '';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termPattern(term: SearchTerm): string {
+  const body = term.text.split(' ').map(escapeRegExp).join('\\s+');
+  return `(?<![\\p{L}\\p{N}])${body}${term.kind === 'prefix' ? '[\\p{L}\\p{N}]*' : '(?![\\p{L}\\p{N}])'}`;
+}
+
+/**
+ * Regular expression finding any of the terms in text
+ */
+export function termMatcher(terms: SearchTerm[]): RegExp | undefined {
+  if (!terms.length) return undefined;
+  return new RegExp(terms.map(termPattern).join('|'), 'giu');
+}
+
+/**
+ * A window of text around the first hit, with every hit in it wrapped in `**`
+ */
+export function highlightSnippet(text: string, terms: SearchTerm[], length: number = SNIPPET_LENGTH): string | undefined {
+  const matcher = termMatcher(terms.filter((term) => !term.exclude));
+  if (!matcher) return undefined;
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = matcher.exec(flat);
+  if (!first) return undefined;
+
+  let from = Math.max(0, Math.min(first.index - Math.floor(length / 3), flat.length - length));
+  if (from > 0) from = flat.indexOf(' ', from) + 1 || from;
+  let to = Math.min(flat.length, from + length);
+  if (to < flat.length) to = Math.max(flat.lastIndexOf(' ', to), first.index + first[0].length);
+
+  const window = flat.slice(from, to).replace(matcher, (hit) => `**${hit}**`);
+  return `${from > 0 ? '…' : ''}${window}${to < flat.length ? '…' : ''}`;
+}
+
+/**
+ * The GROQ `match` pattern of a term. Phrases match when all their words do;
+ * word order is checked on the fetched text.
+ */
+function matchPattern(term: SearchTerm): string {
+  return term.kind === 'prefix' ? `${term.text}*` : term.text;
+}
+
+function typeCondition(group: SearchGroup, groups: SearchGroup[]): string {
+  if (group.types) return `_type in ${JSON.stringify(group.types)}`;
+  const configured = groups.flatMap((other) => other.types || []);
+  return configured.length ? `!(_type in ${JSON.stringify(configured)})` : 'true';
+}
+
+/**
+ * Build the search query. Every term that is not excluded must match one of a
+ * type's fields; hits are ranked by the boosts of the fields they match in.
+ */
+export function buildSearchQuery(
+  terms: SearchTerm[],
+  groups: SearchGroup[],
+  options: { types?: string[]; limit: number }
+): { query: string; params: Record<string, unknown>; fetchLimit: number } {
+  const params: Record<string, unknown> = {};
+  const termParams = terms.map((term, i) => {
+    params[`term${i}`] = matchPattern(term);
+    return `$term${i}`;
+  });
+
+  const matches: string[] = [];
+  const boosts: string[] = [];
+  const projections: string[] = [];
+  for (const group of groups) {
+    const condition = typeCondition(group, groups);
+    const fields = Object.entries(group.config.fields);
+    const anyField = (param: string) => `(${fields.map(([field]) => `${field} match ${param}`).join(' || ')})`;
+
+    const required = terms.map((term, i) => (term.exclude ? null : anyField(termParams[i])));
+    // Excluded phrases are checked on the fetched text, so their words alone do not exclude
+    const excluded = terms.map((term, i) =>
+      term.exclude && term.kind !== 'phrase' ? `!${anyField(termParams[i])}` : null
+    );
+    const parts = [condition === 'true' ? null : condition, ...required, ...excluded].filter(Boolean);
+    matches.push(parts.length > 1 ? `(${parts.join(' && ')})` : parts[0]!);
+
+    for (const [field, boost] of fields) {
+      terms.forEach((term, i) => {
+        if (!term.exclude) {
+          const match = `${field} match ${termParams[i]}`;
+          boosts.push(`boost(${condition === 'true' ? match : `${condition} && ${match}`}, ${boost})`);
+        }
+      });
+    }
+
+    const projection = [
+      ...(group.config.projection || DEFAULT_TYPE_SEARCH.projection || []),
+      `"_searchText": [${fields.map(([field]) => field).join(', ')}]`,
+    ].join(', ');
+    projections.push(condition === 'true' ? projection : `${condition} => { ${projection} }`);
+  }
+
+  const typeFilter = options.types?.length ? ' && _type in $types' : '';
+  if (options.types?.length) params.types = options.types;
+  const fetchLimit = terms.some((term) => term.kind === 'phrase')
+    ? Math.min(options.limit * PHRASE_OVERFETCH, MAX_FETCH)
+    : options.limit;
+
+  const query =
+    `*[!(_type in ["sanity.imageAsset", "sanity.fileAsset"])${typeFilter} && (${matches.join(' || ')})] ` +
+    `| score(${boosts.join(', ')}) | order(_score desc) [0...${fetchLimit}] ` +
+    `{ _id, _type, _score, ${projections.join(', ')} }`;
+  return { query, params, fetchLimit };
+}
+
+/**
+ * Check phrases on the fetched text, add snippets and drop the raw text
+ */
+export function finishSearchHits(
+  rows: Array<Record<string, unknown>>,
+  terms: SearchTerm[],
+  groups: SearchGroup[],
+  limit: number
+): SearchHit[] {
+  const required = terms.filter((term) => term.kind === 'phrase' && !term.exclude);
+  const excluded = terms.filter((term) => term.kind === 'phrase' && term.exclude);
+  const positive = terms.filter((term) => !term.exclude);
+
+  const hits: SearchHit[] = [];
+  for (const row of rows) {
+    const { _searchText, ...doc } = row;
+    const group =
+      groups.find((candidate) => candidate.types?.includes(String(row._type))) ||
+      groups.find((candidate) => !candidate.types);
+    const fields = group ? Object.keys(group.config.fields) : [];
+    const texts = Array.isArray(_searchText) ? _searchText.map(searchableText) : [];
+    const all = texts.join('\n');
+
+    if (required.some((term) => !termMatcher([term])!.test(all))) continue;
+    if (excluded.some((term) => termMatcher([term])!.test(all))) continue;
+
+    const hit = { ...doc } as SearchHit;
+    // Take the snippet from the highest-boosted field with a hit
+    const order = fields
+      .map((field, i) => ({ field, text: texts[i] || '', boost: group!.config.fields[field] }))
+      .sort((a, b) => b.boost - a.boost);
+    for (const { field, text } of order) {
+      const snippet = text && highlightSnippet(text, positive);
+      if (snippet) {
+        hit.snippet = snippet;
+        hit.matchedField = field;
+        break;
+      }
+    }
+    hits.push(hit);
+    if (hits.length >= limit) break;
+  }
+  return hits;
+}
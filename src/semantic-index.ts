@@ -0,0 +1,332 @@
+/**
+ * Semantic search index
+ * Extracts text from documents, embeds it in passages and keeps the vectors in a
+ * file on disk. Refreshes only fetch documents changed since the last sync.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { dot, Embedder, EmbedderConfig, tokenize } from './embeddings.js';
+import { isPortableText, portableTextToPlainText } from './portable-text.js';
+import { SanityClient, SanityDocument } from './sanity-client.js';
+
+export const DEFAULT_INDEX_DIRECTORY = '.sanity-mcp/index';
+
+export interface SemanticSearchConfig {
+  /** Directory for index files, one per project and dataset */
+  directory: string;
+  embedder?: EmbedderConfig;
+}
+
+export interface SemanticHit {
+  _id: string;
+  _type: string;
+  title?: string;
+  /** Cosine similarity of the best-matching passage */
+  score: number;
+  snippet: string;
+}
+
+export interface RefreshResult {
+  indexed: number;
+  removed: number;
+  total: number;
+}
+
+interface IndexedDocument {
+  _type: string;
+  _updatedAt: string;
+  title?: string;
+  passages: string[];
+  vectors: Float32Array[];
+}
+
+interface IndexFile {
+  version: number;
+  embedder: string;
+  /** `_updatedAt` and `_id` of the last document synced */
+  syncedAt: string;
+  lastId: string;
+  documents: Record<string, Omit<IndexedDocument, 'vectors'> & { vectors: string[] }>;
+}
+
+const INDEX_VERSION = 1;
+const PAGE_SIZE = 100;
+const PASSAGE_WORDS = 120;
+const MAX_PASSAGES = 16;
+const SNIPPET_LENGTH = 200;
+// Deleted documents are looked for at most this often, since that reads every ID
+const DELETION_CHECK_MS = 60_000;
+
+// Published content only: no drafts, release versions, system documents or assets
+const INDEXED_DOCUMENTS =
+  '!(_id in path("drafts.**")) && !(_id in path("versions.**")) && !(_id in path("_.**")) && ' +
+  '!(_type in ["sanity.imageAsset", "sanity.fileAsset"])';
+
+const TITLE_FIELDS = ['title', 'name', 'heading', 'label'];
+// Fields that hold identifiers or markup rather than prose
+const SKIPPED_FIELDS = new Set(['slug', 'url', 'href', 'email', 'color', 'language']);
+
+/**
+ * The text of a document: its title, and its prose as passages of about
+ * PASSAGE_WORDS words. Portable Text is read like `pt::text()`.
+ */
+export function extractText(doc: Record<string, unknown>): { title?: string; passages: string[] } {
+  const titleField = TITLE_FIELDS.find((field) => typeof doc[field] === 'string' && (doc[field] as string).trim());
+  const title = titleField ? (doc[titleField] as string).trim() : undefined;
+
+  const paragraphs: string[] = [];
+  const visit = (value: unknown): void => {
+    if (typeof value === 'string') {
+      const text = value.trim();
+      if (text && !/^(https?:|mailto:|#[0-9a-f]{3,8}$)/i.test(text)) paragraphs.push(text);
+    } else if (isPortableText(value)) {
+      paragraphs.push(...portableTextToPlainText(value).split('\n\n'));
+      value.filter((item) => item._type !== 'block').forEach(visit);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object' && typeof (value as { _ref?: unknown })._ref !== 'string') {
+      for (const [key, child] of Object.entries(value)) {
+        if (!key.startsWith('_') && !SKIPPED_FIELDS.has(key)) visit(child);
+      }
+    }
+  };
+  for (const [key, value] of Object.entries(doc)) {
+    if (key !== titleField && !key.startsWith('_') && !SKIPPED_FIELDS.has(key)) visit(value);
+  }
+
+  const passages: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length) passages.push(current.join(' '));
+    current = [];
+  };
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(/\s+/);
+    if (current.length + words.length > PASSAGE_WORDS) flush();
+    for (let i = 0; i < words.length; i += PASSAGE_WORDS) {
+      current.push(...words.slice(i, i + PASSAGE_WORDS));
+      if (current.length >= PASSAGE_WORDS) flush();
+    }
+  }
+  flush();
+
+  return { ...(title && { title }), passages: passages.slice(0, MAX_PASSAGES) };
+}
+
+/**
+ * A window of a passage around the first query word it contains
+ */
+export function makeSnippet(passage: string, query: string, length: number = SNIPPET_LENGTH): string {
+  if (passage.length <= length) return passage;
+  const lower = passage.toLowerCase();
+  const positions = tokenize(query)
+    .map((word) => lower.indexOf(word))
+    .filter((position) => position >= 0);
+  const hit = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, Math.min(hit - Math.floor(length / 3), passage.length - length));
+  const from = start > 0 ? passage.indexOf(' ', start) + 1 || start : 0;
+  const to = Math.min(passage.length, from + length);
+  const end = to < passage.length ? passage.lastIndexOf(' ', to) : to;
+  return `${from > 0 ? '…' : ''}${passage.slice(from, end > from ? end : to)}${to < passage.length ? '…' : ''}`;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(value: string): Float32Array {
+  const buffer = Buffer.from(value, 'base64');
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+}
+
+/**
+ * A vector index of one dataset, stored in a JSON file
+ */
+export class SemanticIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private syncedAt = '';
+  private lastId = '';
+  private loaded = false;
+  private refreshing?: Promise<RefreshResult>;
+  private refreshingRebuild = false;
+  private queuedRebuild?: Promise<RefreshResult>;
+  private checkedDeletionsAt = 0;
+
+  constructor(
+    readonly file: string,
+    private embedder: Embedder,
+    private deletionCheckInterval: number = DELETION_CHECK_MS
+  ) {}
+
+  /**
+   * Index file for a client's project and dataset
+   */
+  static fileFor(directory: string, client: SanityClient): string {
+    return join(directory, `${client.projectId}-${client.dataset}.json`);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!existsSync(this.file)) return;
+
+    let state: IndexFile;
+    try {
+      state = JSON.parse(await readFile(this.file, 'utf8')) as IndexFile;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid index file ${this.file}: ${message}`);
+    }
+    // Built by another embedder or format: start over
+    if (state.version !== INDEX_VERSION || state.embedder !== this.embedder.id) return;
+
+    this.syncedAt = state.syncedAt;
+    this.lastId = state.lastId;
+    for (const [id, doc] of Object.entries(state.documents)) {
+      this.documents.set(id, { ...doc, vectors: doc.vectors.map(decodeVector) });
+    }
+  }
+
+  private async save(): Promise<void> {
+    const state: IndexFile = {
+      version: INDEX_VERSION,
+      embedder: this.embedder.id,
+      syncedAt: this.syncedAt,
+      lastId: this.lastId,
+      documents: Object.fromEntries(
+        Array.from(this.documents, ([id, doc]) => [id, { ...doc, vectors: doc.vectors.map(encodeVector) }])
+      ),
+    };
+    await mkdir(dirname(this.file), { recursive: true });
+    const temp = `${this.file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(state));
+    await rename(temp, this.file);
+  }
+
+  /**
+   * Index documents changed since the last refresh and drop deleted ones
+   * (checked at most every `deletionCheckInterval` ms). Concurrent calls share
+   * one refresh; a rebuild asked for during a plain refresh runs after it.
+   */
+  refresh(client: SanityClient, options?: { rebuild?: boolean }): Promise<RefreshResult> {
+    const rebuild = options?.rebuild ?? false;
+    if (rebuild && this.refreshing && !this.refreshingRebuild) {
+      this.queuedRebuild ??= this.refreshing
+        .catch(() => undefined)
+        .then(() => {
+          this.queuedRebuild = undefined;
+          return this.refresh(client, { rebuild: true });
+        });
+      return this.queuedRebuild;
+    }
+
+    if (!this.refreshing) {
+      this.refreshingRebuild = rebuild;
+      this.refreshing = this.sync(client, rebuild).finally(() => {
+        this.refreshing = undefined;
+        this.refreshingRebuild = false;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async sync(client: SanityClient, rebuild: boolean): Promise<RefreshResult> {
+    await this.load();
+    if (rebuild) {
+      this.documents.clear();
+      this.syncedAt = '';
+      this.lastId = '';
+    }
+
+    let indexed = 0;
+    for (;;) {
+      const page = (
+        await client.query<SanityDocument[]>(
+          `*[${INDEXED_DOCUMENTS} && (_updatedAt > $since || (_updatedAt == $since && _id > $lastId))] ` +
+            `| order(_updatedAt asc, _id asc) [0...${PAGE_SIZE}]`,
+          { since: this.syncedAt, lastId: this.lastId }
+        )
+      ).result;
+      if (!page.length) break;
+
+      const extracted = page.map((doc) => extractText(doc));
+      const texts = extracted.flatMap(({ title, passages }) =>
+        (passages.length ? passages : ['']).map((passage, i) => (i === 0 && title ? `${title}\n${passage}` : passage))
+      );
+      const vectors = await this.embedder.embed(texts);
+
+      let offset = 0;
+      page.forEach((doc, i) => {
+        const { title, passages } = extracted[i];
+        const count = Math.max(passages.length, 1);
+        this.documents.set(doc._id, {
+          _type: doc._type,
+          _updatedAt: doc._updatedAt || '',
+          ...(title && { title }),
+          passages,
+          vectors: vectors.slice(offset, offset + count),
+        });
+        offset += count;
+      });
+      indexed += page.length;
+
+      const last = page[page.length - 1];
+      this.syncedAt = last._updatedAt || this.syncedAt;
+      this.lastId = last._id;
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    let removed = 0;
+    if (rebuild || Date.now() - this.checkedDeletionsAt >= this.deletionCheckInterval) {
+      const existing = new Set((await client.query<string[]>(`*[${INDEXED_DOCUMENTS}]._id`)).result);
+      for (const id of this.documents.keys()) {
+        if (!existing.has(id)) {
+          this.documents.delete(id);
+          removed++;
+        }
+      }
+      this.checkedDeletionsAt = Date.now();
+    }
+
+    if (indexed || removed || rebuild) await this.save();
+    return { indexed, removed, total: this.documents.size };
+  }
+
+  /**
+   * Documents ranked by the similarity of their best passage to the query
+   */
+  async search(query: string, options?: { types?: string[]; limit?: number }): Promise<SemanticHit[]> {
+    await this.load();
+    const limit = options?.limit || 10;
+    const [queryVector] = await this.embedder.embed([query]);
+
+    const hits: SemanticHit[] = [];
+    for (const [id, doc] of this.documents) {
+      if (options?.types?.length && !options.types.includes(doc._type)) continue;
+      let best = -1;
+      let score = 0;
+      doc.vectors.forEach((vector, i) => {
+        const similarity = dot(queryVector, vector);
+        if (similarity > score) {
+          score = similarity;
+          best = i;
+        }
+      });
+      if (best < 0) continue;
+      hits.push({
+        _id: id,
+        _type: doc._type,
+        ...(doc.title && { title: doc.title }),
+        score: Math.round(score * 10000) / 10000,
+        snippet: makeSnippet(doc.passages[best] ?? doc.title ?? '', query),
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Tool access control
+ * Decides which tools are exposed based on read-only mode and allow/deny lists
+ */
+
+export interface ToolAccessConfig {
+  /** Hide every tool that can modify content */
+  readOnly?: boolean;
+  /** Tool names (or `prefix*` patterns) to expose; empty means all */
+  allow?: string[];
+  /** Tool names (or `prefix*` patterns) to hide; wins over `allow` */
+  deny?: string[];
+}
+
+/**
+ * Tools that create, change or delete content, or write files on the server
+ */
+export const WRITE_TOOLS = new Set([
+  'sanity_create',
+  'sanity_update',
+  'sanity_patch',
+  'sanity_delete',
+  'sanity_publish',
+  'sanity_unpublish',
+  'sanity_discard_draft',
+  'sanity_bulk',
+  'sanity_import_html',
+  'sanity_upload_asset',
+  'sanity_import',
+  'sanity_export',
+  'sanity_apply_diff',
+  'sanity_restore',
+]);
+
+/**
+ * Match a tool name against a pattern. A trailing `*` matches any suffix.
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+/**
+ * Check whether a tool is exposed under the given access config
+ */
+export function isToolEnabled(name: string, config: ToolAccessConfig = {}): boolean {
+  if (config.readOnly && WRITE_TOOLS.has(name)) return false;
+  if (config.deny?.some((pattern) => matchesToolPattern(name, pattern))) return false;
+  if (config.allow?.length) {
+    return config.allow.some((pattern) => matchesToolPattern(name, pattern));
+  }
+  return true;
+}
@@ -0,0 +1,598 @@
+/**
+ * Schema-aware validation of write payloads
+ * Checks documents and patches against a Studio schema export
+ * (`sanity schema extract`) or, without one, against the inferred shape of
+ * existing documents of the same type
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { SanityClient, TypeSchema } from './sanity-client.js';
+import { detectValueType, InferredField } from './schema-inference.js';
+import { insertArrayPath, PatchOperations } from './patch-operations.js';
+
+export type ValidationMode = 'off' | 'warn' | 'block';
+
+export interface ValidationConfig {
+  mode: ValidationMode;
+  /** Path to a `sanity schema extract` JSON file */
+  schemaFile?: string;
+}
+
+export interface ValidationIssue {
+  /** Field path the issue applies to, e.g. `author` or `body[_key=="abc"].children` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Patch operations that carry values to validate
+ */
+export type PatchPayload = PatchOperations;
+
+// Type nodes from `sanity schema extract`
+export type SchemaTypeNode =
+  | { type: 'string' | 'number' | 'boolean'; value?: unknown }
+  | { type: 'null' | 'unknown' }
+  | {
+      type: 'object';
+      attributes: Record<string, { type: 'objectAttribute'; value: SchemaTypeNode; optional?: boolean }>;
+      rest?: SchemaTypeNode;
+      dereferencesTo?: string;
+    }
+  | { type: 'array'; of: SchemaTypeNode }
+  | { type: 'union'; of: SchemaTypeNode[] }
+  | { type: 'inline'; name: string };
+
+export type SchemaExportEntry =
+  | ({ name: string; type: 'document' } & Omit<Extract<SchemaTypeNode, { type: 'object' }>, 'type'>)
+  | { name: string; type: 'type'; value: SchemaTypeNode };
+
+const SYSTEM_FIELDS = new Set(['_id', '_rev', '_createdAt', '_updatedAt']);
+const MAX_SCHEMA_DEPTH = 20;
+const INFERRED_SCHEMA_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A parsed `sanity schema extract` file
+ */
+export class SchemaExport {
+  private types = new Map<string, SchemaTypeNode>();
+
+  constructor(entries: SchemaExportEntry[]) {
+    for (const entry of entries) {
+      if (entry.type === 'document') {
+        this.types.set(entry.name, {
+          type: 'object',
+          attributes: entry.attributes,
+          rest: entry.rest,
+          dereferencesTo: entry.dereferencesTo,
+        });
+      } else if (entry.type === 'type') {
+        this.types.set(entry.name, entry.value);
+      }
+    }
+  }
+
+  static fromFile(path: string): SchemaExport {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid schema file ${path}: ${message}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error(`Invalid schema file ${path}: expected the JSON array written by "sanity schema extract"`);
+    }
+    return new SchemaExport(entries as SchemaExportEntry[]);
+  }
+
+  hasType(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  /**
+   * Validate a full document against its document type
+   */
+  validateDocument(doc: Record<string, unknown>): ValidationIssue[] {
+    const type = doc._type;
+    if (typeof type !== 'string') {
+      return [{ path: '_type', message: 'Document is missing _type' }];
+    }
+    const node = this.types.get(type);
+    if (!node) {
+      return [{ path: '_type', message: `Unknown document type "${type}"${suggest(type, Array.from(this.types.keys()))}` }];
+    }
+    return this.validateValue(doc, node, '', 0);
+  }
+
+  /**
+   * Validate the values of a patch against the document type
+   */
+  validatePatch(type: string, patch: PatchPayload): ValidationIssue[] {
+    const root = this.types.get(type);
+    if (!root) return [];
+
+    const issues: ValidationIssue[] = [];
+    for (const [op, values] of [['set', patch.set], ['setIfMissing', patch.setIfMissing]] as const) {
+      for (const [path, value] of Object.entries(values || {})) {
+        const target = this.resolvePath(root, path, issues);
+        if (target) issues.push(...this.validateValue(value, target, path, 0).map((i) => withOp(op, i)));
+      }
+    }
+    for (const path of patch.unset || []) {
+      this.resolvePath(root, path, issues);
+    }
+    for (const [op, values] of [['inc', patch.inc], ['dec', patch.dec]] as const) {
+      for (const [path, value] of Object.entries(values || {})) {
+        const target = this.resolvePath(root, path, issues);
+        if (target && !this.accepts(target, 0)) {
+          issues.push({ path, message: `${op} requires a number field` });
+        }
+        if (typeof value !== 'number') {
+          issues.push({ path, message: `${op} amount must be a number` });
+        }
+      }
+    }
+    for (const path of Object.keys(patch.diffMatchPatch || {})) {
+      const target = this.resolvePath(root, path, issues);
+      if (target && !this.accepts(target, '')) {
+        issues.push({ path, message: 'diffMatchPatch requires a string field' });
+      }
+    }
+    const arrayPath = patch.insert && insertArrayPath(patch.insert);
+    if (patch.insert && arrayPath) {
+      const target = this.resolvePath(root, arrayPath, issues);
+      if (target && target.type !== 'array') {
+        issues.push({ path: arrayPath, message: `insert requires an array field` });
+      } else if (target) {
+        issues.push(...this.validateValue(patch.insert.items, target, arrayPath, 0).map((i) => withOp('insert', i)));
+      }
+    }
+    return issues;
+  }
+
+  private resolve(node: SchemaTypeNode, depth = 0): SchemaTypeNode {
+    if (node.type === 'inline' && depth < MAX_SCHEMA_DEPTH) {
+      const named = this.types.get(node.name);
+      return named ? this.resolve(named, depth + 1) : { type: 'unknown' };
+    }
+    return node;
+  }
+
+  /**
+   * Follow a patch path (`a.b`, `items[_key=="x"].title`, `tags[0]`) through the schema.
+   * Returns undefined (and records an issue for unknown fields) when the path can't be resolved.
+   */
+  private resolvePath(root: SchemaTypeNode, path: string, issues: ValidationIssue[]): SchemaTypeNode | undefined {
+    let node = this.resolve(root);
+    let walked = '';
+
+    for (const segment of splitPath(path)) {
+      if (segment.startsWith('[')) {
+        if (node.type !== 'array') return undefined;
+        node = this.resolve(node.of);
+        walked += segment;
+        continue;
+      }
+      if (node.type !== 'object') return undefined;
+
+      const attribute = node.attributes[segment];
+      walked = walked ? `${walked}.${segment}` : segment;
+      if (!attribute) {
+        if (node.rest) return undefined;
+        issues.push({ path: walked, message: `Unknown field "${segment}"${suggest(segment, Object.keys(node.attributes))}` });
+        return undefined;
+      }
+      node = this.resolve(attribute.value);
+    }
+
+    return node.type === 'union' ? undefined : node;
+  }
+
+  private accepts(node: SchemaTypeNode, value: unknown): boolean {
+    return this.validateValue(value, node, '', 0).length === 0;
+  }
+
+  private validateValue(value: unknown, rawNode: SchemaTypeNode, path: string, depth: number): ValidationIssue[] {
+    if (depth > MAX_SCHEMA_DEPTH) return [];
+    const node = this.resolve(rawNode);
+    const at = path || '(document)';
+
+    switch (node.type) {
+      case 'unknown':
+        return [];
+
+      case 'null':
+        return value === null || value === undefined ? [] : [{ path: at, message: `Expected null, got ${describeValue(value)}` }];
+
+      case 'string':
+      case 'number':
+      case 'boolean':
+        if (typeof value !== node.type) {
+          return [{ path: at, message: `Expected ${node.type}, got ${describeValue(value)}` }];
+        }
+        if (node.value !== undefined && value !== node.value) {
+          return [{ path: at, message: `Expected ${JSON.stringify(node.value)}, got ${JSON.stringify(value)}` }];
+        }
+        return [];
+
+      case 'array': {
+        if (!Array.isArray(value)) {
+          return [{ path: at, message: `Expected array, got ${describeValue(value)}` }];
+        }
+        return value.flatMap((item, i) => {
+          const itemPath = `${path}${itemSelector(item, i)}`;
+          const issues = this.validateValue(item, node.of, itemPath, depth + 1);
+          if (isPlainObject(item) && typeof item._key !== 'string') {
+            issues.unshift({ path: itemPath, message: 'Array item is missing _key' });
+          }
+          return issues;
+        });
+      }
+
+      case 'union': {
+        const candidates = node.of.map((option) => this.resolve(option));
+        const typeName = isPlainObject(value) ? value._type : undefined;
+        const matching = candidates.filter((option) => typeLiteral(option) === typeName);
+        const options = matching.length ? matching : candidates;
+
+        let best: ValidationIssue[] | undefined;
+        for (const option of options) {
+          const issues = this.validateValue(value, option, path, depth + 1);
+          if (issues.length === 0) return [];
+          if (!best || issues.length < best.length) best = issues;
+        }
+        if (!matching.length && typeName !== undefined) {
+          const allowed = candidates.map(typeLiteral).filter(Boolean);
+          if (allowed.length) {
+            return [{ path: at, message: `Type "${String(typeName)}" is not allowed here. Allowed: ${allowed.join(', ')}` }];
+          }
+        }
+        return best || [];
+      }
+
+      case 'object': {
+        if (!isPlainObject(value)) {
+          return [{ path: at, message: `Expected ${node.dereferencesTo ? 'reference' : 'object'}, got ${describeValue(value)}` }];
+        }
+
+        const issues: ValidationIssue[] = [];
+        for (const [key, attribute] of Object.entries(node.attributes)) {
+          if (!attribute.optional && !(key in value) && !SYSTEM_FIELDS.has(key) && key !== '_key') {
+            issues.push({ path: joinPath(path, key), message: 'Required field is missing' });
+          }
+        }
+        for (const [key, fieldValue] of Object.entries(value)) {
+          const attribute = node.attributes[key];
+          if (!attribute) {
+            if (node.rest) {
+              issues.push(...this.validateValue(fieldValue, node.rest, joinPath(path, key), depth + 1));
+            } else if (!SYSTEM_FIELDS.has(key) && key !== '_key') {
+              issues.push({
+                path: joinPath(path, key),
+                message: `Unknown field "${key}"${suggest(key, Object.keys(node.attributes))}`,
+              });
+            }
+            continue;
+          }
+          issues.push(...this.validateValue(fieldValue, attribute.value, joinPath(path, key), depth + 1));
+        }
+        return issues;
+      }
+
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * Validate a document against the inferred shape of existing documents
+ */
+export function validateAgainstInferred(doc: Record<string, unknown>, schema: TypeSchema): ValidationIssue[] {
+  if (schema.sampled === 0) return [];
+  const fields = new Map(schema.paths.map((p) => [p.path, p]));
+  return validateInferredObject(doc, '', '', fields);
+}
+
+/**
+ * Validate patch values against the inferred shape of existing documents
+ */
+export function validatePatchAgainstInferred(patch: PatchPayload, schema: TypeSchema): ValidationIssue[] {
+  if (schema.sampled === 0) return [];
+  const fields = new Map(schema.paths.map((p) => [p.path, p]));
+  const issues: ValidationIssue[] = [];
+
+  const check = (path: string, value?: unknown, hasValue = false) => {
+    const normalized = normalizePath(path);
+    const field = fields.get(normalized);
+    if (!field) {
+      const parent = normalized.includes('.') ? normalized.slice(0, normalized.lastIndexOf('.')) : '';
+      // Only flag unknown fields where we know the parent (top-level, or a known object/array item)
+      const parentKnown = parent === '' || Array.from(fields.keys()).some((p) => p.startsWith(`${parent}.`));
+      if (parentKnown) {
+        const siblings = Array.from(fields.keys())
+          .filter((p) => (parent ? p.startsWith(`${parent}.`) : !p.includes('.') && !p.includes('[')))
+          .map((p) => p.slice(parent ? parent.length + 1 : 0));
+        const name = normalized.slice(parent ? parent.length + 1 : 0);
+        issues.push({ path, message: `Unknown field "${name}"${suggest(name, siblings)}` });
+      }
+      return;
+    }
+    if (hasValue) {
+      issues.push(...checkInferredValue(value, field, path, normalized, fields));
+    }
+  };
+
+  for (const values of [patch.set, patch.setIfMissing]) {
+    for (const [path, value] of Object.entries(values || {})) check(path, value, true);
+  }
+  for (const path of patch.unset || []) check(path);
+  for (const values of [patch.inc, patch.dec]) {
+    for (const path of Object.keys(values || {})) check(path, 0, true);
+  }
+  for (const path of Object.keys(patch.diffMatchPatch || {})) check(path, '', true);
+  const arrayPath = patch.insert && insertArrayPath(patch.insert);
+  if (patch.insert && arrayPath) check(arrayPath, patch.insert.items, true);
+  return issues;
+}
+
+function validateInferredObject(
+  obj: Record<string, unknown>,
+  path: string,
+  schemaPath: string,
+  fields: Map<string, InferredField>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const siblings = Array.from(fields.keys())
+    .filter((p) => (schemaPath ? p.startsWith(`${schemaPath}.`) : true))
+    .map((p) => p.slice(schemaPath ? schemaPath.length + 1 : 0))
+    .filter((p) => !p.includes('.') && !p.includes('['));
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.startsWith('_')) continue;
+    const fieldSchemaPath = schemaPath ? `${schemaPath}.${key}` : key;
+    const fieldPath = joinPath(path, key);
+    const field = fields.get(fieldSchemaPath);
+    if (!field) {
+      issues.push({ path: fieldPath, message: `Unknown field "${key}"${suggest(key, siblings)}` });
+      continue;
+    }
+    issues.push(...checkInferredValue(value, field, fieldPath, fieldSchemaPath, fields));
+  }
+  return issues;
+}
+
+function checkInferredValue(
+  value: unknown,
+  field: InferredField,
+  path: string,
+  schemaPath: string,
+  fields: Map<string, InferredField>
+): ValidationIssue[] {
+  const type = detectValueType(value);
+  const expected = field.types.filter((t) => t !== 'null');
+  if (type === 'null' || expected.length === 0) return [];
+
+  if (!typesCompatible(type, expected)) {
+    if (expected.includes('reference')) {
+      return [{ path, message: `Expected a reference like {"_type": "reference", "_ref": "<id>"}, got ${describeValue(value)}` }];
+    }
+    return [{ path, message: `Expected ${expected.join(' or ')}, got ${type}` }];
+  }
+
+  if (type === 'reference') {
+    return referenceIssues(value as Record<string, unknown>, path);
+  }
+
+  if (Array.isArray(value)) {
+    const issues: ValidationIssue[] = [];
+    value.forEach((item, i) => {
+      const itemPath = `${path}${itemSelector(item, i)}`;
+      const itemType = detectValueType(item);
+      if (field.arrayMemberTypes?.length && !typesCompatible(itemType, field.arrayMemberTypes)) {
+        issues.push({ path: itemPath, message: `Expected array item of type ${field.arrayMemberTypes.join(' or ')}, got ${itemType}` });
+        return;
+      }
+      if (isPlainObject(item)) {
+        if (typeof item._key !== 'string') {
+          issues.push({ path: itemPath, message: 'Array item is missing _key' });
+        }
+        if (itemType === 'reference') {
+          issues.push(...referenceIssues(item, itemPath));
+        } else {
+          issues.push(...validateInferredObject(item, itemPath, `${schemaPath}[]`, fields));
+        }
+      }
+    });
+    return issues;
+  }
+
+  if (isPlainObject(value)) {
+    return validateInferredObject(value, path, schemaPath, fields);
+  }
+  return [];
+}
+
+function referenceIssues(ref: Record<string, unknown>, path: string): ValidationIssue[] {
+  if (ref._type !== 'reference') {
+    return [{ path, message: 'Reference is missing "_type": "reference"' }];
+  }
+  return [];
+}
+
+/**
+ * Value types that can stand in for each other (string formats are all strings)
+ */
+function typesCompatible(type: string, expected: string[]): boolean {
+  if (expected.includes(type)) return true;
+  const stringTypes = ['string', 'datetime', 'date', 'url'];
+  if (stringTypes.includes(type) && expected.some((t) => stringTypes.includes(t))) return true;
+  // Typed objects (e.g. "slug", "image") may be sampled as plain objects and vice versa
+  const isObjectType = (t: string) => !['array', 'reference', 'number', 'boolean', ...stringTypes].includes(t);
+  return isObjectType(type) && expected.some(isObjectType);
+}
+
+/**
+ * Runs validation for the configured mode, using the schema export when the
+ * type is in it and the inferred schema otherwise
+ */
+export class DocumentValidator {
+  private schemaExport?: SchemaExport;
+  private inferred = new WeakMap<SanityClient, Map<string, { schema: TypeSchema; at: number }>>();
+
+  constructor(private config: ValidationConfig) {
+    if (config.mode !== 'off' && config.schemaFile) {
+      if (!existsSync(config.schemaFile)) {
+        throw new Error(`Schema file not found: ${config.schemaFile}`);
+      }
+      this.schemaExport = SchemaExport.fromFile(config.schemaFile);
+    }
+  }
+
+  get mode(): ValidationMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Validate a full document (create/update)
+   */
+  async validateDocument(client: SanityClient, doc: Record<string, unknown>): Promise<ValidationIssue[]> {
+    if (this.config.mode === 'off') return [];
+    const type = doc._type;
+    if (typeof type !== 'string') {
+      return [{ path: '_type', message: 'Document is missing _type' }];
+    }
+
+    if (this.schemaExport?.hasType(type)) {
+      return this.schemaExport.validateDocument(doc);
+    }
+    return validateAgainstInferred(doc, await this.inferredSchema(client, type));
+  }
+
+  /**
+   * Validate a patch against the type of the document being patched
+   */
+  async validatePatch(client: SanityClient, id: string, patch: PatchPayload): Promise<ValidationIssue[]> {
+    if (this.config.mode === 'off') return [];
+    const type = (await client.query<string | null>(`*[_id == $id][0]._type`, { id })).result;
+    if (!type) return [];
+
+    if (this.schemaExport?.hasType(type)) {
+      return this.schemaExport.validatePatch(type, patch);
+    }
+    return validatePatchAgainstInferred(patch, await this.inferredSchema(client, type));
+  }
+
+  /**
+   * Apply the configured mode: throw in block mode, return warnings in warn mode
+   */
+  enforce(issues: ValidationIssue[]): ValidationIssue[] | undefined {
+    if (issues.length === 0) return undefined;
+    if (this.config.mode === 'block') {
+      throw new Error(`Validation failed:\n${formatIssues(issues)}`);
+    }
+    return issues;
+  }
+
+  private async inferredSchema(client: SanityClient, type: string): Promise<TypeSchema> {
+    let cache = this.inferred.get(client);
+    if (!cache) {
+      cache = new Map();
+      this.inferred.set(client, cache);
+    }
+
+    const cached = cache.get(type);
+    if (cached && Date.now() - cached.at < INFERRED_SCHEMA_TTL_MS) {
+      return cached.schema;
+    }
+
+    const schema = await client.getTypeSchema(type);
+    cache.set(type, { schema, at: Date.now() });
+    return schema;
+  }
+}
+
+/**
+ * Format issues as a bullet list
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Split a patch path into field names and bracket selectors
+ */
+function splitPath(path: string): string[] {
+  return path.match(/[^.[\]]+|\[[^\]]*\]/g) || [];
+}
+
+/**
+ * Turn a patch path into an inferred schema path (`items[_key=="x"].title` → `items[].title`)
+ */
+function normalizePath(path: string): string {
+  return splitPath(path)
+    .map((segment) => (segment.startsWith('[') ? '[]' : `.${segment}`))
+    .join('')
+    .replace(/^\./, '');
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function itemSelector(item: unknown, index: number): string {
+  return isPlainObject(item) && typeof item._key === 'string' ? `[_key=="${item._key}"]` : `[${index}]`;
+}
+
+function withOp(op: string, issue: ValidationIssue): ValidationIssue {
+  return { path: issue.path, message: `${issue.message} (in ${op})` };
+}
+
+function typeLiteral(node: SchemaTypeNode): string | undefined {
+  if (node.type !== 'object') return undefined;
+  const typeAttribute = node.attributes._type?.value;
+  return typeAttribute?.type === 'string' && typeof typeAttribute.value === 'string'
+    ? typeAttribute.value
+    : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Suggest the closest known name for a likely typo
+ */
+function suggest(name: string, candidates: string[]): string {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(name.length / 4)) ? ` (did you mean "${best}"?)` : '';
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}